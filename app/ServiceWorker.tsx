@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/lib/i18n/useI18n";
+
+// sw.js'i kaydeder ve veri cache'ten geldiğinde küçük bir "çevrimdışı" rozeti gösterir.
+export default function ServiceWorker() {
+  const [offline, setOffline] = useState(false);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    // dev'de HMR ile kavga etmesin
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.warn("[sw] kayıt başarısız", err);
+    });
+
+    function onMessage(e: MessageEvent) {
+      if (e.data?.type === "qrmenu:offline") setOffline(true);
+      if (e.data?.type === "qrmenu:online") setOffline(false);
+    }
+    const goOffline = () => setOffline(true);
+    const goOnline = () => setOffline(false);
+
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    window.addEventListener("offline", goOffline);
+    window.addEventListener("online", goOnline);
+    return () => {
+      navigator.serviceWorker.removeEventListener("message", onMessage);
+      window.removeEventListener("offline", goOffline);
+      window.removeEventListener("online", goOnline);
+    };
+  }, []);
+
+  if (!offline) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-3 left-1/2 -translate-x-1/2 z-[60] px-3 py-1.5 rounded-full
+      bg-stone-800/90 text-white text-xs shadow-lg"
+    >
+      {t("common.offline")}
+    </div>
+  );
+}
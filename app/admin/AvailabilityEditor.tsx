@@ -0,0 +1,96 @@
+"use client";
+
+import { WEEKDAYS, type AvailabilityWindow, type Weekday } from "@/lib/availability";
+import { formatWeekday } from "@/lib/format";
+import { useI18n } from "@/lib/i18n/useI18n";
+
+type Props = {
+  value: AvailabilityWindow[];
+  onChange: (next: AvailabilityWindow[]) => void;
+  /** İpucunda gösterilir; saatler bu dilimde yorumlanır. */
+  timeZone: string;
+  /** Kampanya saatleri gibi başka bağlamlar için başlık ve ipucu. */
+  title?: string;
+  hint?: string;
+};
+
+const NEW_WINDOW: AvailabilityWindow = { days: [...WEEKDAYS], start: "08:00", end: "13:00" };
+
+export default function AvailabilityEditor({ value, onChange, timeZone, title, hint }: Props) {
+  const { locale, t } = useI18n();
+
+  function update(index: number, patch: Partial<AvailabilityWindow>) {
+    onChange(value.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  }
+
+  function toggleDay(index: number, day: Weekday) {
+    const days = value[index].days;
+    // Gün sırası korunsun diye WEEKDAYS üzerinden süzülür
+    update(index, { days: WEEKDAYS.filter((d) => (d === day ? !days.includes(d) : days.includes(d))) });
+  }
+
+  return (
+    <div className="border rounded-2xl p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-600">{title ?? t("availability.title")}</span>
+        <button
+          type="button"
+          onClick={() => onChange([...value, NEW_WINDOW])}
+          className="px-3 py-1 rounded-lg text-xs font-semibold border bg-white hover:bg-gray-50"
+        >
+          {t("availability.add")}
+        </button>
+      </div>
+
+      {value.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {value.map((w, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 border rounded-xl p-2 bg-gray-50">
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(index, day)}
+                    aria-pressed={w.days.includes(day)}
+                    className={`px-2 py-1 rounded-lg text-xs border ${
+                      w.days.includes(day) ? "bg-black text-white border-black" : "bg-white text-gray-600"
+                    }`}
+                  >
+                    {formatWeekday(day, locale)}
+                  </button>
+                ))}
+              </div>
+              <input
+                className="border rounded-xl px-2 py-1 bg-white text-sm"
+                type="time"
+                value={w.start}
+                onChange={(e) => update(index, { start: e.target.value })}
+                aria-label={t("availability.from")}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                className="border rounded-xl px-2 py-1 bg-white text-sm"
+                type="time"
+                value={w.end}
+                onChange={(e) => update(index, { end: e.target.value })}
+                aria-label={t("availability.to")}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="ml-auto text-gray-400 hover:text-red-600 px-1"
+                aria-label={t("availability.remove")}
+                title={t("availability.remove")}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 text-xs text-gray-400">{hint ?? t("availability.hint", { timeZone })}</div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { formatDateTime, formatPercent, formatTRY, toDateInputValue } from "@/lib/format";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { MenuItem } from "@/lib/menuApi";
+import { adjustPrice, ROUNDING_RULES, type AdjustMode, type RoundingRule } from "@/lib/priceAdjust";
+import { searchItems } from "@/lib/search";
+
+type Props = {
+  api: AdminApi;
+  menu: MenuItem[];
+  /** Admin sayfasındaki sırayla kategori adları. */
+  categories: string[];
+  onChanged: () => Promise<void>;
+};
+
+type Scope = "all" | "categories" | "selection";
+
+const SCOPES: Scope[] = ["all", "categories", "selection"];
+
+function toggled<T>(set: Set<T>, value: T) {
+  const next = new Set(set);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+}
+
+export default function BulkPriceSection({ api, menu, categories, onChanged }: Props) {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const [scope, setScope] = useState<Scope>("all");
+  const [pickedCategories, setPickedCategories] = useState<Set<string>>(new Set());
+  const [pickedItems, setPickedItems] = useState<Set<number>>(new Set());
+  const [itemSearch, setItemSearch] = useState("");
+
+  const [mode, setMode] = useState<AdjustMode>("percent");
+  const [value, setValue] = useState<number>(0);
+  const [rounding, setRounding] = useState<RoundingRule>("none");
+
+  // Boşsa hemen uygulanır, doluysa o zaman için plan oluşturulur
+  const [scheduled, setScheduled] = useState(false);
+  const [effectiveDate, setEffectiveDate] = useState("");
+
+  const inScope = useMemo(() => {
+    if (scope === "categories") return menu.filter((x) => pickedCategories.has(x.category.trim()));
+    if (scope === "selection") return menu.filter((x) => pickedItems.has(x.id));
+    return menu;
+  }, [menu, scope, pickedCategories, pickedItems]);
+
+  // Yuvarlama sonrası fiyatı değişmeyen ürünler gönderilmez
+  const preview = useMemo(() => {
+    if (!Number.isFinite(value)) return [];
+    return inScope
+      .map((item) => ({ item, after: adjustPrice(item.price, { mode, value }, rounding) }))
+      .filter((row) => row.after !== row.item.price)
+      .sort(
+        (a, b) =>
+          a.item.category.localeCompare(b.item.category, "tr") || a.item.name.localeCompare(b.item.name, "tr")
+      );
+  }, [inScope, mode, value, rounding]);
+
+  const totals = useMemo(() => {
+    const before = preview.reduce((sum, r) => sum + r.item.price, 0);
+    const after = preview.reduce((sum, r) => sum + r.after, 0);
+    return { before, after, percent: before > 0 ? ((after - before) / before) * 100 : 0 };
+  }, [preview]);
+
+  const searchable = useMemo(() => {
+    const sorted = [...menu].sort((a, b) => a.name.localeCompare(b.name, "tr"));
+    return searchItems(sorted, itemSearch, (x) => ({ name: x.name, categories: [x.category] }));
+  }, [menu, itemSearch]);
+
+  async function apply() {
+    if (preview.length === 0) return;
+    if (scheduled) return schedule();
+    if (!confirm(t("bulkPrice.confirm", { count: preview.length }))) return;
+
+    setBusy(true);
+    try {
+      const result = await api.menu.setPrices(preview.map((r) => ({ id: r.item.id, price: r.after })));
+      const failed = result.failed.map((f) => `• ${f.name}: ${f.message}`).join("\n");
+      alert([t("bulkPrice.applied", { count: result.updated }), failed].filter(Boolean).join("\n\n"));
+      setValue(0);
+      await onChanged();
+    } catch (err) {
+      alert(`${t("bulkPrice.failed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function schedule() {
+    if (!effectiveDate || effectiveDate <= toDateInputValue(new Date())) return alert(t("prices.effectiveAtPast"));
+    const date = formatDateTime(`${effectiveDate}T00:00`, locale);
+    if (!confirm(t("bulkPrice.confirmSchedule", { count: preview.length, date }))) return;
+
+    setBusy(true);
+    try {
+      await api.priceSchedules.create(
+        effectiveDate,
+        preview.map((r) => ({ id: r.item.id, price: r.after }))
+      );
+      alert(t("bulkPrice.scheduled", { count: preview.length, date }));
+      setValue(0);
+    } catch (err) {
+      alert(`${t("prices.scheduleFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-bold text-lg">{t("bulkPrice.title")}</h2>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 text-sm"
+        >
+          {open ? t("bulkPrice.close") : t("bulkPrice.open")}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {/* Kapsam */}
+          <div>
+            <div className="text-sm text-gray-600">{t("bulkPrice.scope")}</div>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {SCOPES.map((s) => (
+                <label key={s} className="flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-xl border">
+                  <input type="radio" name="bulk-scope" checked={scope === s} onChange={() => setScope(s)} />
+                  {t(`bulkPrice.scope.${s}`)}
+                </label>
+              ))}
+            </div>
+
+            {scope === "categories" && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {categories.map((c) => (
+                  <label key={c} className="flex items-center gap-1.5 text-sm px-2 py-1 rounded-lg border">
+                    <input
+                      type="checkbox"
+                      checked={pickedCategories.has(c)}
+                      onChange={() => setPickedCategories(toggled(pickedCategories, c))}
+                    />
+                    {c}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {scope === "selection" && (
+              <div className="mt-3 border rounded-xl p-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    className="flex-1 border rounded-xl px-3 py-1.5 text-sm"
+                    value={itemSearch}
+                    onChange={(e) => setItemSearch(e.target.value)}
+                    placeholder={t("admin.filter.searchPlaceholder")}
+                  />
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {t("bulkPrice.selectedCount", { count: pickedItems.size })}
+                  </span>
+                </div>
+                <div className="mt-2 max-h-56 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-1">
+                  {searchable.map((item) => (
+                    <label key={item.id} className="flex items-center gap-2 text-sm px-2 py-1 rounded-lg hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={pickedItems.has(item.id)}
+                        onChange={() => setPickedItems(toggled(pickedItems, item.id))}
+                      />
+                      <span className="truncate flex-1">{item.name}</span>
+                      <span className="text-xs text-gray-500">{formatTRY(item.price, locale)}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Değişiklik ve yuvarlama */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="text-sm text-gray-600">{t("bulkPrice.adjustment")}</label>
+              <div className="flex mt-1">
+                <input
+                  className="w-full border rounded-l-xl px-3 py-2"
+                  type="number"
+                  step="any"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value === "" ? 0 : Number(e.target.value))}
+                />
+                <select
+                  className="border border-l-0 rounded-r-xl px-3 py-2 bg-white"
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as AdjustMode)}
+                >
+                  <option value="percent">%</option>
+                  <option value="amount">₺</option>
+                </select>
+              </div>
+              <div className="text-xs text-gray-400 mt-1">{t("bulkPrice.adjustmentHint")}</div>
+            </div>
+
+            <div>
+              <label className="text-sm text-gray-600">{t("bulkPrice.rounding")}</label>
+              <select
+                className="w-full border rounded-xl px-3 py-2 mt-1 bg-white"
+                value={rounding}
+                onChange={(e) => setRounding(e.target.value as RoundingRule)}
+              >
+                {ROUNDING_RULES.map((rule) => (
+                  <option key={rule} value={rule}>
+                    {t(`bulkPrice.rounding.${rule}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="text-sm text-gray-600 md:pt-6">
+              {t("bulkPrice.summary", { count: preview.length })}
+              {preview.length > 0 && (
+                <div className="font-semibold text-gray-900">{formatPercent(totals.percent, locale)}</div>
+              )}
+            </div>
+          </div>
+
+          {/* Önizleme */}
+          {preview.length === 0 ? (
+            <div className="text-sm text-gray-500">{t("bulkPrice.noChanges")}</div>
+          ) : (
+            <div className="max-h-[50vh] overflow-auto border rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="p-2">{t("admin.field.name")}</th>
+                    <th className="p-2">{t("admin.field.category")}</th>
+                    <th className="p-2 text-right">{t("bulkPrice.before")}</th>
+                    <th className="p-2 text-right">{t("bulkPrice.after")}</th>
+                    <th className="p-2 text-right">{t("bulkPrice.difference")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(({ item, after }) => (
+                    <tr key={item.id} className="border-t">
+                      <td className="p-2 font-semibold">{item.name}</td>
+                      <td className="p-2 text-gray-500">{item.category}</td>
+                      <td className="p-2 text-right text-gray-400 line-through">{formatTRY(item.price, locale)}</td>
+                      <td className="p-2 text-right font-semibold">{formatTRY(after, locale)}</td>
+                      <td
+                        className={`p-2 text-right ${after > item.price ? "text-green-700" : "text-red-600"}`}
+                      >
+                        {after > item.price ? "+" : ""}
+                        {formatTRY(after - item.price, locale)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            <label className="flex items-center gap-1.5 text-sm">
+              <input type="radio" name="bulk-when" checked={!scheduled} onChange={() => setScheduled(false)} />
+              {t("prices.when.now")}
+            </label>
+            <label className="flex items-center gap-1.5 text-sm">
+              <input
+                type="radio"
+                name="bulk-when"
+                checked={scheduled}
+                onChange={() => {
+                  setScheduled(true);
+                  if (!effectiveDate) setEffectiveDate(toDateInputValue(new Date(Date.now() + 86_400_000)));
+                }}
+              />
+              {t("prices.when.later")}
+            </label>
+            {scheduled && (
+              <input
+                className="border rounded-xl px-3 py-1.5 text-sm"
+                type="date"
+                aria-label={t("prices.effectiveAt")}
+                title={t("prices.effectiveAtHint")}
+                min={toDateInputValue(new Date(Date.now() + 86_400_000))}
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+            )}
+            <button
+              type="button"
+              onClick={apply}
+              disabled={busy || preview.length === 0}
+              className="bg-black text-white rounded-xl px-5 py-2 font-semibold disabled:opacity-50"
+            >
+              {busy
+                ? t("admin.saving")
+                : t(scheduled ? "bulkPrice.schedule" : "bulkPrice.apply", { count: preview.length })}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
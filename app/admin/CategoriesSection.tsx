@@ -0,0 +1,366 @@
+"use client";
+
+import { useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { describeAvailability, type AvailabilityWindow } from "@/lib/availability";
+import { fallbackCategories, type Category, type CategoryInput } from "@/lib/categoriesApi";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { ItemTranslations, MenuItem } from "@/lib/menuApi";
+import { validateAvailability } from "@/lib/menuValidation";
+import { venueTimeZone, type Venue } from "@/lib/venues";
+import AvailabilityEditor from "./AvailabilityEditor";
+import TranslationTabs from "./TranslationTabs";
+import { useDragOrder } from "./useDragOrder";
+
+type Props = {
+  api: AdminApi;
+  venue: Venue;
+  categories: Category[];
+  items: MenuItem[];
+  /** Her yazmadan sonra sayfa kategorileri ve ürünleri yeniden çeker. */
+  onChanged: () => Promise<void>;
+};
+
+type Draft = {
+  name: string;
+  icon: string;
+  description: string;
+  isActive: boolean;
+  availability: AvailabilityWindow[];
+  translations: ItemTranslations;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  icon: "",
+  description: "",
+  isActive: true,
+  availability: [],
+  translations: {},
+};
+
+function toInput(d: Draft): CategoryInput {
+  return {
+    name: d.name,
+    icon: d.icon,
+    description: d.description,
+    isActive: d.isActive,
+    availability: d.availability,
+    translations: d.translations,
+  };
+}
+
+export default function CategoriesSection({ api, venue, categories, items, onChanged }: Props) {
+  const { locale, t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [newDraft, setNewDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  const countByName = new Map<string, number>();
+  for (const item of items) {
+    const name = item.category.trim();
+    countByName.set(name, (countByName.get(name) ?? 0) + 1);
+  }
+
+  async function run(action: () => Promise<void>, failMessage: string) {
+    setBusy(true);
+    try {
+      await action();
+      await onChanged();
+    } catch (err) {
+      alert(`${failMessage}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const { items: list, dragId, rowProps, moveBy } = useDragOrder(categories, (next) =>
+    run(() => api.categories.reorder(next.map((c) => c.id)), t("categories.reorderFailed"))
+  );
+
+  // Ad zorunlu; servis saatleri ürün formundaki kurallarla
+  function invalid(draft: Draft) {
+    if (!draft.name.trim()) return t("admin.validation.categoryRequired");
+    return validateAvailability(t, draft.availability);
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    const err = invalid(newDraft);
+    if (err) return alert(err);
+    await run(async () => {
+      await api.categories.create(toInput(newDraft));
+      setNewDraft(EMPTY_DRAFT);
+    }, t("categories.saveFailed"));
+  }
+
+  function startEdit(category: Category) {
+    setEditingId(category.id);
+    setEditDraft({
+      name: category.name,
+      icon: category.icon ?? "",
+      description: category.description ?? "",
+      isActive: category.isActive,
+      availability: category.availability ?? [],
+      translations: category.translations ?? {},
+    });
+  }
+
+  async function saveEdit() {
+    if (editingId === null) return;
+    const err = invalid(editDraft);
+    if (err) return alert(err);
+    await run(async () => {
+      await api.categories.update(editingId, toInput(editDraft));
+      setEditingId(null);
+    }, t("categories.saveFailed"));
+  }
+
+  async function toggleActive(category: Category) {
+    await run(
+      () =>
+        api.categories.update(category.id, {
+          name: category.name,
+          icon: category.icon,
+          description: category.description,
+          isActive: !category.isActive,
+          availability: category.availability,
+          translations: category.translations,
+        }),
+      t("categories.saveFailed")
+    );
+  }
+
+  async function remove(category: Category) {
+    if (!confirm(t("categories.confirmDelete", { name: category.name }))) return;
+    await run(() => api.categories.delete(category.id), t("categories.deleteFailed"));
+  }
+
+  // İlk kurulum: ayarlardaki sıra + ürünlerde geçen diğer adlar kayda dönüştürülür
+  async function seed() {
+    const seeded = fallbackCategories(venue);
+    const known = new Set(seeded.map((c) => c.name));
+    const extras = Array.from(countByName.keys())
+      .filter((name) => name && !known.has(name))
+      .sort((a, b) => a.localeCompare(b, "tr"));
+
+    await run(async () => {
+      for (const c of seeded) {
+        await api.categories.create({
+          name: c.name,
+          icon: null,
+          description: null,
+          isActive: true,
+          translations: c.translations,
+        });
+      }
+      for (const name of extras) {
+        await api.categories.create({ name, icon: null, description: null, isActive: true });
+      }
+    }, t("categories.saveFailed"));
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-bold text-lg">{t("categories.title")}</h2>
+        <span className="text-xs text-gray-500">{busy ? t("admin.saving") : t("categories.dragHint")}</span>
+      </div>
+
+      {list.length === 0 ? (
+        <div className="border rounded-2xl p-4 text-sm text-gray-600 flex items-center justify-between gap-3">
+          <span>{t("categories.empty")}</span>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={seed}
+            className="shrink-0 px-3 py-1.5 rounded-xl bg-black text-white text-sm disabled:opacity-50"
+          >
+            {t("categories.seed")}
+          </button>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {list.map((category, index) => (
+            <li
+              key={category.id}
+              {...rowProps(category.id, !busy && editingId === null)}
+              className={`border rounded-2xl p-3 ${category.isActive ? "bg-white" : "bg-gray-50"} ${
+                dragId === category.id ? "opacity-50" : ""
+              }`}
+            >
+              {editingId === category.id ? (
+                <div className="space-y-3">
+                  <CategoryFields draft={editDraft} onChange={setEditDraft} />
+                  <AvailabilityEditor
+                    value={editDraft.availability}
+                    onChange={(availability) => setEditDraft({ ...editDraft, availability })}
+                    timeZone={venueTimeZone(venue)}
+                  />
+                  <TranslationTabs
+                    value={editDraft.translations}
+                    onChange={(translations) => setEditDraft({ ...editDraft, translations })}
+                    baseName={editDraft.name}
+                    baseDescription={editDraft.description}
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-500">{t("categories.renameHint")}</span>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 text-sm"
+                      >
+                        {t("common.cancel")}
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={saveEdit}
+                        className="px-3 py-1.5 rounded-xl bg-black text-white text-sm font-semibold disabled:opacity-50"
+                      >
+                        {t("common.save")}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <span className="cursor-grab text-gray-400 select-none" aria-hidden>
+                    ⠿
+                  </span>
+                  <span className="w-8 text-center text-xl">{category.icon || "•"}</span>
+                  <div className="min-w-0 flex-1">
+                    <div className="font-semibold truncate">
+                      {category.name}
+                      <span className="ml-2 text-xs text-gray-500 font-normal">
+                        {t("common.itemCount", { count: countByName.get(category.name) ?? 0 })}
+                      </span>
+                    </div>
+                    {category.description && (
+                      <div className="text-xs text-gray-500 truncate">{category.description}</div>
+                    )}
+                    {category.availability?.length ? (
+                      <div className="text-xs text-gray-500 truncate">
+                        ⏰ {describeAvailability(category.availability, locale)}
+                      </div>
+                    ) : null}
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      disabled={busy || index === 0}
+                      onClick={() => moveBy(index, -1)}
+                      className="w-8 h-8 rounded-lg border hover:bg-gray-50 disabled:opacity-30"
+                      aria-label={t("categories.moveUp")}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy || index === list.length - 1}
+                      onClick={() => moveBy(index, 1)}
+                      className="w-8 h-8 rounded-lg border hover:bg-gray-50 disabled:opacity-30"
+                      aria-label={t("categories.moveDown")}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => toggleActive(category)}
+                      className={`px-2 py-1 rounded-lg text-xs border ${
+                        category.isActive
+                          ? "bg-green-50 text-green-700 border-green-200"
+                          : "bg-gray-50 text-gray-600 border-gray-200"
+                      }`}
+                      title={t("admin.toggleTitle")}
+                    >
+                      {category.isActive ? t("admin.stats.active") : t("admin.stats.passive")}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startEdit(category)}
+                      className="px-2 py-1 rounded-lg text-xs border hover:bg-gray-50"
+                    >
+                      {t("common.edit")}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => remove(category)}
+                      className="px-2 py-1 rounded-lg text-xs border border-red-200 text-red-600 hover:bg-red-50"
+                    >
+                      {t("common.delete")}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={create} className="mt-4 border-t pt-4 space-y-3">
+        <CategoryFields draft={newDraft} onChange={setNewDraft} />
+        <AvailabilityEditor
+          value={newDraft.availability}
+          onChange={(availability) => setNewDraft({ ...newDraft, availability })}
+          timeZone={venueTimeZone(venue)}
+        />
+        <div className="flex justify-end">
+          <button disabled={busy} className="bg-black text-white rounded-xl px-5 py-2 font-semibold disabled:opacity-50">
+            {t("categories.add")}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function CategoryFields({ draft, onChange }: { draft: Draft; onChange: (next: Draft) => void }) {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[5rem_1fr_2fr_auto] gap-3 items-end">
+      <div>
+        <label className="text-sm text-gray-600">{t("categories.field.icon")}</label>
+        <input
+          className="w-full border rounded-xl px-3 py-2 mt-1 text-center"
+          value={draft.icon}
+          onChange={(e) => onChange({ ...draft, icon: e.target.value })}
+          placeholder="🍔"
+          maxLength={8}
+        />
+      </div>
+      <div>
+        <label className="text-sm text-gray-600">{t("categories.field.name")}</label>
+        <input
+          className="w-full border rounded-xl px-3 py-2 mt-1"
+          value={draft.name}
+          onChange={(e) => onChange({ ...draft, name: e.target.value })}
+          placeholder={t("admin.field.categoryPlaceholder")}
+        />
+      </div>
+      <div>
+        <label className="text-sm text-gray-600">{t("categories.field.description")}</label>
+        <input
+          className="w-full border rounded-xl px-3 py-2 mt-1"
+          value={draft.description}
+          onChange={(e) => onChange({ ...draft, description: e.target.value })}
+        />
+      </div>
+      <label className="flex items-center gap-2 text-sm pb-2">
+        <input
+          type="checkbox"
+          checked={draft.isActive}
+          onChange={(e) => onChange({ ...draft, isActive: e.target.checked })}
+        />
+        {t("admin.field.available")}
+      </label>
+    </div>
+  );
+}
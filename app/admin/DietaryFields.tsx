@@ -0,0 +1,64 @@
+"use client";
+
+import {
+  ALLERGEN_ICONS,
+  ALLERGENS,
+  DIETARY_ICONS,
+  DIETARY_TAGS,
+  type Allergen,
+  type DietaryTag,
+} from "@/lib/dietary";
+import { useI18n } from "@/lib/i18n/useI18n";
+
+type Props = {
+  allergens: Allergen[];
+  tags: DietaryTag[];
+  onAllergensChange: (next: Allergen[]) => void;
+  onTagsChange: (next: DietaryTag[]) => void;
+};
+
+// Seçim sırası önemsiz; kaydederken sabit listedeki sıraya dizilir.
+function toggle<T extends string>(list: T[], code: T, known: readonly T[]) {
+  const next = list.includes(code) ? list.filter((c) => c !== code) : [...list, code];
+  return known.filter((c) => next.includes(c));
+}
+
+export default function DietaryFields({ allergens, tags, onAllergensChange, onTagsChange }: Props) {
+  const { t } = useI18n();
+
+  return (
+    <div className="border rounded-2xl p-3 space-y-3">
+      <div>
+        <div className="text-sm text-gray-600">{t("admin.field.tags")}</div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {DIETARY_TAGS.map((tag) => (
+            <label key={tag} className="flex items-center gap-1.5 text-sm px-2 py-1 rounded-lg border">
+              <input
+                type="checkbox"
+                checked={tags.includes(tag)}
+                onChange={() => onTagsChange(toggle(tags, tag, DIETARY_TAGS))}
+              />
+              {DIETARY_ICONS[tag]} {t(`dietary.${tag}`)}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm text-gray-600">{t("admin.field.allergens")}</div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {ALLERGENS.map((code) => (
+            <label key={code} className="flex items-center gap-1.5 text-sm px-2 py-1 rounded-lg border">
+              <input
+                type="checkbox"
+                checked={allergens.includes(code)}
+                onChange={() => onAllergensChange(toggle(allergens, code, ALLERGENS))}
+              />
+              {ALLERGEN_ICONS[code]} {t(`allergen.${code}`)}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { ACCEPTED_IMAGE_TYPES, MAX_IMAGE_BYTES } from "@/lib/menuImages";
+
+type Props = {
+  api: AdminApi;
+  /** Ürünün imageUrl'i; yüklenen fotoğrafın kart boyu ya da elle girilen URL. */
+  value: string;
+  onChange: (url: string) => void;
+  label: string;
+};
+
+const MAX_MB = MAX_IMAGE_BYTES / 1024 / 1024;
+
+/** Sürükle-bırak ya da dosya seçerek yükleme; eski usul URL girişi de duruyor. */
+export default function ImageUploadField({ api, value, onChange, label }: Props) {
+  const { t } = useI18n();
+  const input = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [broken, setBroken] = useState<string | null>(null);
+
+  async function upload(file: File | undefined) {
+    if (!file) return;
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) return alert(t("images.badType"));
+    if (file.size > MAX_IMAGE_BYTES) return alert(t("images.tooLarge", { size: MAX_MB }));
+
+    setUploading(true);
+    try {
+      onChange((await api.images.upload(file)).imageUrl);
+    } catch (err) {
+      alert(`${t("images.uploadFailed")}\n${errorText(err)}`);
+    } finally {
+      setUploading(false);
+      if (input.current) input.current.value = "";
+    }
+  }
+
+  const url = value.trim();
+
+  return (
+    <div>
+      <label className="text-sm text-gray-600">{label}</label>
+      <div className="mt-1 flex gap-3 items-stretch">
+        <button
+          type="button"
+          disabled={uploading}
+          onClick={() => input.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            upload(e.dataTransfer.files[0]);
+          }}
+          className={`flex-1 min-h-28 rounded-2xl border-2 border-dashed px-3 py-4 text-sm text-center transition disabled:opacity-60 ${
+            dragging ? "border-black bg-gray-100" : "border-gray-300 bg-gray-50 hover:bg-gray-100"
+          }`}
+        >
+          {uploading ? (
+            t("images.uploading")
+          ) : (
+            <>
+              <div className="font-semibold text-gray-700">{t("images.drop")}</div>
+              <div className="mt-1 text-xs text-gray-500">{t("images.formats", { size: MAX_MB })}</div>
+            </>
+          )}
+        </button>
+
+        {url && broken !== url && (
+          <div className="relative w-36 shrink-0">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={url}
+              alt={t("images.preview")}
+              className="w-full h-full max-h-28 object-cover rounded-2xl border"
+              onError={() => setBroken(url)}
+            />
+            <button
+              type="button"
+              onClick={() => onChange("")}
+              className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/70 text-white text-xs"
+              aria-label={t("images.remove")}
+              title={t("images.remove")}
+            >
+              ✕
+            </button>
+          </div>
+        )}
+      </div>
+
+      <input
+        ref={input}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+        className="hidden"
+        onChange={(e) => upload(e.target.files?.[0])}
+      />
+
+      <input
+        className="w-full border rounded-xl px-3 py-2 mt-2 text-sm"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={t("admin.field.imageUrlPlaceholder")}
+        aria-label={t("admin.field.imageUrl")}
+      />
+      {url && broken === url && <div className="mt-1 text-xs text-red-600">{t("admin.imageHint")}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { formatTRY } from "@/lib/format";
+import { errorText } from "@/lib/http";
+import type { MessageKey } from "@/lib/i18n/translate";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { MenuItem } from "@/lib/menuApi";
+import {
+  menuToCsv,
+  menuToXlsx,
+  previewImport,
+  readSheetFile,
+  type ImportFields,
+  type ImportRow,
+  type ImportStatus,
+} from "@/lib/menuSpreadsheet";
+import type { Venue } from "@/lib/venues";
+
+type Props = {
+  api: AdminApi;
+  venue: Venue;
+  menu: MenuItem[];
+  canCreate: boolean;
+  canEdit: boolean;
+  onChanged: () => Promise<void>;
+};
+
+const COLUMN_LABELS: Record<keyof ImportFields, MessageKey> = {
+  name: "admin.field.name",
+  category: "admin.field.category",
+  price: "admin.field.price",
+  isAvailable: "admin.field.available",
+  imageUrl: "admin.field.imageUrl",
+  description: "admin.field.description",
+};
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: "bg-blue-50 text-blue-700 border-blue-200",
+  changed: "bg-amber-50 text-amber-700 border-amber-200",
+  unchanged: "bg-gray-50 text-gray-500 border-gray-200",
+  invalid: "bg-red-50 text-red-700 border-red-200",
+};
+
+const STATUSES: ImportStatus[] = ["new", "changed", "unchanged", "invalid"];
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default function MenuTransferSection({ api, venue, menu, canCreate, canEdit, onChanged }: Props) {
+  const { locale, t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const applicable = (row: ImportRow) =>
+    (row.status === "new" && canCreate) || (row.status === "changed" && canEdit);
+
+  const filename = (ext: string) => `${venue.slug}-menu-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+  function exportCsv() {
+    saveBlob(new Blob([menuToCsv(menu)], { type: "text/csv;charset=utf-8" }), filename("csv"));
+  }
+
+  async function exportXlsx() {
+    setBusy(true);
+    try {
+      saveBlob(await menuToXlsx(menu), filename("xlsx"));
+    } catch (err) {
+      alert(`${t("transfer.exportFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function pickFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    // Aynı dosya düzeltilip yeniden seçilebilsin
+    e.target.value = "";
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const preview = previewImport(await readSheetFile(file), menu, t);
+      if (!preview.ok) return alert(preview.error);
+      setFileName(file.name);
+      setRows(preview.rows);
+      setSelected(new Set(preview.rows.filter(applicable).map((r) => r.line)));
+    } catch (err) {
+      alert(`${t("transfer.readFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggle(line: number) {
+    const next = new Set(selected);
+    if (next.has(line)) next.delete(line);
+    else next.add(line);
+    setSelected(next);
+  }
+
+  async function apply() {
+    if (!rows) return;
+    const chosen = rows.filter((r) => selected.has(r.line) && applicable(r));
+    if (chosen.length === 0) return;
+
+    setBusy(true);
+    try {
+      const result = await api.menu.import({
+        create: chosen.filter((r) => r.status === "new").map((r) => r.fields!),
+        update: chosen.filter((r) => r.status === "changed").map((r) => ({ id: r.id!, fields: r.fields! })),
+      });
+      const failed = result.failed.map((f) => `• ${f.name}: ${f.message}`).join("\n");
+      alert(
+        [t("transfer.applied", { created: result.created, updated: result.updated }), failed]
+          .filter(Boolean)
+          .join("\n\n")
+      );
+      setRows(null);
+      await onChanged();
+    } catch (err) {
+      alert(`${t("transfer.applyFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function display(column: keyof ImportFields, value: ImportFields[keyof ImportFields] | undefined) {
+    if (column === "price") return formatTRY(Number(value), locale);
+    if (column === "isAvailable") return value ? t("admin.stats.active") : t("admin.stats.passive");
+    return value ? String(value) : "—";
+  }
+
+  const counts = Object.fromEntries(
+    STATUSES.map((s) => [s, rows?.filter((r) => r.status === s).length ?? 0])
+  ) as Record<ImportStatus, number>;
+  const shown = rows?.filter((r) => showUnchanged || r.status !== "unchanged") ?? [];
+  const selectable = shown.filter(applicable);
+  const selectedCount = rows?.filter((r) => selected.has(r.line) && applicable(r)).length ?? 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="font-bold text-lg">{t("transfer.title")}</h2>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button
+            type="button"
+            onClick={exportCsv}
+            disabled={busy || menu.length === 0}
+            className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 disabled:opacity-50"
+          >
+            {t("transfer.exportCsv")}
+          </button>
+          <button
+            type="button"
+            onClick={exportXlsx}
+            disabled={busy || menu.length === 0}
+            className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 disabled:opacity-50"
+          >
+            {t("transfer.exportXlsx")}
+          </button>
+          {(canCreate || canEdit) && (
+            <label
+              className={`px-3 py-1.5 rounded-xl bg-black text-white font-semibold cursor-pointer ${
+                busy ? "opacity-50 pointer-events-none" : ""
+              }`}
+            >
+              {t("transfer.import")}
+              <input type="file" accept=".csv,.xlsx,text/csv" className="hidden" onChange={pickFile} />
+            </label>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">{t("transfer.hint")}</p>
+
+      {rows && (
+        <div className="mt-4 border-t pt-4">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-semibold text-sm mr-1">{fileName}</span>
+            {STATUSES.map((s) => (
+              <span key={s} className={`px-2 py-0.5 rounded-full border ${STATUS_STYLES[s]}`}>
+                {t(`transfer.status.${s}`)}: {counts[s]}
+              </span>
+            ))}
+            <label className="ml-auto flex items-center gap-1.5 text-gray-600">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              {t("transfer.showUnchanged")}
+            </label>
+          </div>
+
+          {shown.length === 0 ? (
+            <div className="text-sm text-gray-500 mt-3">{t("transfer.nothingToApply")}</div>
+          ) : (
+            <div className="mt-3 max-h-[60vh] overflow-auto border rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="p-2 w-8">
+                      <input
+                        type="checkbox"
+                        aria-label={t("transfer.selectAll")}
+                        disabled={selectable.length === 0}
+                        checked={selectable.length > 0 && selectable.every((r) => selected.has(r.line))}
+                        onChange={(e) => {
+                          const next = new Set(selected);
+                          for (const r of selectable) {
+                            if (e.target.checked) next.add(r.line);
+                            else next.delete(r.line);
+                          }
+                          setSelected(next);
+                        }}
+                      />
+                    </th>
+                    <th className="p-2">{t("transfer.line")}</th>
+                    <th className="p-2">{t("admin.field.name")}</th>
+                    <th className="p-2">{t("transfer.details")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((row) => (
+                    <tr key={row.line} className="border-t align-top">
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          disabled={!applicable(row)}
+                          checked={applicable(row) && selected.has(row.line)}
+                          onChange={() => toggle(row.line)}
+                        />
+                      </td>
+                      <td className="p-2 text-gray-500 whitespace-nowrap">
+                        {row.line}
+                        <span className={`ml-2 px-2 py-0.5 rounded-full border text-xs ${STATUS_STYLES[row.status]}`}>
+                          {t(`transfer.status.${row.status}`)}
+                        </span>
+                      </td>
+                      <td className="p-2 font-semibold">
+                        {row.fields?.name || row.before?.name || "—"}
+                        {row.id !== null && <span className="ml-1 text-xs text-gray-400 font-normal">#{row.id}</span>}
+                      </td>
+                      <td className="p-2 text-xs">
+                        {row.status === "invalid" ? (
+                          <span className="text-red-600">{row.error}</span>
+                        ) : row.status === "new" && row.fields ? (
+                          <span className="text-gray-600">
+                            {row.fields.category} • {display("price", row.fields.price)} •{" "}
+                            {display("isAvailable", row.fields.isAvailable)}
+                          </span>
+                        ) : row.status === "changed" && row.fields && row.before ? (
+                          <ul className="space-y-0.5">
+                            {row.changed.map((col) => (
+                              <li key={col}>
+                                <span className="text-gray-500">{t(COLUMN_LABELS[col])}: </span>
+                                <span className="line-through text-gray-400">{display(col, row.before![col])}</span>{" "}
+                                → <span className="font-semibold">{display(col, row.fields![col])}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-400">{t("transfer.status.unchanged")}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setRows(null)}
+              className="px-4 py-2 rounded-xl border hover:bg-gray-50 text-sm"
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              type="button"
+              onClick={apply}
+              disabled={busy || selectedCount === 0}
+              className="px-4 py-2 rounded-xl bg-black text-white text-sm font-semibold disabled:opacity-50"
+            >
+              {busy ? t("admin.saving") : t("transfer.apply", { count: selectedCount })}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
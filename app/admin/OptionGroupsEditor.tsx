@@ -0,0 +1,131 @@
+"use client";
+
+import { useI18n } from "@/lib/i18n/useI18n";
+import {
+  newOptionId,
+  type ItemOption,
+  type OptionGroup,
+  type OptionGroupKind,
+} from "@/lib/itemOptions";
+
+type Props = {
+  value: OptionGroup[];
+  onChange: (next: OptionGroup[]) => void;
+};
+
+function emptyOption(): ItemOption {
+  return { id: newOptionId(), name: "", priceDelta: 0 };
+}
+
+export default function OptionGroupsEditor({ value, onChange }: Props) {
+  const { t } = useI18n();
+
+  function updateGroup(id: string, patch: Partial<OptionGroup>) {
+    onChange(value.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+  }
+
+  function updateOption(group: OptionGroup, optionId: string, patch: Partial<ItemOption>) {
+    updateGroup(group.id, {
+      options: group.options.map((o) => (o.id === optionId ? { ...o, ...patch } : o)),
+    });
+  }
+
+  function addGroup() {
+    onChange([...value, { id: newOptionId(), name: "", kind: "single", options: [emptyOption()] }]);
+  }
+
+  return (
+    <div className="border rounded-2xl p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-600">{t("options.title")}</span>
+        <button
+          type="button"
+          onClick={addGroup}
+          className="px-3 py-1 rounded-lg text-xs font-semibold border bg-white hover:bg-gray-50"
+        >
+          {t("options.addGroup")}
+        </button>
+      </div>
+
+      <div className="mt-3 space-y-3">
+        {value.map((group) => (
+          <div key={group.id} className="border rounded-xl p-3 bg-gray-50">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-2 items-end">
+              <div>
+                <label className="text-xs text-gray-500">{t("options.groupName")}</label>
+                <input
+                  className="w-full border rounded-xl px-3 py-2 mt-1 bg-white"
+                  value={group.name}
+                  onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+                  placeholder={t("options.groupNamePlaceholder")}
+                />
+              </div>
+              <select
+                className="border rounded-xl px-3 py-2 bg-white text-sm"
+                value={group.kind}
+                onChange={(e) => updateGroup(group.id, { kind: e.target.value as OptionGroupKind })}
+              >
+                <option value="single">{t("options.kind.single")}</option>
+                <option value="multi">{t("options.kind.multi")}</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((g) => g.id !== group.id))}
+                className="px-3 py-2 rounded-xl border border-red-200 text-red-600 hover:bg-red-50 text-sm"
+              >
+                {t("options.removeGroup")}
+              </button>
+            </div>
+
+            <div className="mt-2 space-y-2">
+              {group.options.map((option) => (
+                <div key={option.id} className="flex items-center gap-2">
+                  <input
+                    className="flex-1 min-w-0 border rounded-xl px-3 py-1.5 bg-white text-sm"
+                    value={option.name}
+                    onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                    placeholder={t("options.optionNamePlaceholder")}
+                    aria-label={t("options.optionName")}
+                  />
+                  <input
+                    className="w-28 border rounded-xl px-3 py-1.5 bg-white text-sm"
+                    type="number"
+                    step="any"
+                    value={option.priceDelta}
+                    onChange={(e) =>
+                      updateOption(group, option.id, {
+                        priceDelta: e.target.value === "" ? 0 : Number(e.target.value),
+                      })
+                    }
+                    aria-label={t("options.priceDelta")}
+                    title={t("options.priceDelta")}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateGroup(group.id, { options: group.options.filter((o) => o.id !== option.id) })
+                    }
+                    className="text-gray-400 hover:text-red-600 px-1"
+                    aria-label={t("options.removeOption")}
+                    title={t("options.removeOption")}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateGroup(group.id, { options: [...group.options, emptyOption()] })}
+                className="text-xs underline text-gray-600"
+              >
+                {t("options.addOption")}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 text-xs text-gray-400">{t("options.hint")}</div>
+    </div>
+  );
+}
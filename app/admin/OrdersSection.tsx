@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatClock, formatTRY } from "@/lib/format";
+import type { AdminApi } from "@/lib/adminApi";
+import { redirectToLogin } from "@/lib/auth/client";
+import { ApiError, errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { nextOrderStatus, type Order, type OrderStatus } from "@/lib/ordersApi";
+
+const POLL_MS = 15_000;
+const SERVED_VISIBLE = 10;
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  new: "bg-amber-50 text-amber-700 border-amber-200",
+  preparing: "bg-blue-50 text-blue-700 border-blue-200",
+  served: "bg-gray-50 text-gray-600 border-gray-200",
+};
+
+export default function OrdersSection({ api }: { api: AdminApi }) {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const { locale, t } = useI18n();
+
+  const load = useCallback(async () => {
+    try {
+      setOrders(await api.orders.list());
+      setError(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) return redirectToLogin("expired");
+      setError(errorText(err));
+    }
+  }, [api]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  async function advance(order: Order) {
+    const next = nextOrderStatus(order.status);
+    if (!next) return;
+
+    setBusyId(order.id);
+    try {
+      await api.orders.setStatus(order.id, next);
+      setOrders((prev) => prev.map((o) => (o.id === order.id ? { ...o, status: next } : o)));
+    } catch (err) {
+      alert(`${t("orders.statusFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const { open, served } = useMemo(() => {
+    const byTime = [...orders].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return {
+      open: byTime.filter((o) => o.status !== "served"),
+      served: byTime.filter((o) => o.status === "served").reverse().slice(0, SERVED_VISIBLE),
+    };
+  }, [orders]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-bold text-lg">{t("orders.title")}</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500">{t("orders.openCount", { count: open.length })}</span>
+          <button
+            type="button"
+            onClick={() => load()}
+            className="px-3 py-1.5 rounded-xl border bg-white hover:bg-gray-50 text-sm"
+          >
+            {t("common.refresh")}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 text-xs text-red-600 whitespace-pre-line">
+          {t("orders.loadFailed")} {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {[...open, ...served].map((order) => {
+          const next = nextOrderStatus(order.status);
+          return (
+            <div key={order.id} className="border rounded-2xl p-4">
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-bold">
+                  {t("common.table", { table: order.table })}
+                  <span className="ml-2 text-xs text-gray-500 font-normal">
+                    #{order.id} • {formatClock(order.createdAt, locale)}
+                  </span>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs border ${STATUS_STYLES[order.status]}`}>
+                  {t(`orderStatus.${order.status}`)}
+                </span>
+              </div>
+
+              <ul className="mt-2 text-sm space-y-1">
+                {order.lines.map((l, i) => (
+                  <li key={i}>
+                    <span className="font-semibold">{l.quantity}×</span> {l.name}
+                    {l.note ? <span className="text-xs text-gray-500"> — {l.note}</span> : null}
+                  </li>
+                ))}
+              </ul>
+
+              {order.note ? <div className="mt-2 text-xs text-gray-600">{t("orders.note", { note: order.note })}</div> : null}
+
+              <div className="mt-3 flex items-center justify-between">
+                <span className="font-extrabold">{formatTRY(order.total, locale)}</span>
+                {next && (
+                  <button
+                    type="button"
+                    disabled={busyId === order.id}
+                    onClick={() => advance(order)}
+                    className="text-sm px-3 py-1.5 rounded-xl bg-black text-white disabled:opacity-50"
+                  >
+                    → {t(`orderStatus.${next}`)}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {orders.length === 0 && !error && (
+          <div className="text-sm text-gray-500">{t("orders.empty")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
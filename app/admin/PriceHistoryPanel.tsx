@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { formatDateTime, formatTRY, toDateInputValue } from "@/lib/format";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { MenuItem } from "@/lib/menuApi";
+import type { PriceChange } from "@/lib/priceHistoryApi";
+import type { PriceSchedule } from "@/lib/priceSchedulesApi";
+
+/** Düzenleme penceresinde tek ürünün bekleyen planları ve fiyat zaman çizelgesi. */
+export default function PriceHistoryPanel({ api, item }: { api: AdminApi; item: MenuItem }) {
+  const { locale, t } = useI18n();
+  const [history, setHistory] = useState<PriceChange[] | null>(null);
+  const [schedules, setSchedules] = useState<PriceSchedule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [price, setPrice] = useState<number>(item.price);
+  const [effectiveDate, setEffectiveDate] = useState(() => toDateInputValue(new Date(Date.now() + 86_400_000)));
+
+  const load = useCallback(async () => {
+    try {
+      const [changes, pending] = await Promise.all([
+        api.priceHistory.list({ menuItemId: item.id }),
+        api.priceSchedules.list(),
+      ]);
+      setHistory(changes);
+      setSchedules(pending.filter((s) => s.menuItemId === item.id));
+      setError(null);
+    } catch (err) {
+      setError(errorText(err));
+    }
+  }, [api, item.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function schedule(e: React.FormEvent) {
+    e.preventDefault();
+    if (!effectiveDate || effectiveDate <= toDateInputValue(new Date())) return alert(t("prices.effectiveAtPast"));
+    if (!Number.isFinite(price)) return alert(t("admin.validation.priceNumber"));
+    if (price < 0) return alert(t("admin.validation.priceNegative"));
+
+    setBusy(true);
+    try {
+      await api.priceSchedules.create(effectiveDate, [{ id: item.id, price }]);
+      await load();
+    } catch (err) {
+      alert(`${t("prices.scheduleFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function cancel(id: number) {
+    if (!confirm(t("prices.confirmCancel"))) return;
+    setBusy(true);
+    try {
+      await api.priceSchedules.delete(id);
+      await load();
+    } catch (err) {
+      alert(`${t("prices.cancelFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="border rounded-2xl p-3">
+      <div className="font-semibold text-sm">{t("prices.history")}</div>
+      {error && <div className="mt-2 text-xs text-red-600">{`${t("prices.loadFailed")} ${error}`}</div>}
+
+      {schedules.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {schedules.map((s) => (
+            <li
+              key={s.id}
+              className="flex items-center justify-between gap-2 text-sm rounded-xl bg-amber-50 border border-amber-200 px-3 py-1.5"
+            >
+              <span>
+                <span className="text-amber-700">
+                  {t("prices.scheduledFor", { date: formatDateTime(s.effectiveAt, locale) })}
+                </span>{" "}
+                <span className="font-semibold">{formatTRY(s.price, locale)}</span>
+              </span>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => cancel(s.id)}
+                className="text-xs text-red-600 hover:underline disabled:opacity-50"
+              >
+                {t("prices.cancelSchedule")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={schedule} className="mt-3 flex flex-wrap items-end gap-2">
+        <div>
+          <label className="text-xs text-gray-600">{t("prices.newPrice")}</label>
+          <input
+            className="block w-28 border rounded-xl px-3 py-1.5 mt-1 text-sm"
+            type="number"
+            min={0}
+            step="any"
+            value={price}
+            onChange={(e) => setPrice(e.target.value === "" ? 0 : Number(e.target.value))}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600">{t("prices.effectiveAt")}</label>
+          <input
+            className="block border rounded-xl px-3 py-1.5 mt-1 text-sm"
+            type="date"
+            title={t("prices.effectiveAtHint")}
+            min={toDateInputValue(new Date(Date.now() + 86_400_000))}
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+        </div>
+        <button
+          disabled={busy}
+          className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 text-sm disabled:opacity-50"
+        >
+          {t("prices.schedule")}
+        </button>
+      </form>
+
+      {history === null ? (
+        !error && <div className="mt-3 text-xs text-gray-500">{t("common.loading")}</div>
+      ) : history.length === 0 ? (
+        <div className="mt-3 text-xs text-gray-500">{t("prices.historyEmpty")}</div>
+      ) : (
+        <ol className="mt-3 border-l-2 border-gray-200 ml-1 space-y-2 max-h-48 overflow-y-auto">
+          {history.map((c) => (
+            <li key={c.id} className="pl-3 text-sm">
+              <div>
+                <span className="line-through text-gray-400">{formatTRY(c.oldPrice, locale)}</span> →{" "}
+                <span className="font-semibold">{formatTRY(c.newPrice, locale)}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatDateTime(c.changedAt, locale)} • {t(`prices.source.${c.source}`)}
+                {c.changedBy && ` • ${c.changedBy}`}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
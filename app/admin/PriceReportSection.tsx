@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { formatDateTime, formatTRY, toDateInputValue } from "@/lib/format";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { MenuItem } from "@/lib/menuApi";
+import type { PriceChange } from "@/lib/priceHistoryApi";
+import type { PriceSchedule } from "@/lib/priceSchedulesApi";
+
+type Props = {
+  api: AdminApi;
+  menu: MenuItem[];
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// Tarih kutuları yerel gün; sorguya günün başı ve sonu ISO olarak gider.
+function rangeQuery(from: string, to: string) {
+  return {
+    from: new Date(`${from}T00:00:00`).toISOString(),
+    to: new Date(`${to}T23:59:59.999`).toISOString(),
+  };
+}
+
+/** Seçilen aralıktaki tüm fiyat değişiklikleri ve bekleyen planlar. */
+export default function PriceReportSection({ api, menu }: Props) {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(() => toDateInputValue(new Date(Date.now() - DEFAULT_RANGE_DAYS * 86_400_000)));
+  const [to, setTo] = useState(() => toDateInputValue(new Date()));
+  const [changes, setChanges] = useState<PriceChange[] | null>(null);
+  const [schedules, setSchedules] = useState<PriceSchedule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!from || !to) return;
+    try {
+      const [list, pending] = await Promise.all([
+        api.priceHistory.list(rangeQuery(from, to)),
+        api.priceSchedules.list(),
+      ]);
+      setChanges(list);
+      setSchedules(pending);
+      setError(null);
+    } catch (err) {
+      setError(errorText(err));
+    }
+  }, [api, from, to]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const itemName = (id: number) => menu.find((x) => x.id === id)?.name ?? `#${id}`;
+
+  async function cancel(schedule: PriceSchedule) {
+    if (!confirm(t("prices.confirmCancel"))) return;
+    setBusy(true);
+    try {
+      await api.priceSchedules.delete(schedule.id);
+      await load();
+    } catch (err) {
+      alert(`${t("prices.cancelFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-bold text-lg">{t("priceReport.title")}</h2>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 text-sm"
+        >
+          {open ? t("bulkPrice.close") : t("bulkPrice.open")}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {error && <div className="text-sm text-red-600">{`${t("prices.loadFailed")} ${error}`}</div>}
+
+          {/* Bekleyen planlar */}
+          <div>
+            <div className="text-sm text-gray-600">{t("priceReport.upcoming")}</div>
+            {schedules.length === 0 ? (
+              <div className="mt-1 text-sm text-gray-500">{t("priceReport.noUpcoming")}</div>
+            ) : (
+              <ul className="mt-2 space-y-1">
+                {schedules.map((s) => {
+                  const current = menu.find((x) => x.id === s.menuItemId)?.price;
+                  return (
+                    <li
+                      key={s.id}
+                      className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm rounded-xl bg-amber-50 border border-amber-200 px-3 py-1.5"
+                    >
+                      <span className="text-amber-700 whitespace-nowrap">{formatDateTime(s.effectiveAt, locale)}</span>
+                      <span className="font-semibold flex-1 min-w-0 truncate">{itemName(s.menuItemId)}</span>
+                      <span>
+                        {current !== undefined && (
+                          <span className="line-through text-gray-400 mr-1">{formatTRY(current, locale)}</span>
+                        )}
+                        <span className="font-semibold">{formatTRY(s.price, locale)}</span>
+                      </span>
+                      {s.createdBy && <span className="text-xs text-gray-500">{s.createdBy}</span>}
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => cancel(s)}
+                        className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        {t("prices.cancelSchedule")}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Geçmiş */}
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="text-sm text-gray-600">{t("priceReport.from")}</label>
+              <input
+                className="block border rounded-xl px-3 py-2 mt-1"
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">{t("priceReport.to")}</label>
+              <input
+                className="block border rounded-xl px-3 py-2 mt-1"
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <span className="text-sm text-gray-500 pb-2">
+              {changes === null ? t("common.loading") : t("priceReport.count", { count: changes.length })}
+            </span>
+          </div>
+
+          {changes !== null &&
+            (changes.length === 0 ? (
+              <div className="text-sm text-gray-500">{t("priceReport.empty")}</div>
+            ) : (
+              <div className="max-h-[50vh] overflow-auto border rounded-xl">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                    <tr>
+                      <th className="p-2">{t("priceReport.date")}</th>
+                      <th className="p-2">{t("admin.field.name")}</th>
+                      <th className="p-2 text-right">{t("bulkPrice.before")}</th>
+                      <th className="p-2 text-right">{t("bulkPrice.after")}</th>
+                      <th className="p-2">{t("priceReport.source")}</th>
+                      <th className="p-2">{t("priceReport.user")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((c) => (
+                      <tr key={c.id} className="border-t">
+                        <td className="p-2 text-gray-500 whitespace-nowrap">{formatDateTime(c.changedAt, locale)}</td>
+                        <td className="p-2 font-semibold">{c.itemName}</td>
+                        <td className="p-2 text-right text-gray-400">{formatTRY(c.oldPrice, locale)}</td>
+                        <td
+                          className={`p-2 text-right font-semibold ${
+                            c.newPrice > c.oldPrice ? "text-green-700" : "text-red-600"
+                          }`}
+                        >
+                          {formatTRY(c.newPrice, locale)}
+                        </td>
+                        <td className="p-2 text-gray-600">{t(`prices.source.${c.source}`)}</td>
+                        <td className="p-2 text-gray-500">{c.changedBy ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { describeAvailability } from "@/lib/availability";
+import { formatDateTime, formatPercent, formatTRY, toDateTimeInputValue } from "@/lib/format";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { MenuItem } from "@/lib/menuApi";
+import {
+  appliesTo,
+  DISCOUNT_TYPES,
+  promotionStatus,
+  type Promotion,
+  type PromotionInput,
+} from "@/lib/promotionsApi";
+import { searchItems } from "@/lib/search";
+import AvailabilityEditor from "./AvailabilityEditor";
+
+type Props = {
+  api: AdminApi;
+  menu: MenuItem[];
+  /** Admin sayfasındaki sırayla kategori adları. */
+  categories: string[];
+  timeZone: string;
+};
+
+// Form datetime-local ile çalışır; kayıtta ISO'ya çevrilir.
+type Draft = Omit<PromotionInput, "startsAt" | "endsAt"> & { startsAt: string; endsAt: string };
+
+function emptyDraft(): Draft {
+  const start = new Date();
+  start.setMinutes(0, 0, 0);
+  return {
+    name: "",
+    itemIds: [],
+    categories: [],
+    discountType: "percent",
+    value: 10,
+    startsAt: toDateTimeInputValue(start),
+    endsAt: toDateTimeInputValue(new Date(start.getTime() + 7 * 86_400_000)),
+    hours: [],
+  };
+}
+
+function toDraft(promo: Promotion): Draft {
+  return {
+    name: promo.name,
+    itemIds: promo.itemIds,
+    categories: promo.categories,
+    discountType: promo.discountType,
+    value: promo.value,
+    hours: promo.hours,
+    startsAt: toDateTimeInputValue(new Date(promo.startsAt)),
+    endsAt: toDateTimeInputValue(new Date(promo.endsAt)),
+  };
+}
+
+function toggled<T>(list: T[], value: T) {
+  return list.includes(value) ? list.filter((x) => x !== value) : [...list, value];
+}
+
+/** Süreli indirimler: geçerli ve yaklaşan kampanyalar, ekleme/düzenleme formu. */
+export default function PromotionsSection({ api, menu, categories, timeZone }: Props) {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [promotions, setPromotions] = useState<Promotion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // null: form kapalı • 0: yeni kampanya • diğer: düzenlenen kaydın id'si
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [itemSearch, setItemSearch] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setPromotions(await api.promotions.list());
+      setError(null);
+    } catch (err) {
+      setError(errorText(err));
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  // Bitenler listelenmez; geçerli olanlar önce
+  const listed = useMemo(() => {
+    const now = Date.now();
+    const list = promotions ?? [];
+    return (["active", "upcoming"] as const).flatMap((status) =>
+      list.filter((p) => promotionStatus(p, now) === status).map((promo) => ({ promo, status }))
+    );
+  }, [promotions]);
+
+  const searchable = useMemo(() => {
+    const sorted = [...menu].sort((a, b) => a.name.localeCompare(b.name, "tr"));
+    return searchItems(sorted, itemSearch, (x) => ({ name: x.name, categories: [x.category] }));
+  }, [menu, itemSearch]);
+
+  const affected = useMemo(() => menu.filter((item) => appliesTo(draft, item)).length, [menu, draft]);
+
+  function discountLabel(promo: Pick<Promotion, "discountType" | "value">) {
+    if (promo.discountType === "percent") return formatPercent(-promo.value, locale);
+    if (promo.discountType === "amount") return `-${formatTRY(promo.value, locale)}`;
+    return t("promotions.fixedPrice", { price: formatTRY(promo.value, locale) });
+  }
+
+  function startCreate() {
+    setDraft(emptyDraft());
+    setEditingId(0);
+  }
+
+  function startEdit(promo: Promotion) {
+    setDraft(toDraft(promo));
+    setEditingId(promo.id);
+  }
+
+  function validate() {
+    if (!draft.name.trim()) return t("promotions.validation.name");
+    if (!draft.itemIds.length && !draft.categories.length) return t("promotions.validation.scope");
+    if (!Number.isFinite(draft.value) || draft.value < 0 || (draft.discountType !== "fixedPrice" && draft.value === 0)) {
+      return t("promotions.validation.value");
+    }
+    if (draft.discountType === "percent" && draft.value > 100) return t("promotions.validation.percent");
+    const start = new Date(draft.startsAt).getTime();
+    const end = new Date(draft.endsAt).getTime();
+    if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return t("promotions.validation.dates");
+    return null;
+  }
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    const err = validate();
+    if (err) return alert(err);
+
+    const input: PromotionInput = {
+      ...draft,
+      name: draft.name.trim(),
+      startsAt: new Date(draft.startsAt).toISOString(),
+      endsAt: new Date(draft.endsAt).toISOString(),
+    };
+
+    setBusy(true);
+    try {
+      if (editingId) await api.promotions.update(editingId, input);
+      else await api.promotions.create(input);
+      setEditingId(null);
+      await load();
+    } catch (err) {
+      alert(`${t("promotions.saveFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(promo: Promotion) {
+    if (!confirm(t("promotions.confirmDelete", { name: promo.name }))) return;
+    setBusy(true);
+    try {
+      await api.promotions.delete(promo.id);
+      if (editingId === promo.id) setEditingId(null);
+      await load();
+    } catch (err) {
+      alert(`${t("promotions.deleteFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const itemName = (id: number) => menu.find((x) => x.id === id)?.name ?? `#${id}`;
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-bold text-lg">{t("promotions.title")}</h2>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="px-3 py-1.5 rounded-xl border hover:bg-gray-50 text-sm"
+        >
+          {open ? t("bulkPrice.close") : t("bulkPrice.open")}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {error && <div className="text-sm text-red-600">{`${t("promotions.loadFailed")} ${error}`}</div>}
+
+          {promotions === null ? (
+            !error && <div className="text-sm text-gray-500">{t("common.loading")}</div>
+          ) : listed.length === 0 ? (
+            <div className="text-sm text-gray-500">{t("promotions.empty")}</div>
+          ) : (
+            <ul className="space-y-2">
+              {listed.map(({ promo, status }) => (
+                <li
+                  key={promo.id}
+                  className={`rounded-xl border px-3 py-2 text-sm ${
+                    status === "active" ? "bg-green-50 border-green-200" : "bg-amber-50 border-amber-200"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                        status === "active" ? "bg-green-600 text-white" : "bg-amber-500 text-white"
+                      }`}
+                    >
+                      {t(`promotions.status.${status}`)}
+                    </span>
+                    <span className="font-semibold flex-1 min-w-0 truncate">{promo.name}</span>
+                    <span className="font-semibold">{discountLabel(promo)}</span>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => startEdit(promo)}
+                      className="text-xs hover:underline disabled:opacity-50"
+                    >
+                      {t("common.edit")}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => remove(promo)}
+                      className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                    >
+                      {t("common.delete")}
+                    </button>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-600">
+                    {formatDateTime(promo.startsAt, locale)} – {formatDateTime(promo.endsAt, locale)}
+                    {promo.hours.length > 0 && ` • ⏰ ${describeAvailability(promo.hours, locale)}`}
+                  </div>
+                  <div className="mt-0.5 text-xs text-gray-500 truncate">
+                    {[...promo.categories, ...promo.itemIds.map(itemName)].join(", ")}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {editingId === null ? (
+            <button
+              type="button"
+              onClick={startCreate}
+              className="px-4 py-2 rounded-xl bg-black text-white font-semibold hover:opacity-90"
+            >
+              {t("promotions.add")}
+            </button>
+          ) : (
+            <form onSubmit={save} className="border rounded-2xl p-3 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="text-sm text-gray-600">{t("promotions.name")}</label>
+                  <input
+                    className="w-full border rounded-xl px-3 py-2 mt-1"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder={t("promotions.namePlaceholder")}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">{t("promotions.discount")}</label>
+                  <div className="flex mt-1">
+                    <select
+                      className="border rounded-l-xl px-2 py-2 bg-white text-sm"
+                      value={draft.discountType}
+                      onChange={(e) => setDraft({ ...draft, discountType: e.target.value as Promotion["discountType"] })}
+                    >
+                      {DISCOUNT_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {t(`promotions.type.${type}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="w-full border border-l-0 rounded-r-xl px-3 py-2"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft.value}
+                      onChange={(e) => setDraft({ ...draft, value: e.target.value === "" ? 0 : Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div className="text-sm text-gray-500 md:pt-7">{t("common.itemCount", { count: affected })}</div>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="text-sm text-gray-600">{t("promotions.startsAt")}</label>
+                  <input
+                    className="block border rounded-xl px-3 py-2 mt-1"
+                    type="datetime-local"
+                    value={draft.startsAt}
+                    onChange={(e) => setDraft({ ...draft, startsAt: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">{t("promotions.endsAt")}</label>
+                  <input
+                    className="block border rounded-xl px-3 py-2 mt-1"
+                    type="datetime-local"
+                    min={draft.startsAt}
+                    value={draft.endsAt}
+                    onChange={(e) => setDraft({ ...draft, endsAt: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <AvailabilityEditor
+                value={draft.hours}
+                onChange={(hours) => setDraft({ ...draft, hours })}
+                timeZone={timeZone}
+                title={t("promotions.hours")}
+                hint={t("promotions.hoursHint", { timeZone })}
+              />
+
+              {/* Kapsam: kategoriler ve tek tek ürünler birlikte seçilebilir */}
+              <div>
+                <div className="text-sm text-gray-600">{t("promotions.categories")}</div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {categories.map((c) => (
+                    <label key={c} className="flex items-center gap-1.5 text-sm px-2 py-1 rounded-lg border">
+                      <input
+                        type="checkbox"
+                        checked={draft.categories.includes(c)}
+                        onChange={() => setDraft({ ...draft, categories: toggled(draft.categories, c) })}
+                      />
+                      {c}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border rounded-xl p-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">{t("promotions.items")}</span>
+                  <input
+                    className="flex-1 border rounded-xl px-3 py-1.5 text-sm"
+                    value={itemSearch}
+                    onChange={(e) => setItemSearch(e.target.value)}
+                    placeholder={t("admin.filter.searchPlaceholder")}
+                  />
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {t("bulkPrice.selectedCount", { count: draft.itemIds.length })}
+                  </span>
+                </div>
+                <div className="mt-2 max-h-48 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-1">
+                  {searchable.map((item) => (
+                    <label key={item.id} className="flex items-center gap-2 text-sm px-2 py-1 rounded-lg hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={draft.itemIds.includes(item.id)}
+                        onChange={() => setDraft({ ...draft, itemIds: toggled(draft.itemIds, item.id) })}
+                      />
+                      <span className="truncate flex-1">{item.name}</span>
+                      <span className="text-xs text-gray-500">{formatTRY(item.price, locale)}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  disabled={busy}
+                  className="px-4 py-2 rounded-xl bg-black text-white font-semibold hover:opacity-90 disabled:opacity-50"
+                >
+                  {t("common.save")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 rounded-xl border hover:bg-gray-50"
+                >
+                  {t("common.cancel")}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
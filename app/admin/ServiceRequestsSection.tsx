@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { AdminApi } from "@/lib/adminApi";
+import { redirectToLogin } from "@/lib/auth/client";
+import { ApiError, errorText } from "@/lib/http";
+import type { Translate } from "@/lib/i18n/translate";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { ServiceRequest } from "@/lib/serviceRequestsApi";
+
+const POLL_MS = 5_000;
+
+function elapsed(iso: string, now: number, t: Translate) {
+  const ms = now - new Date(iso).getTime();
+  if (!Number.isFinite(ms)) return "";
+  const min = Math.floor(ms / 60_000);
+  if (min < 1) return t("time.justNow");
+  if (min < 60) return t("time.minutesAgo", { minutes: min });
+  return t("time.hoursAgo", { hours: Math.floor(min / 60), minutes: min % 60 });
+}
+
+// Kısa iki tonlu "ding"; ses dosyası taşımamak için Web Audio ile üretiliyor.
+function playChime(ctx: AudioContext) {
+  [880, 660].forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const start = ctx.currentTime + i * 0.18;
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(0.25, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.35);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(start);
+    osc.stop(start + 0.35);
+  });
+}
+
+export default function ServiceRequestsSection({ api }: { api: AdminApi }) {
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [soundOn, setSoundOn] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const { t } = useI18n();
+
+  const seenIds = useRef<Set<number> | null>(null);
+  const audio = useRef<AudioContext | null>(null);
+  const soundOnRef = useRef(soundOn);
+
+  useEffect(() => {
+    soundOnRef.current = soundOn;
+  }, [soundOn]);
+
+  const load = useCallback(async () => {
+    try {
+      const open = await api.serviceRequests.listOpen();
+      setRequests(open);
+      setError(null);
+
+      // İlk yüklemede çalma; sadece sonradan gelenler için
+      const seen = seenIds.current;
+      const hasNew = seen !== null && open.some((r) => !seen.has(r.id));
+      seenIds.current = new Set(open.map((r) => r.id));
+      if (hasNew && soundOnRef.current) {
+        audio.current ??= new AudioContext();
+        playChime(audio.current);
+      }
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) return redirectToLogin("expired");
+      setError(errorText(err));
+    }
+  }, [api]);
+
+  useEffect(() => {
+    seenIds.current = null;
+    load();
+    const poll = setInterval(load, POLL_MS);
+    const tick = setInterval(() => setNow(Date.now()), 15_000);
+    return () => {
+      clearInterval(poll);
+      clearInterval(tick);
+    };
+  }, [load]);
+
+  async function acknowledge(r: ServiceRequest) {
+    setRequests((prev) => prev.filter((x) => x.id !== r.id));
+    try {
+      await api.serviceRequests.acknowledge(r.id);
+    } catch (err) {
+      alert(`${t("serviceRequests.acknowledgeFailed")}\n${errorText(err)}`);
+      load();
+    }
+  }
+
+  const sorted = useMemo(
+    () => [...requests].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    [requests]
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-bold text-lg">
+          {t("serviceRequests.title")}
+          {sorted.length > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded-full bg-red-600 text-white text-xs align-middle">
+              {sorted.length}
+            </span>
+          )}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={soundOn}
+            onChange={(e) => {
+              setSoundOn(e.target.checked);
+              // Tarayıcılar sesi kullanıcı etkileşimiyle açtırıyor
+              if (e.target.checked) audio.current ??= new AudioContext();
+            }}
+          />
+          {t("serviceRequests.sound")}
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-3 text-xs text-red-600 whitespace-pre-line">
+          {t("serviceRequests.loadFailed")} {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {sorted.map((r) => (
+          <div
+            key={r.id}
+            className={`border rounded-2xl p-4 ${
+              r.kind === "bill" ? "border-blue-200 bg-blue-50" : "border-amber-200 bg-amber-50"
+            }`}
+          >
+            <div className="font-bold">{t("common.table", { table: r.table })}</div>
+            <div className="text-sm mt-1">{t(`serviceKind.${r.kind}`)}</div>
+            <div className="text-xs text-gray-500 mt-1">{elapsed(r.createdAt, now, t)}</div>
+            <button
+              type="button"
+              onClick={() => acknowledge(r)}
+              className="mt-3 w-full text-sm px-3 py-1.5 rounded-xl bg-black text-white"
+            >
+              {t("serviceRequests.acknowledge")}
+            </button>
+          </div>
+        ))}
+
+        {sorted.length === 0 && !error && (
+          <div className="text-sm text-gray-500">{t("serviceRequests.empty")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
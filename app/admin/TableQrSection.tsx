@@ -0,0 +1,250 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import QRCode from "qrcode";
+import type { AdminApi } from "@/lib/adminApi";
+import { errorText } from "@/lib/http";
+import type { Locale } from "@/lib/i18n/locales";
+import type { Translate } from "@/lib/i18n/translate";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { expandTableInput, tableMenuUrl } from "@/lib/tables";
+import type { Table } from "@/lib/tablesApi";
+import type { Venue } from "@/lib/venues";
+
+const QR_OPTIONS = { margin: 1, errorCorrectionLevel: "M" as const };
+
+function siteOrigin() {
+  return process.env.NEXT_PUBLIC_SITE_URL || window.location.origin;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function download(href: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = filename;
+  a.click();
+}
+
+// A4 dikey, sayfa başına 2 masa kartı. Her kartın üst yüzü ters basılır; ortadan katlanınca
+// iki taraftan da okunur.
+async function openPrintSheet(venue: Venue, tables: Table[], locale: Locale, t: Translate) {
+  const origin = siteOrigin();
+  const tents = await Promise.all(
+    tables.map(async (table) => {
+      const svg = await QRCode.toString(tableMenuUrl(origin, venue.slug, table.number), {
+        ...QR_OPTIONS,
+        type: "svg",
+      });
+      const face = `
+        <div class="face">
+          <div class="qr">${svg}</div>
+          <div class="text">
+            <div class="venue">${escapeHtml(venue.name)}</div>
+            <div class="table">${escapeHtml(t("common.table", { table: table.number }))}</div>
+            ${table.zone ? `<div class="zone">${escapeHtml(table.zone)}</div>` : ""}
+            <div class="hint">${escapeHtml(t("tables.scanHint"))}</div>
+          </div>
+        </div>`;
+      return `<div class="tent"><div class="flip">${face}</div>${face}</div>`;
+    })
+  );
+
+  const html = `<!doctype html>
+<html lang="${locale}"><head><meta charset="utf-8"><title>${escapeHtml(t("tables.printTitle", { venue: venue.name }))}</title>
+<style>
+  @page { size: A4 portrait; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #292524; }
+  .tent { width: 210mm; height: 148.5mm; display: flex; flex-direction: column; break-inside: avoid; }
+  .tent:nth-child(2n) { break-after: page; }
+  .face { flex: 1; display: flex; align-items: center; gap: 12mm; padding: 8mm 16mm; }
+  .flip { flex: 1; display: flex; transform: rotate(180deg); border-bottom: 1px dashed #a8a29e; }
+  .qr svg { width: 56mm; height: 56mm; display: block; }
+  .venue { font-size: 26pt; font-weight: 800; }
+  .table { font-size: 34pt; font-weight: 800; color: #b45309; margin-top: 2mm; }
+  .zone { font-size: 14pt; color: #57534e; }
+  .hint { font-size: 11pt; color: #78716c; margin-top: 4mm; }
+</style></head>
+<body>${tents.join("")}<script>window.onload = () => window.print();</script></body></html>`;
+
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  window.open(url, "_blank");
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// Masalar mekan başına upstream'de tutulur (tables.manage); mekan değişince key ile yeniden mount edilir.
+export default function TableQrSection({ api, venue }: { api: AdminApi; venue: Venue }) {
+  const [tables, setTables] = useState<Table[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [tableInput, setTableInput] = useState("");
+  const [zone, setZone] = useState("");
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const { locale, t } = useI18n();
+
+  const load = useCallback(async () => {
+    try {
+      setTables(await api.tables.list());
+      setError(null);
+    } catch (err) {
+      setError(errorText(err));
+    }
+  }, [api]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    let ignore = false;
+    const origin = siteOrigin();
+
+    Promise.all(
+      tables.map(
+        async (table) =>
+          [
+            table.number,
+            await QRCode.toDataURL(tableMenuUrl(origin, venue.slug, table.number), QR_OPTIONS),
+          ] as const
+      )
+    ).then((entries) => {
+      if (!ignore) setPreviews(Object.fromEntries(entries));
+    });
+
+    return () => {
+      ignore = true;
+    };
+  }, [tables, venue.slug]);
+
+  async function addTables(e: React.FormEvent) {
+    e.preventDefault();
+    if (expandTableInput(tableInput).length === 0) return alert(t("tables.inputRequired"));
+
+    setBusy(true);
+    try {
+      await api.tables.add(tableInput, zone);
+      setTableInput("");
+      await load();
+    } catch (err) {
+      alert(`${t("tables.saveFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeTable(table: Table) {
+    setBusy(true);
+    try {
+      await api.tables.delete(table.id);
+      await load();
+    } catch (err) {
+      alert(`${t("tables.deleteFailed")}\n${errorText(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function downloadSvg(table: Table) {
+    const svg = await QRCode.toString(tableMenuUrl(siteOrigin(), venue.slug, table.number), {
+      ...QR_OPTIONS,
+      type: "svg",
+    });
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    download(url, `${venue.slug}-masa-${table.number}.svg`);
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+  }
+
+  async function downloadPng(table: Table) {
+    const dataUrl = await QRCode.toDataURL(tableMenuUrl(siteOrigin(), venue.slug, table.number), {
+      ...QR_OPTIONS,
+      width: 1024,
+    });
+    download(dataUrl, `${venue.slug}-masa-${table.number}.png`);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4 mb-6 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-bold text-lg">{t("tables.title")}</h2>
+        <button
+          type="button"
+          disabled={tables.length === 0}
+          onClick={() => openPrintSheet(venue, tables, locale, t)}
+          className="px-4 py-2 rounded-xl border bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+        >
+          {t("tables.print")}
+        </button>
+      </div>
+
+      <form onSubmit={addTables} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="text-sm text-gray-600">{t("tables.field.tables")}</label>
+          <input
+            className="w-full border rounded-xl px-3 py-2 mt-1"
+            value={tableInput}
+            onChange={(e) => setTableInput(e.target.value)}
+            placeholder={t("tables.field.tablesPlaceholder")}
+          />
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">{t("tables.field.zone")}</label>
+          <input
+            className="w-full border rounded-xl px-3 py-2 mt-1"
+            value={zone}
+            onChange={(e) => setZone(e.target.value)}
+            placeholder={t("tables.field.zonePlaceholder")}
+          />
+        </div>
+        <button disabled={busy} className="bg-black text-white rounded-xl px-5 py-2 font-semibold disabled:opacity-50">
+          {t("tables.add")}
+        </button>
+      </form>
+
+      {error && <div className="text-sm text-red-600">{`${t("tables.loadFailed")} ${error}`}</div>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+        {tables.map((table) => (
+          <div key={table.number} className="border rounded-2xl p-3 text-center">
+            <div className="font-bold">{t("common.table", { table: table.number })}</div>
+            <div className="text-xs text-gray-500 h-4">{table.zone}</div>
+            {previews[table.number] ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={previews[table.number]}
+                alt={t("tables.qrAlt", { table: table.number })}
+                className="w-28 h-28 mx-auto my-2"
+              />
+            ) : (
+              <div className="w-28 h-28 mx-auto my-2 bg-gray-100 rounded-xl" />
+            )}
+            <div className="flex justify-center gap-1 text-xs">
+              <button type="button" onClick={() => downloadSvg(table)} className="px-2 py-1 rounded-lg border hover:bg-gray-50">
+                SVG
+              </button>
+              <button type="button" onClick={() => downloadPng(table)} className="px-2 py-1 rounded-lg border hover:bg-gray-50">
+                PNG
+              </button>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => removeTable(table)}
+                className="px-2 py-1 rounded-lg border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                {t("common.delete")}
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {tables.length === 0 && !error && (
+          <div className="text-sm text-gray-500 col-span-full">
+            {t("tables.empty")} <code>/menu?table=12</code>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_LOCALE, LOCALE_LABELS, LOCALES, type Locale } from "@/lib/i18n/locales";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { ItemTranslation, ItemTranslations } from "@/lib/menuApi";
+
+const TAB_LOCALES = LOCALES.filter((l) => l !== DEFAULT_LOCALE);
+
+type Props = {
+  value: ItemTranslations;
+  onChange: (next: ItemTranslations) => void;
+  /** Türkçe alanlar; boş çeviri kutularında yer tutucu olarak görünür. */
+  baseName: string;
+  baseDescription: string;
+};
+
+// Türkçe metin formun ana alanlarında; buradaki sekmeler sadece diğer diller.
+export default function TranslationTabs({ value, onChange, baseName, baseDescription }: Props) {
+  const [active, setActive] = useState<Locale>(TAB_LOCALES[0]);
+  const current = value[active] ?? {};
+  const { t } = useI18n();
+
+  function update(patch: ItemTranslation) {
+    onChange({ ...value, [active]: { ...current, ...patch } });
+  }
+
+  return (
+    <div className="border rounded-2xl p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-600">{t("translations.title")}</span>
+        <div className="flex gap-1">
+          {TAB_LOCALES.map((l) => {
+            const filled = !!(value[l]?.name?.trim() || value[l]?.description?.trim());
+            return (
+              <button
+                key={l}
+                type="button"
+                onClick={() => setActive(l)}
+                title={LOCALE_LABELS[l]}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold border ${
+                  active === l ? "bg-black text-white border-black" : "bg-white hover:bg-gray-50"
+                }`}
+              >
+                {l.toUpperCase()}
+                {filled && <span className="ml-1 text-green-500">●</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-gray-500">
+            {t("translations.name", { language: LOCALE_LABELS[active] })}
+          </label>
+          <input
+            className="w-full border rounded-xl px-3 py-2 mt-1"
+            value={current.name ?? ""}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder={baseName || "—"}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">
+            {t("translations.description", { language: LOCALE_LABELS[active] })}
+          </label>
+          <textarea
+            className="w-full border rounded-xl px-3 py-2 mt-1 min-h-[42px]"
+            value={current.description ?? ""}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder={baseDescription || "—"}
+          />
+        </div>
+      </div>
+
+      <div className="mt-2 text-xs text-gray-400">{t("translations.fallbackHint")}</div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { login } from "@/lib/auth/client";
+import { ApiError } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { getDefaultVenue } from "@/lib/venues";
+
+function nextPath() {
+  const next = new URLSearchParams(window.location.search).get("next") || "/admin";
+  // Sadece site içi adreslere dön
+  return next.startsWith("/admin") ? next : "/admin";
+}
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const { t } = useI18n();
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!username.trim() || !password) return setError(t("login.required"));
+
+    setSending(true);
+    setError(null);
+    try {
+      await login(username.trim(), password);
+      window.location.replace(nextPath());
+    } catch (err) {
+      setError(
+        err instanceof ApiError && err.status === 401
+          ? t("login.invalid")
+          : err instanceof ApiError && err.status === 429
+            ? t("login.locked")
+            : t("login.failed")
+      );
+      setPassword("");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4 flex items-center justify-center">
+      <form onSubmit={submit} className="bg-white rounded-2xl p-6 shadow w-full max-w-sm space-y-3">
+        <h1 className="text-xl font-bold">{t("login.title", { venue: getDefaultVenue().name })}</h1>
+        <p className="text-sm text-gray-600">{t("login.subtitle")}</p>
+
+        <ExpiredNotice />
+
+        <input
+          className="w-full border rounded-xl px-3 py-2"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder={t("login.username")}
+        />
+
+        <input
+          className="w-full border rounded-xl px-3 py-2"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={t("login.password")}
+        />
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <button
+          disabled={sending}
+          className="w-full bg-black text-white rounded-xl px-4 py-2 disabled:opacity-50"
+        >
+          {sending ? t("login.submitting") : t("login.submit")}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+const noSubscribe = () => () => {};
+
+function ExpiredNotice() {
+  const { t } = useI18n();
+  const expired = useSyncExternalStore(
+    noSubscribe,
+    () => new URLSearchParams(window.location.search).get("reason") === "expired",
+    () => false
+  );
+  if (!expired) return null;
+  return <div className="text-sm text-amber-700">{t("login.expired")}</div>;
+}
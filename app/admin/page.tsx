@@ -1,42 +1,72 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-
-type MenuItem = {
-  id: number;
-  name: string;
-  price: number;
-  category: string;
-  isAvailable: boolean;
-  imageUrl?: string | null;
-  description?: string | null;
-};
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { fetchSession, logout, redirectToLogin, type ClientSession } from "@/lib/auth/client";
+import { can, type Permission } from "@/lib/auth/roles";
+import { ApiError, errorText } from "@/lib/http";
+import { createAdminApi } from "@/lib/adminApi";
+import { availabilityAt, describeAvailability, type AvailabilityWindow } from "@/lib/availability";
+import type { Category } from "@/lib/categoriesApi";
+import { ALLERGEN_ICONS, DIETARY_ICONS, type Allergen, type DietaryTag } from "@/lib/dietary";
+import { LOCALE_LABELS, LOCALES, type Locale } from "@/lib/i18n/locales";
+import { useI18n } from "@/lib/i18n/useI18n";
+import type { OptionGroup } from "@/lib/itemOptions";
+import { ALL_CATEGORIES, sortMenuItems, type ItemTranslations, type MenuItem } from "@/lib/menuApi";
+import { thumbnailUrl } from "@/lib/menuImages";
+import { validateItem } from "@/lib/menuValidation";
+import { foldText, searchItems } from "@/lib/search";
+import { useVenueClock } from "@/lib/useVenueClock";
+import { getDefaultVenue, getVenue, listVenues, venueMenuPath, venueTimeZone } from "@/lib/venues";
+import { formatNumber, formatTRY } from "@/lib/format";
+import AvailabilityEditor from "./AvailabilityEditor";
+import BulkPriceSection from "./BulkPriceSection";
+import CategoriesSection from "./CategoriesSection";
+import DietaryFields from "./DietaryFields";
+import ImageUploadField from "./ImageUploadField";
+import MenuTransferSection from "./MenuTransferSection";
+import OptionGroupsEditor from "./OptionGroupsEditor";
+import OrdersSection from "./OrdersSection";
+import PriceHistoryPanel from "./PriceHistoryPanel";
+import PriceReportSection from "./PriceReportSection";
+import PromotionsSection from "./PromotionsSection";
+import ServiceRequestsSection from "./ServiceRequestsSection";
+import TableQrSection from "./TableQrSection";
+import TranslationTabs from "./TranslationTabs";
+import { useDragOrder } from "./useDragOrder";
+import Highlight from "../menu/Highlight";
 
-const BASE_URL = process.env.NEXT_PUBLIC_API_BASE || "https://qrmenu-api-om05.onrender.com";
+type SortMode = "default" | "price_asc" | "price_desc" | "name_asc";
 
-function normalize(s: string) {
-  return (s || "").trim().toLowerCase();
-}
+type EffectiveTone = "open" | "closed" | "inactive";
 
-function formatTRY(value: number) {
-  const v = Number.isFinite(value) ? value : 0;
-  return `${v.toLocaleString("tr-TR", { maximumFractionDigits: 2 })} ₺`;
-}
+const EFFECTIVE_STYLES: Record<EffectiveTone, string> = {
+  open: "bg-green-50 text-green-700 border-green-200",
+  closed: "bg-amber-50 text-amber-700 border-amber-200",
+  inactive: "bg-gray-50 text-gray-600 border-gray-200",
+};
 
-type SortMode = "default" | "price_asc" | "price_desc" | "name_asc";
+const MARK = "bg-yellow-200 text-inherit rounded-sm";
 
 export default function AdminPage() {
   const [menu, setMenu] = useState<MenuItem[]>([]);
+  const [categoryRecords, setCategoryRecords] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
+  const { locale, setLocale, t } = useI18n();
+
+  // Venue
+  const [venueSlug, setVenueSlug] = useState(() => getDefaultVenue().slug);
+  const venue = getVenue(venueSlug) ?? getDefaultVenue();
+  const api = useMemo(() => createAdminApi(venue.slug), [venue.slug]);
 
-  // Admin key gate
-  const [adminKey, setAdminKey] = useState("");
-  const [rememberKey, setRememberKey] = useState(true);
-  const [unlocked, setUnlocked] = useState(false);
+  // Session (proxy.ts zaten girişsiz erişimi login'e yönlendiriyor)
+  const [session, setSession] = useState<ClientSession | null>(null);
+  const unlocked = session !== null;
+  // Sadece arayüzü sadeleştirir; asıl kontrol /api/admin route'larında
+  const allowed = (permission: Permission) => session !== null && can(session.role, permission);
 
   // Filters
   const [search, setSearch] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<string>("Tümü");
+  const [categoryFilter, setCategoryFilter] = useState<string>(ALL_CATEGORIES);
   const [sortMode, setSortMode] = useState<SortMode>("default");
 
   // Create form state
@@ -46,6 +76,11 @@ export default function AdminPage() {
   const [isAvailable, setIsAvailable] = useState(true);
   const [imageUrl, setImageUrl] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<ItemTranslations>({});
+  const [allergens, setAllergens] = useState<Allergen[]>([]);
+  const [tags, setTags] = useState<DietaryTag[]>([]);
+  const [optionGroups, setOptionGroups] = useState<OptionGroup[]>([]);
+  const [availability, setAvailability] = useState<AvailabilityWindow[]>([]);
 
   // Edit modal state
   const [editOpen, setEditOpen] = useState(false);
@@ -57,77 +92,130 @@ export default function AdminPage() {
   const [editAvailable, setEditAvailable] = useState(true);
   const [editImageUrl, setEditImageUrl] = useState("");
   const [editDescription, setEditDescription] = useState("");
+  const [editTranslations, setEditTranslations] = useState<ItemTranslations>({});
+  const [editAllergens, setEditAllergens] = useState<Allergen[]>([]);
+  const [editTags, setEditTags] = useState<DietaryTag[]>([]);
+  const [editOptionGroups, setEditOptionGroups] = useState<OptionGroup[]>([]);
+  const [editAvailability, setEditAvailability] = useState<AvailabilityWindow[]>([]);
+
+  useEffect(() => {
+    fetchSession()
+      .then((s) => (s ? setSession(s) : redirectToLogin()))
+      .catch((err) => alert(`${t("admin.sessionFailed")}\n${errorText(err)}`));
+  }, [t]);
 
-  // Load remembered key
+  // Oturum süresi dolunca login'e dön
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => redirectToLogin("expired"), session.expiresAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  async function signOut() {
+    await logout();
+    window.location.assign("/admin/login");
+  }
+
+  // Load remembered venue
   useEffect(() => {
     try {
-      const saved = localStorage.getItem("qrmenu_admin_key") || "";
-      if (saved) setAdminKey(saved);
+      // Eski anahtar kapısından kalan düz metin şifreyi temizle
+      localStorage.removeItem("qrmenu_admin_key");
+      const savedVenue = localStorage.getItem("qrmenu_admin_venue") || "";
+      if (getVenue(savedVenue)) setVenueSlug(savedVenue);
     } catch {}
   }, []);
 
-  async function load() {
+  function switchVenue(slug: string) {
+    setVenueSlug(slug);
+    setCategoryFilter(ALL_CATEGORIES);
+    try {
+      localStorage.setItem("qrmenu_admin_venue", slug);
+    } catch {}
+  }
+
+  const load = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await fetch(`${BASE_URL}/api/Menu`, { cache: "no-store" });
-      const data = await res.json();
-      setMenu(Array.isArray(data) ? data : []);
+      // Kategori uçları hazır değilse ürün yönetimi yine çalışsın
+      const [items, records] = await Promise.all([api.menu.list(), api.categories.list().catch(() => [])]);
+      setMenu(items);
+      setCategoryRecords(records);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) return redirectToLogin("expired");
+      alert(`${t("admin.loadFailed")}\n${errorText(err)}`);
     } finally {
       setLoading(false);
     }
-  }
+  }, [api, t]);
 
   useEffect(() => {
     if (unlocked) load();
-  }, [unlocked]);
+  }, [unlocked, load]);
 
+  // Önce kayıtlı kategoriler kendi sırasıyla, sonra sadece ürünlerde geçen adlar
   const categories = useMemo(() => {
-    const set = new Set(menu.map((x) => x.category).filter(Boolean));
-    return Array.from(set).sort((a, b) => a.localeCompare(b, "tr"));
-  }, [menu]);
+    const names = categoryRecords.map((c) => c.name);
+    const extras = new Set(menu.map((x) => x.category).filter((c) => c && !names.includes(c)));
+    return [...names, ...Array.from(extras).sort((a, b) => a.localeCompare(b, "tr"))];
+  }, [menu, categoryRecords]);
+
+  // Elle açık ürünün misafirin gördüğü durumu: kategori pasif mi, servis saatinde mi
+  const clock = useVenueClock(venueTimeZone(venue));
+  const effectiveStatus = useMemo(() => {
+    const byName = new Map(categoryRecords.map((c) => [c.name, c]));
+    const out = new Map<number, { tone: EffectiveTone; label: string }>();
+    for (const item of menu) {
+      if (!item.isAvailable) continue;
+      const record = byName.get(item.category.trim());
+      if (record?.isActive === false) {
+        out.set(item.id, { tone: "inactive", label: t("admin.schedule.categoryInactive") });
+        continue;
+      }
+      const schedule = [...(item.availability ?? []), ...(record?.availability ?? [])];
+      if (schedule.length === 0) continue;
+      const { state, windows } = availabilityAt(item, record, clock);
+      const hours = describeAvailability(windows.length ? windows : schedule, locale);
+      out.set(
+        item.id,
+        state === "outOfHours"
+          ? { tone: "closed", label: t("admin.schedule.closed", { hours }) }
+          : { tone: "open", label: t("admin.schedule.open", { hours }) }
+      );
+    }
+    return out;
+  }, [menu, categoryRecords, clock, locale, t]);
 
   const stats = useMemo(() => {
     const total = menu.length;
     const active = menu.filter((x) => x.isAvailable).length;
     const passive = total - active;
-    const catCount = new Set(menu.map((x) => normalize(x.category))).size;
+    const catCount = new Set(menu.map((x) => x.category.trim())).size;
     return { total, active, passive, catCount };
   }, [menu]);
 
-  function validateItem(n: string, c: string, p: number) {
-    if (!n.trim()) return "Ürün adı boş olamaz.";
-    if (!c.trim()) return "Kategori boş olamaz.";
-    if (!Number.isFinite(p)) return "Fiyat sayı olmalı.";
-    if (p < 0) return "Fiyat negatif olamaz.";
-    return null;
-  }
-
   async function createItem(e: React.FormEvent) {
     e.preventDefault();
 
-    const err = validateItem(name, category, price);
+    const err = validateItem(t, { name, category, price, optionGroups, availability });
     if (err) return alert(err);
 
-    const res = await fetch(`${BASE_URL}/api/Menu`, {
-  method: "POST",
-  headers: {
-    "Content-Type": "application/json",
-    "X-Admin-Key": adminKey,
-  },
-  body: JSON.stringify({
-    name: name.trim(),
-    price,
-    category: category.trim(),
-    isAvailable,
-    imageUrl: imageUrl.trim() || null,
-    description: description.trim() || null,
-  }),
-});
-
-
-    if (!res.ok) {
-      const msg = await res.text().catch(() => "");
-      alert(`Ekleme başarısız!\nStatus: ${res.status}\n${msg || ""}`);
+    try {
+      await api.menu.create({
+        name,
+        price,
+        category,
+        isAvailable,
+        imageUrl,
+        description,
+        translations,
+        allergens,
+        tags,
+        optionGroups,
+        availability,
+      });
+    } catch (err) {
+      alert(`${t("admin.createFailed")}\n${errorText(err)}`);
       return;
     }
 
@@ -137,6 +225,11 @@ export default function AdminPage() {
     setIsAvailable(true);
     setImageUrl("");
     setDescription("");
+    setTranslations({});
+    setAllergens([]);
+    setTags([]);
+    setOptionGroups([]);
+    setAvailability([]);
 
     await load();
   }
@@ -149,6 +242,11 @@ export default function AdminPage() {
     setEditAvailable(!!item.isAvailable);
     setEditImageUrl(item.imageUrl ?? "");
     setEditDescription(item.description ?? "");
+    setEditTranslations(item.translations ?? {});
+    setEditAllergens(item.allergens ?? []);
+    setEditTags(item.tags ?? []);
+    setEditOptionGroups(item.optionGroups ?? []);
+    setEditAvailability(item.availability ?? []);
     setEditOpen(true);
   }
 
@@ -160,29 +258,34 @@ export default function AdminPage() {
   async function saveEdit() {
     if (!editing) return;
 
-    const err = validateItem(editName, editCategory, editPrice);
-    if (err) return alert(err);
-
-    const res = await fetch(`${BASE_URL}/api/Menu/${editing.id}`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Admin-Key": adminKey,
-      },
-      body: JSON.stringify({
-        id: editing.id,
-        name: editName.trim(),
-        price: editPrice,
-        category: editCategory.trim(),
-        isAvailable: editAvailable,
-        imageUrl: editImageUrl.trim() || null,
-        description: editDescription.trim() || null,
-      }),
+    const err = validateItem(t, {
+      name: editName,
+      category: editCategory,
+      price: editPrice,
+      optionGroups: editOptionGroups,
+      availability: editAvailability,
     });
+    if (err) return alert(err);
 
-    if (!res.ok) {
-      const msg = await res.text().catch(() => "");
-      alert(`Güncelleme başarısız!\nStatus: ${res.status}\n${msg || ""}`);
+    try {
+      await api.menu.update(
+        editing.id,
+        {
+          name: editName,
+          price: editPrice,
+          category: editCategory,
+          isAvailable: editAvailable,
+          imageUrl: editImageUrl,
+          description: editDescription,
+          translations: editTranslations,
+          allergens: editAllergens,
+          tags: editTags,
+          optionGroups: editOptionGroups,
+          availability: editAvailability,
+        }
+      );
+    } catch (err) {
+      alert(`${t("admin.updateFailed")}\n${errorText(err)}`);
       return;
     }
 
@@ -191,17 +294,13 @@ export default function AdminPage() {
   }
 
   async function deleteItem(id: number) {
-    const ok = confirm("Silmek istediğine emin misin?");
+    const ok = confirm(t("admin.confirmDelete"));
     if (!ok) return;
 
-    const res = await fetch(`${BASE_URL}/api/Menu/${id}`, {
-      method: "DELETE",
-      headers: { "X-Admin-Key": adminKey },
-    });
-
-    if (!res.ok) {
-      const msg = await res.text().catch(() => "");
-      alert(`Silme başarısız!\nStatus: ${res.status}\n${msg || ""}`);
+    try {
+      await api.menu.delete(id);
+    } catch (err) {
+      alert(`${t("admin.deleteFailed")}\n${errorText(err)}`);
       return;
     }
 
@@ -209,26 +308,10 @@ export default function AdminPage() {
   }
 
   async function toggleAvailable(item: MenuItem) {
-    const res = await fetch(`${BASE_URL}/api/Menu/${item.id}`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Admin-Key": adminKey,
-      },
-      body: JSON.stringify({
-        id: item.id,
-        name: item.name,
-        price: item.price,
-        category: item.category,
-        isAvailable: !item.isAvailable,
-        imageUrl: item.imageUrl ?? null,
-        description: item.description ?? null,
-      }),
-    });
-
-    if (!res.ok) {
-      const msg = await res.text().catch(() => "");
-      alert(`Güncelleme başarısız!\nStatus: ${res.status}\n${msg || ""}`);
+    try {
+      await api.menu.setAvailability(item.id, !item.isAvailable);
+    } catch (err) {
+      alert(`${t("admin.updateFailed")}\n${errorText(err)}`);
       return;
     }
 
@@ -238,18 +321,9 @@ export default function AdminPage() {
   const filteredMenu = useMemo(() => {
     let items = [...menu];
 
-    const q = normalize(search);
-    if (q) {
-      items = items.filter((x) => {
-        const n = normalize(x.name);
-        const c = normalize(x.category);
-        return n.includes(q) || c.includes(q);
-      });
-    }
-
-    if (categoryFilter !== "Tümü") {
-      const cf = normalize(categoryFilter);
-      items = items.filter((x) => normalize(x.category) === cf);
+    if (categoryFilter !== ALL_CATEGORIES) {
+      const cf = categoryFilter.trim();
+      items = items.filter((x) => x.category.trim() === cf);
     }
 
     if (sortMode === "price_asc") {
@@ -258,61 +332,50 @@ export default function AdminPage() {
       items.sort((a, b) => Number(b.price) - Number(a.price));
     } else if (sortMode === "name_asc") {
       items.sort((a, b) => a.name.localeCompare(b.name, "tr"));
+    } else if (categoryFilter !== ALL_CATEGORIES) {
+      // Tek kategoride misafir menüsündeki sıra; buradan sürüklenerek değiştirilir
+      items = sortMenuItems(items);
     } else {
-      // default: aktifler üstte, sonra kategori, sonra isim
+      // default: aktifler üstte, sonra kategori, sonra menüdeki sıra
       items.sort((a, b) => {
         if (a.isAvailable !== b.isAvailable) return a.isAvailable ? -1 : 1;
         const c = a.category.localeCompare(b.category, "tr");
         if (c !== 0) return c;
-        return a.name.localeCompare(b.name, "tr");
+        return (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name, "tr");
       });
     }
 
-    return items;
-  }, [menu, search, categoryFilter, sortMode]);
-
-  // 🔒 Gate ekranı
-  if (!unlocked) {
-    return (
-      <div className="min-h-screen bg-gray-100 p-4 flex items-center justify-center">
-        <div className="bg-white rounded-2xl p-6 shadow w-full max-w-sm space-y-3">
-          <h1 className="text-xl font-bold">🔒 101 CLUP Admin</h1>
-          <p className="text-sm text-gray-600">Admin paneli için şifre gir.</p>
-
-          <input
-            className="w-full border rounded-xl px-3 py-2"
-            type="password"
-            value={adminKey}
-            onChange={(e) => setAdminKey(e.target.value)}
-            placeholder="Admin şifre"
-          />
-
-          <label className="flex items-center gap-2 text-sm text-gray-600">
-            <input
-              type="checkbox"
-              checked={rememberKey}
-              onChange={(e) => setRememberKey(e.target.checked)}
-            />
-            Şifreyi hatırla (bu cihaz)
-          </label>
+    const matched = searchItems(items, search, (x) => ({
+      name: x.name,
+      categories: [x.category],
+      description: x.description,
+      tags: x.tags?.map((tag) => t(`dietary.${tag}`)),
+    }));
+    // Varsayılan sıralamada aramaya en uyanlar üstte; fiyat/isim seçildiyse o sıra kalır
+    if (sortMode === "default") return matched;
+    const kept = new Set(matched);
+    return items.filter((x) => kept.has(x));
+  }, [menu, search, categoryFilter, sortMode, t]);
+
+  // Arama açıkken liste kategorinin tamamı olmaz; sıra sadece bütün kategori görünürken değişir
+  const canReorder =
+    allowed("menu.edit") && categoryFilter !== ALL_CATEGORIES && sortMode === "default" && !foldText(search);
+
+  const itemOrder = useDragOrder(filteredMenu, async (next) => {
+    try {
+      await api.menu.reorder(categoryFilter, next.map((x) => x.id));
+    } catch (err) {
+      alert(`${t("admin.reorderFailed")}\n${errorText(err)}`);
+      return;
+    }
 
-          <button
-            className="w-full bg-black text-white rounded-xl px-4 py-2"
-            onClick={() => {
-              if (!adminKey.trim()) return alert("Şifre gir");
-              try {
-                if (rememberKey) localStorage.setItem("qrmenu_admin_key", adminKey.trim());
-              } catch {}
-              setUnlocked(true);
-            }}
-          >
-            Giriş
-          </button>
+    await load();
+  });
 
-          <p className="text-xs text-gray-500">
-            (Not: Bu basit koruma. Sonra login/jwt yaparız.)
-          </p>
-        </div>
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-100 p-4 flex items-center justify-center text-sm text-gray-500">
+        {t("common.loading")}
       </div>
     );
   }
@@ -322,54 +385,97 @@ export default function AdminPage() {
       {/* Top bar */}
       <div className="flex items-center justify-between mb-4 gap-3">
         <div>
-          <h1 className="text-2xl font-extrabold">🛠️ 101 CLUP Admin</h1>
-          <p className="text-sm text-gray-600 mt-1">Ürünleri yönet • Foto/İçerik ekle • Aktif/Pasif</p>
+          <h1 className="text-2xl font-extrabold">{t("admin.title", { venue: venue.name })}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {t("admin.subtitle")}{" "}
+            <a className="underline" href={venueMenuPath(venue.slug)} target="_blank" rel="noreferrer">
+              {t("admin.openMenu")}
+            </a>
+          </p>
         </div>
         <div className="flex gap-3">
+          {listVenues().length > 1 && (
+            <select
+              className="px-3 py-2 rounded-xl border bg-white text-sm"
+              value={venue.slug}
+              onChange={(e) => switchVenue(e.target.value)}
+              aria-label={t("admin.venue")}
+            >
+              {listVenues().map((v) => (
+                <option key={v.slug} value={v.slug}>
+                  {v.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            className="px-3 py-2 rounded-xl border bg-white text-sm"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            aria-label={t("common.language")}
+          >
+            {LOCALES.map((l) => (
+              <option key={l} value={l}>
+                {LOCALE_LABELS[l]}
+              </option>
+            ))}
+          </select>
           <button
             onClick={() => load()}
             className="px-4 py-2 rounded-xl border bg-white hover:bg-gray-50 text-sm"
           >
-            Yenile
+            {t("common.refresh")}
           </button>
+          <span className="self-center text-xs text-gray-500">
+            👤 {session.username} • {t(`role.${session.role}`)}
+          </span>
           <button
-            onClick={() => setUnlocked(false)}
+            onClick={signOut}
             className="px-4 py-2 rounded-xl bg-black text-white text-sm"
           >
-            Çıkış
+            {t("admin.signOut")}
           </button>
         </div>
       </div>
 
       {/* Dashboard */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-5">
-        <StatCard title="Toplam Ürün" value={loading ? "…" : String(stats.total)} />
-        <StatCard title="Aktif" value={loading ? "…" : String(stats.active)} />
-        <StatCard title="Pasif" value={loading ? "…" : String(stats.passive)} />
-        <StatCard title="Kategori" value={loading ? "…" : String(stats.catCount)} />
+        <StatCard title={t("admin.stats.total")} value={loading ? "…" : formatNumber(stats.total, locale)} />
+        <StatCard title={t("admin.stats.active")} value={loading ? "…" : formatNumber(stats.active, locale)} />
+        <StatCard title={t("admin.stats.passive")} value={loading ? "…" : formatNumber(stats.passive, locale)} />
+        <StatCard
+          title={t("admin.stats.categories")}
+          value={loading ? "…" : formatNumber(stats.catCount, locale)}
+        />
       </div>
 
+      {/* Service requests */}
+      <ServiceRequestsSection key={venue.slug} api={api} />
+
+      {/* Incoming orders */}
+      <OrdersSection key={venue.slug} api={api} />
+
       {/* Filters */}
       <div className="bg-white rounded-2xl p-4 shadow mb-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
           <div>
-            <label className="text-sm text-gray-600">Ara</label>
+            <label className="text-sm text-gray-600">{t("admin.filter.search")}</label>
             <input
               className="w-full border rounded-xl px-3 py-2 mt-1"
               value={search}
               onChange={(e) => setSearch(e.target.value)}
-              placeholder="Ürün / kategori ara…"
+              placeholder={t("admin.filter.searchPlaceholder")}
             />
           </div>
 
           <div>
-            <label className="text-sm text-gray-600">Kategori</label>
+            <label className="text-sm text-gray-600">{t("admin.filter.category")}</label>
             <select
               className="w-full border rounded-xl px-3 py-2 mt-1 bg-white"
               value={categoryFilter}
               onChange={(e) => setCategoryFilter(e.target.value)}
             >
-              <option value="Tümü">Tümü</option>
+              <option value={ALL_CATEGORIES}>{t("common.allCategories")}</option>
               {categories.map((c) => (
                 <option key={c} value={c}>
                   {c}
@@ -379,169 +485,225 @@ export default function AdminPage() {
           </div>
 
           <div>
-            <label className="text-sm text-gray-600">Sırala</label>
+            <label className="text-sm text-gray-600">{t("admin.filter.sort")}</label>
             <select
               className="w-full border rounded-xl px-3 py-2 mt-1 bg-white"
               value={sortMode}
               onChange={(e) => setSortMode(e.target.value as SortMode)}
             >
-              <option value="default">Varsayılan</option>
-              <option value="price_asc">Fiyat: Artan</option>
-              <option value="price_desc">Fiyat: Azalan</option>
-              <option value="name_asc">İsim: A → Z</option>
+              <option value="default">{t("admin.sort.default")}</option>
+              <option value="price_asc">{t("admin.sort.priceAsc")}</option>
+              <option value="price_desc">{t("admin.sort.priceDesc")}</option>
+              <option value="name_asc">{t("admin.sort.nameAsc")}</option>
             </select>
           </div>
         </div>
 
         <div className="mt-3 flex items-center justify-between text-xs text-gray-500">
-          <span>{loading ? "Yükleniyor…" : `${filteredMenu.length} ürün`}</span>
+          <span>{loading ? t("common.loading") : t("common.itemCount", { count: filteredMenu.length })}</span>
           <button
             className="underline"
             type="button"
             onClick={() => {
               setSearch("");
-              setCategoryFilter("Tümü");
+              setCategoryFilter(ALL_CATEGORIES);
               setSortMode("default");
             }}
           >
-            Filtreleri temizle
+            {t("admin.filter.clear")}
           </button>
         </div>
       </div>
 
-      {/* Create form */}
-      <form onSubmit={createItem} className="bg-white rounded-2xl p-4 shadow mb-6 space-y-3">
-        <div className="flex items-center justify-between">
-          <h2 className="font-bold text-lg">➕ Yeni Ürün</h2>
-          {loading && <span className="text-sm text-gray-500">Kaydediliyor / yükleniyor…</span>}
-        </div>
+      {/* Categories */}
+      {allowed("categories.manage") && (
+        <CategoriesSection
+          key={venue.slug}
+          api={api}
+          venue={venue}
+          categories={categoryRecords}
+          items={menu}
+          onChanged={load}
+        />
+      )}
+
+      {/* Import / export */}
+      {(allowed("menu.create") || allowed("menu.edit")) && (
+        <MenuTransferSection
+          key={venue.slug}
+          api={api}
+          venue={venue}
+          menu={menu}
+          canCreate={allowed("menu.create")}
+          canEdit={allowed("menu.edit")}
+          onChanged={load}
+        />
+      )}
+
+      {/* Bulk prices */}
+      {allowed("menu.edit") && (
+        <BulkPriceSection key={venue.slug} api={api} menu={menu} categories={categories} onChanged={load} />
+      )}
+
+      {/* Price history report */}
+      {allowed("menu.edit") && <PriceReportSection key={venue.slug} api={api} menu={menu} />}
+
+      {/* Promotions */}
+      {allowed("menu.edit") && (
+        <PromotionsSection
+          key={venue.slug}
+          api={api}
+          menu={menu}
+          categories={categories}
+          timeZone={venueTimeZone(venue)}
+        />
+      )}
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
-          <div className="md:col-span-2">
-            <label className="text-sm text-gray-600">Ürün adı</label>
-            <input
-              className="w-full border rounded-xl px-3 py-2 mt-1"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="Hamburger"
-            />
+      {/* Create form */}
+      {allowed("menu.create") && (
+        <form onSubmit={createItem} className="bg-white rounded-2xl p-4 shadow mb-6 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-bold text-lg">{t("admin.newItem")}</h2>
+            {loading && <span className="text-sm text-gray-500">{t("admin.saving")}</span>}
           </div>
 
-          <div>
-            <label className="text-sm text-gray-600">Fiyat (₺)</label>
-            <input
-              className="w-full border rounded-xl px-3 py-2 mt-1"
-              type="number"
-              min={0}
-              value={price}
-              onChange={(e) => setPrice(e.target.value === "" ? 0 : Number(e.target.value))}
-            />
-          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+              <label className="text-sm text-gray-600">{t("admin.field.name")}</label>
+              <input
+                className="w-full border rounded-xl px-3 py-2 mt-1"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t("admin.field.namePlaceholder")}
+              />
+            </div>
 
-          <div>
-            <label className="text-sm text-gray-600">Kategori</label>
-            <input
-              className="w-full border rounded-xl px-3 py-2 mt-1"
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-              placeholder="Burger"
-              list="cats"
-            />
-            <datalist id="cats">
-              {categories.map((c) => (
-                <option key={c} value={c} />
-              ))}
-            </datalist>
-          </div>
-        </div>
+            <div>
+              <label className="text-sm text-gray-600">{t("admin.field.price")}</label>
+              <input
+                className="w-full border rounded-xl px-3 py-2 mt-1"
+                type="number"
+                min={0}
+                value={price}
+                onChange={(e) => setPrice(e.target.value === "" ? 0 : Number(e.target.value))}
+              />
+            </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
-          <div className="md:col-span-2">
-            <label className="text-sm text-gray-600">Fotoğraf URL (opsiyonel)</label>
-            <input
-              className="w-full border rounded-xl px-3 py-2 mt-1"
-              value={imageUrl}
-              onChange={(e) => setImageUrl(e.target.value)}
-              placeholder="https://...jpg / png"
-            />
+            <div>
+              <label className="text-sm text-gray-600">{t("admin.field.category")}</label>
+              <input
+                className="w-full border rounded-xl px-3 py-2 mt-1"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder={t("admin.field.categoryPlaceholder")}
+                list="cats"
+              />
+              <datalist id="cats">
+                {categories.map((c) => (
+                  <option key={c} value={c} />
+                ))}
+              </datalist>
+            </div>
           </div>
 
-          <div className="md:col-span-2">
-            <label className="text-sm text-gray-600">Açıklama / içerik (opsiyonel)</label>
-            <input
-              className="w-full border rounded-xl px-3 py-2 mt-1"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Örn: Dana köfte, cheddar, özel sos…"
-            />
-          </div>
-        </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+              <ImageUploadField
+                api={api}
+                value={imageUrl}
+                onChange={setImageUrl}
+                label={t("admin.field.photoOptional")}
+              />
+            </div>
 
-        {!!imageUrl.trim() && (
-          <div className="border rounded-2xl p-3 bg-gray-50">
-            <div className="text-xs text-gray-500 mb-2">Foto önizleme</div>
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img
-              src={imageUrl.trim()}
-              alt="preview"
-              className="w-full max-w-md h-40 object-cover rounded-xl border"
-              onError={(e) => {
-                (e.currentTarget as HTMLImageElement).style.display = "none";
-              }}
-            />
-            <div className="text-xs text-gray-500 mt-2">
-              Eğer resim görünmüyorsa URL hatalı olabilir.
+            <div className="md:col-span-2">
+              <label className="text-sm text-gray-600">{t("admin.field.descriptionOptional")}</label>
+              <input
+                className="w-full border rounded-xl px-3 py-2 mt-1"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder={t("admin.field.descriptionPlaceholder")}
+              />
             </div>
           </div>
-        )}
 
-        <div className="flex items-center justify-between">
-          <label className="flex items-center gap-2 text-sm">
-            <input type="checkbox" checked={isAvailable} onChange={(e) => setIsAvailable(e.target.checked)} />
-            Aktif (menüde görünsün)
-          </label>
+          <TranslationTabs
+            value={translations}
+            onChange={setTranslations}
+            baseName={name}
+            baseDescription={description}
+          />
 
-          <button className="bg-black text-white rounded-xl px-5 py-2 font-semibold">
-            Ürün Ekle
-          </button>
-        </div>
-      </form>
+          <DietaryFields
+            allergens={allergens}
+            tags={tags}
+            onAllergensChange={setAllergens}
+            onTagsChange={setTags}
+          />
+
+          <OptionGroupsEditor value={optionGroups} onChange={setOptionGroups} />
+
+          <AvailabilityEditor value={availability} onChange={setAvailability} timeZone={venueTimeZone(venue)} />
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={isAvailable} onChange={(e) => setIsAvailable(e.target.checked)} />
+              {t("admin.field.availableLong")}
+            </label>
+
+            <button className="bg-black text-white rounded-xl px-5 py-2 font-semibold">
+              {t("admin.addItem")}
+            </button>
+          </div>
+        </form>
+      )}
 
       {/* List */}
       <div className="bg-white rounded-2xl shadow p-4">
         <div className="flex items-center justify-between mb-3">
-          <h2 className="font-bold text-lg">📦 Ürünler</h2>
+          <h2 className="font-bold text-lg">{t("admin.items")}</h2>
           <span className="text-xs text-gray-500">
-            {loading ? "…" : `${filteredMenu.length} sonuç`}
+            {loading ? "…" : t("admin.resultCount", { count: filteredMenu.length })}
+            {allowed("menu.edit") && !loading && (
+              <> • {canReorder ? t("admin.reorderHint") : t("admin.reorderUnavailable")}</>
+            )}
           </span>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          {filteredMenu.map((item) => (
-            <div key={item.id} className="border rounded-2xl p-4 hover:shadow-sm transition bg-white">
+          {itemOrder.items.map((item) => (
+            <div
+              key={item.id}
+              {...itemOrder.rowProps(item.id, canReorder)}
+              className={`border rounded-2xl p-4 hover:shadow-sm transition bg-white ${
+                canReorder ? "cursor-grab" : ""
+              } ${itemOrder.dragId === item.id ? "opacity-50" : ""}`}
+            >
               <div className="flex items-start gap-3">
                 <div className="w-20 h-16 shrink-0 rounded-xl bg-gray-100 border overflow-hidden flex items-center justify-center">
                   {item.imageUrl ? (
                     // eslint-disable-next-line @next/next/no-img-element
                     <img
-                      src={item.imageUrl}
+                      src={thumbnailUrl(item.imageUrl)}
                       alt={item.name}
                       className="w-full h-full object-cover"
                     />
                   ) : (
-                    <span className="text-xs text-gray-400">No фото</span>
+                    <span className="text-xs text-gray-400">{t("admin.noPhoto")}</span>
                   )}
                 </div>
 
                 <div className="min-w-0 flex-1">
                   <div className="flex items-center justify-between gap-2">
-                    <div className="font-bold truncate">{item.name}</div>
-                    <div className="font-extrabold">{formatTRY(Number(item.price))}</div>
+                    <div className="font-bold truncate">
+                      <Highlight text={item.name} query={search} className={MARK} />
+                    </div>
+                    <div className="font-extrabold">{formatTRY(Number(item.price), locale)}</div>
                   </div>
 
-                  <div className="text-sm text-gray-600 mt-1 flex items-center gap-2">
+                  <div className="text-sm text-gray-600 mt-1 flex flex-wrap items-center gap-2">
                     <span className="px-2 py-0.5 rounded-full bg-gray-100 border text-xs">
-                      {item.category}
+                      <Highlight text={item.category} query={search} className={MARK} />
                     </span>
 
                     <span
@@ -551,16 +713,47 @@ export default function AdminPage() {
                           : "bg-gray-50 text-gray-600 border-gray-200"
                       }`}
                     >
-                      {item.isAvailable ? "Aktif" : "Pasif"}
+                      {item.isAvailable ? t("admin.stats.active") : t("admin.stats.passive")}
                     </span>
+
+                    {effectiveStatus.has(item.id) && (
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs border ${
+                          EFFECTIVE_STYLES[effectiveStatus.get(item.id)!.tone]
+                        }`}
+                      >
+                        {effectiveStatus.get(item.id)!.label}
+                      </span>
+                    )}
+
+                    {(item.tags?.length || item.allergens?.length) ? (
+                      <span className="text-xs truncate">
+                        {item.tags?.map((tag) => (
+                          <span key={tag} title={t(`dietary.${tag}`)}>
+                            {DIETARY_ICONS[tag]}
+                          </span>
+                        ))}
+                        {item.allergens?.map((code) => (
+                          <span key={code} title={t(`allergen.${code}`)} className="opacity-60">
+                            {ALLERGEN_ICONS[code]}
+                          </span>
+                        ))}
+                      </span>
+                    ) : null}
+
+                    {item.optionGroups?.length ? (
+                      <span className="px-2 py-0.5 rounded-full bg-gray-50 border text-xs">
+                        {t("options.groupCount", { count: item.optionGroups.length })}
+                      </span>
+                    ) : null}
                   </div>
 
                   {item.description?.trim() ? (
                     <div className="text-xs text-gray-500 mt-2 line-clamp-2">
-                      {item.description}
+                      <Highlight text={item.description} query={search} className={MARK} />
                     </div>
                   ) : (
-                    <div className="text-xs text-gray-400 mt-2">Açıklama yok</div>
+                    <div className="text-xs text-gray-400 mt-2">{t("admin.noDescription")}</div>
                   )}
                 </div>
               </div>
@@ -569,36 +762,47 @@ export default function AdminPage() {
                 <button
                   onClick={() => toggleAvailable(item)}
                   className="text-sm px-3 py-1.5 rounded-xl border hover:bg-gray-50"
-                  title="Aktif/Pasif değiştir"
+                  title={t("admin.toggleTitle")}
                 >
-                  {item.isAvailable ? "Pasif Yap" : "Aktif Yap"}
+                  {item.isAvailable ? t("admin.makePassive") : t("admin.makeActive")}
                 </button>
 
                 <div className="flex gap-2">
                   <button
                     onClick={() => openEditModal(item)}
-                    className="text-sm px-3 py-1.5 rounded-xl border hover:bg-gray-50"
+                    disabled={!allowed("menu.edit")}
+                    title={allowed("menu.edit") ? undefined : t("admin.noEditPermission")}
+                    className="text-sm px-3 py-1.5 rounded-xl border hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
                   >
-                    Düzenle
+                    {t("common.edit")}
                   </button>
 
-                  <button
-                    onClick={() => deleteItem(item.id)}
-                    className="text-sm px-3 py-1.5 rounded-xl border border-red-200 text-red-600 hover:bg-red-50"
-                  >
-                    Sil
-                  </button>
+                  {allowed("menu.delete") && (
+                    <button
+                      onClick={() => deleteItem(item.id)}
+                      className="text-sm px-3 py-1.5 rounded-xl border border-red-200 text-red-600 hover:bg-red-50"
+                    >
+                      {t("common.delete")}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
           ))}
 
           {filteredMenu.length === 0 && !loading && (
-            <div className="text-sm text-gray-500">Hiç ürün yok.</div>
+            <div className="text-sm text-gray-500">{t("admin.noItems")}</div>
           )}
         </div>
       </div>
 
+      {/* Table QR codes */}
+      {allowed("tables.manage") && (
+        <div className="mt-6">
+          <TableQrSection key={venue.slug} api={api} venue={venue} />
+        </div>
+      )}
+
       {/* Edit Modal */}
       {editOpen && editing ? (
         <div
@@ -606,12 +810,12 @@ export default function AdminPage() {
           onClick={closeEditModal}
         >
           <div
-            className="w-full max-w-2xl bg-white rounded-2xl p-4 shadow-lg"
+            className="w-full max-w-2xl bg-white rounded-2xl p-4 shadow-lg max-h-[90vh] overflow-y-auto"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex items-start justify-between gap-3">
               <div>
-                <div className="text-lg font-extrabold">✏️ Ürünü Düzenle</div>
+                <div className="text-lg font-extrabold">{t("admin.editTitle")}</div>
                 <div className="text-sm text-gray-600 mt-1">
                   #{editing.id} • {editing.name}
                 </div>
@@ -621,7 +825,7 @@ export default function AdminPage() {
                 className="text-gray-500 hover:text-black text-xl"
                 onClick={closeEditModal}
                 type="button"
-                aria-label="Kapat"
+                aria-label={t("common.close")}
               >
                 ✕
               </button>
@@ -629,7 +833,7 @@ export default function AdminPage() {
 
             <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3">
               <div className="md:col-span-2">
-                <label className="text-sm text-gray-600">Ürün adı</label>
+                <label className="text-sm text-gray-600">{t("admin.field.name")}</label>
                 <input
                   className="w-full border rounded-xl px-3 py-2 mt-1"
                   value={editName}
@@ -638,7 +842,7 @@ export default function AdminPage() {
               </div>
 
               <div>
-                <label className="text-sm text-gray-600">Fiyat (₺)</label>
+                <label className="text-sm text-gray-600">{t("admin.field.price")}</label>
                 <input
                   className="w-full border rounded-xl px-3 py-2 mt-1"
                   type="number"
@@ -649,7 +853,7 @@ export default function AdminPage() {
               </div>
 
               <div>
-                <label className="text-sm text-gray-600">Kategori</label>
+                <label className="text-sm text-gray-600">{t("admin.field.category")}</label>
                 <input
                   className="w-full border rounded-xl px-3 py-2 mt-1"
                   value={editCategory}
@@ -661,39 +865,59 @@ export default function AdminPage() {
 
             <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
               <div>
-                <label className="text-sm text-gray-600">Fotoğraf URL</label>
-                <input
-                  className="w-full border rounded-xl px-3 py-2 mt-1"
+                <ImageUploadField
+                  api={api}
                   value={editImageUrl}
-                  onChange={(e) => setEditImageUrl(e.target.value)}
+                  onChange={setEditImageUrl}
+                  label={t("admin.field.photo")}
                 />
-                {!!editImageUrl.trim() && (
-                  <div className="mt-2 border rounded-2xl p-2 bg-gray-50">
-                    <div className="text-xs text-gray-500 mb-2">Önizleme</div>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={editImageUrl.trim()}
-                      alt="preview"
-                      className="w-full h-44 object-cover rounded-xl border"
-                      onError={(e) => {
-                        (e.currentTarget as HTMLImageElement).style.display = "none";
-                      }}
-                    />
-                  </div>
-                )}
               </div>
 
               <div>
-                <label className="text-sm text-gray-600">Açıklama / içerik</label>
+                <label className="text-sm text-gray-600">{t("admin.field.description")}</label>
                 <textarea
                   className="w-full border rounded-xl px-3 py-2 mt-1 min-h-[120px]"
                   value={editDescription}
                   onChange={(e) => setEditDescription(e.target.value)}
-                  placeholder="Örn: Dana köfte, cheddar, özel sos…"
+                  placeholder={t("admin.field.descriptionPlaceholder")}
                 />
               </div>
             </div>
 
+            <div className="mt-3">
+              <TranslationTabs
+                value={editTranslations}
+                onChange={setEditTranslations}
+                baseName={editName}
+                baseDescription={editDescription}
+              />
+            </div>
+
+            <div className="mt-3">
+              <DietaryFields
+                allergens={editAllergens}
+                tags={editTags}
+                onAllergensChange={setEditAllergens}
+                onTagsChange={setEditTags}
+              />
+            </div>
+
+            <div className="mt-3">
+              <OptionGroupsEditor value={editOptionGroups} onChange={setEditOptionGroups} />
+            </div>
+
+            <div className="mt-3">
+              <AvailabilityEditor
+                value={editAvailability}
+                onChange={setEditAvailability}
+                timeZone={venueTimeZone(venue)}
+              />
+            </div>
+
+            <div className="mt-3">
+              <PriceHistoryPanel key={editing.id} api={api} item={editing} />
+            </div>
+
             <div className="mt-3 flex items-center justify-between">
               <label className="flex items-center gap-2 text-sm">
                 <input
@@ -701,7 +925,7 @@ export default function AdminPage() {
                   checked={editAvailable}
                   onChange={(e) => setEditAvailable(e.target.checked)}
                 />
-                Aktif
+                {t("admin.field.available")}
               </label>
 
               <div className="flex gap-2">
@@ -710,20 +934,20 @@ export default function AdminPage() {
                   type="button"
                   className="px-4 py-2 rounded-xl border hover:bg-gray-50"
                 >
-                  İptal
+                  {t("common.cancel")}
                 </button>
                 <button
                   onClick={saveEdit}
                   type="button"
                   className="px-4 py-2 rounded-xl bg-black text-white font-semibold"
                 >
-                  Kaydet
+                  {t("common.save")}
                 </button>
               </div>
             </div>
 
             <div className="mt-3 text-xs text-gray-500">
-              Kapatmak için: dışarı tıkla • ESC
+              {t("common.closeHint")}
             </div>
           </div>
         </div>
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+
+function move<T>(list: T[], from: number, to: number) {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Liste satırlarını sürükleyerek ya da ok tuşlarıyla sıralamak için. Sürükleme sırasında yerel
+ * taslak gösterilir; bırakınca `save` çağrılır ve ardından tekrar dışarıdan gelen listeye dönülür.
+ */
+export function useDragOrder<T extends { id: number }>(list: T[], save: (next: T[]) => Promise<void>) {
+  const [draft, setDraft] = useState<T[] | null>(null);
+  const [dragId, setDragId] = useState<number | null>(null);
+  const items = draft ?? list;
+
+  async function commit(next: T[]) {
+    setDraft(next);
+    try {
+      if (!next.every((x, i) => x.id === list[i]?.id)) await save(next);
+    } finally {
+      setDraft(null);
+    }
+  }
+
+  function rowProps(id: number, enabled: boolean) {
+    return {
+      draggable: enabled,
+      onDragStart(e: React.DragEvent) {
+        // Firefox veri olmadan sürüklemeyi başlatmıyor
+        e.dataTransfer.setData("text/plain", String(id));
+        setDragId(id);
+      },
+      onDragOver(e: React.DragEvent) {
+        e.preventDefault();
+        if (dragId === null || dragId === id) return;
+        const from = items.findIndex((x) => x.id === dragId);
+        const to = items.findIndex((x) => x.id === id);
+        if (from >= 0 && to >= 0) setDraft(move(items, from, to));
+      },
+      onDrop(e: React.DragEvent) {
+        e.preventDefault();
+      },
+      async onDragEnd() {
+        setDragId(null);
+        if (draft) await commit(draft);
+      },
+    };
+  }
+
+  return {
+    items,
+    dragId,
+    rowProps,
+    moveBy: (index: number, delta: number) => commit(move(items, index, index + delta)),
+  };
+}
@@ -0,0 +1,58 @@
+import { errorResponse, parseId, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createCategoriesApi, parseCategoryInput } from "@/lib/categoriesApi";
+import { createMenuApi } from "@/lib/menuApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "categories.manage", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz kategori id.");
+
+    const parsed = parseCategoryInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz kategori: ${parsed.reason}`);
+
+    const api = createCategoriesApi(venue.api);
+    const current = await api.get(id);
+    // Başka bir kategorinin adını almak iki kategorinin ürünlerini sessizce birleştirirdi
+    if (current.name !== parsed.input.name && (await api.list()).some((c) => c.name === parsed.input.name)) {
+      return errorResponse(409, "conflict", `"${parsed.input.name}" kategorisi zaten var.`);
+    }
+    // Form sırayı taşımaz; kayıttaki sıra korunur
+    await api.update(id, parsed.input, current.sortOrder, adminKey);
+
+    // Ürünler kategoriye adıyla bağlı; yeniden adlandırmada ürünler de taşınır
+    if (current.name !== parsed.input.name) {
+      const menu = createMenuApi(venue.api);
+      for (const item of await menu.list()) {
+        if (item.category.trim() !== current.name) continue;
+        await menu.update(item.id, { ...item, category: parsed.input.name }, item.sortOrder ?? 0, adminKey);
+      }
+    }
+
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "categories.manage", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz kategori id.");
+
+    const api = createCategoriesApi(venue.api);
+    const current = await api.get(id);
+    const used = (await createMenuApi(venue.api).list()).filter((x) => x.category.trim() === current.name);
+    if (used.length) {
+      return errorResponse(400, "bad_request", `"${current.name}" kategorisinde ${used.length} ürün var.`, {
+        itemCount: used.length,
+      });
+    }
+
+    await api.delete(id, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,20 @@
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createCategoriesApi } from "@/lib/categoriesApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "categories.manage", async ({ venue, adminKey }) => {
+    const ids = (await readJson(req))?.ids;
+    if (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+      return errorResponse(400, "bad_request", "ids pozitif tam sayı listesi olmalı.");
+    }
+    if (new Set(ids).size !== ids.length) {
+      return errorResponse(400, "bad_request", "ids tekrar eden değer içeriyor.");
+    }
+
+    await createCategoriesApi(venue.api).reorder(ids as number[], adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,29 @@
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createCategoriesApi, parseCategoryInput } from "@/lib/categoriesApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, null, async ({ venue }) => {
+    return Response.json(await createCategoriesApi(venue.api).list());
+  });
+}
+
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "categories.manage", async ({ venue, adminKey }) => {
+    const parsed = parseCategoryInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz kategori: ${parsed.reason}`);
+
+    const api = createCategoriesApi(venue.api);
+    const existing = await api.list();
+    if (existing.some((c) => c.name === parsed.input.name)) {
+      return errorResponse(409, "conflict", `"${parsed.input.name}" kategorisi zaten var.`);
+    }
+
+    // Yeni kategori listenin sonuna eklenir
+    const sortOrder = existing.reduce((max, c) => Math.max(max, c.sortOrder + 1), 0);
+    await api.create(parsed.input, sortOrder, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true }, { status: 201 });
+  });
+}
@@ -0,0 +1,27 @@
+import { can } from "@/lib/auth/roles";
+import { errorResponse, withAdmin } from "@/lib/bff";
+import { storeMenuImage } from "@/lib/imagePipeline";
+import { MAX_IMAGE_BYTES } from "@/lib/menuImages";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+/** multipart/form-data, alan adı "file"; yanıt { imageUrl, thumbnailUrl }. */
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, null, async ({ venue, session }) => {
+    // Fotoğraf hem yeni ürün formunda hem düzenlemede yüklenir
+    if (!can(session.role, "menu.create") && !can(session.role, "menu.edit")) {
+      return errorResponse(403, "forbidden", "Bu işlem için yetkiniz yok.", { permission: "menu.edit" });
+    }
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof File)) return errorResponse(400, "bad_request", "file alanında bir dosya yok.");
+    if (file.size > MAX_IMAGE_BYTES) {
+      return errorResponse(400, "bad_request", `Fotoğraf en fazla ${MAX_IMAGE_BYTES / 1024 / 1024} MB olabilir.`);
+    }
+
+    const stored = await storeMenuImage(venue.slug, Buffer.from(await file.arrayBuffer()));
+    if (!stored.ok) return errorResponse(400, "bad_request", `Geçersiz fotoğraf: ${stored.reason}`);
+    return Response.json(stored.image, { status: 201 });
+  });
+}
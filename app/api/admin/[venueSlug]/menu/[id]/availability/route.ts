@@ -0,0 +1,25 @@
+import { errorResponse, parseId, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createMenuApi } from "@/lib/menuApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+// Upstream'de kısmi güncelleme yok; güncel kaydı okuyup sadece isAvailable'ı değiştiririz ki
+// personel gövdeye başka alan koyarak fiyat/isim değiştiremesin.
+export async function PUT(req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "menu.toggleAvailability", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz ürün id.");
+
+    const isAvailable = (await readJson(req))?.isAvailable;
+    if (typeof isAvailable !== "boolean") {
+      return errorResponse(400, "bad_request", "isAvailable true/false olmalı.");
+    }
+
+    const api = createMenuApi(venue.api);
+    const current = await api.get(id);
+    await api.update(id, { ...current, isAvailable }, current.sortOrder ?? 0, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,69 @@
+import { errorResponse, parseId, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { removeMenuImage } from "@/lib/imagePipeline";
+import { createMenuApi, nextSortOrder, parseMenuItemInput } from "@/lib/menuApi";
+import { recordPriceChanges } from "@/lib/priceHistoryApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, null, async ({ venue }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz ürün id.");
+    return Response.json(await createMenuApi(venue.api).get(id));
+  });
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "menu.edit", async ({ venue, session, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz ürün id.");
+
+    const parsed = parseMenuItemInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz ürün: ${parsed.reason}`);
+
+    // Fiyat geçmişi için eski fiyat, depodan silinecek eski fotoğraf, korunacak sıra
+    const api = createMenuApi(venue.api);
+    const current = await api.get(id);
+    // Başka kategoriye taşınan ürün yeni kategorisinin sonuna eklenir
+    const sortOrder =
+      current.category.trim() === parsed.input.category.trim()
+        ? current.sortOrder ?? 0
+        : nextSortOrder(await api.list(), parsed.input.category);
+    await api.update(id, parsed.input, sortOrder, adminKey);
+    await recordPriceChanges(
+      venue.api,
+      [
+        {
+          menuItemId: id,
+          itemName: parsed.input.name,
+          oldPrice: current.price,
+          newPrice: parsed.input.price,
+          changedAt: new Date().toISOString(),
+          source: "edit",
+          changedBy: session.username,
+        },
+      ],
+      adminKey
+    );
+    if (current.imageUrl !== parsed.input.imageUrl) await removeMenuImage(current.imageUrl);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "menu.delete", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz ürün id.");
+
+    const api = createMenuApi(venue.api);
+    const current = await api.get(id);
+    await api.delete(id, adminKey);
+    await removeMenuImage(current.imageUrl);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,102 @@
+import { can } from "@/lib/auth/roles";
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { errorText } from "@/lib/http";
+import { createMenuApi, parseMenuItemInput, type MenuItemInput } from "@/lib/menuApi";
+import type { MenuImportResult } from "@/lib/menuSpreadsheet";
+import { recordPriceChanges, type PriceChangeInput } from "@/lib/priceHistoryApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+// Upstream'de toplu uç yok; önce bütün satırlar doğrulanır, biri bile bozuksa hiçbir şey yazılmaz.
+// Güncellemelerde dosyada olmayan alanlar (çeviri, alerjen, seçenek, sıra) güncel kayıttan gelir.
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "menu.edit", async ({ venue, session, adminKey }) => {
+    const body = await readJson(req);
+    const create = Array.isArray(body?.create) ? body.create : [];
+    const update = Array.isArray(body?.update) ? body.update : [];
+    if (create.length && !can(session.role, "menu.create")) {
+      return errorResponse(403, "forbidden", "Bu işlem için yetkiniz yok.", { permission: "menu.create" });
+    }
+
+    const api = createMenuApi(venue.api);
+    const current = await api.list();
+    const byId = new Map(current.map((x) => [x.id, x]));
+
+    const creates: MenuItemInput[] = [];
+    const updates: { id: number; input: MenuItemInput }[] = [];
+    const problems: { kind: "create" | "update"; index: number; reason: string }[] = [];
+
+    create.forEach((fields: unknown, index: number) => {
+      const parsed = parseMenuItemInput(fields);
+      if (parsed.ok) creates.push(parsed.input);
+      else problems.push({ kind: "create", index, reason: parsed.reason });
+    });
+
+    update.forEach((row: unknown, index: number) => {
+      const { id, fields } = (row && typeof row === "object" ? row : {}) as Record<string, unknown>;
+      const existing = typeof id === "number" ? byId.get(id) : undefined;
+      if (!existing || updates.some((u) => u.id === existing.id)) {
+        problems.push({ kind: "update", index, reason: existing ? "aynı ürün iki kez var" : "ürün bulunamadı" });
+        return;
+      }
+
+      const parsed = parseMenuItemInput({ ...existing, ...(fields && typeof fields === "object" ? fields : {}) });
+      if (parsed.ok) updates.push({ id: existing.id, input: parsed.input });
+      else problems.push({ kind: "update", index, reason: parsed.reason });
+    });
+
+    if (problems.length) {
+      return errorResponse(400, "bad_request", `${problems.length} satır geçersiz, hiçbir değişiklik yapılmadı.`, {
+        problems,
+      });
+    }
+
+    // Yeni ve başka kategoriye taşınan ürünler kategorilerinin sonuna, dosyadaki sırayla eklenir
+    const nextOrder = new Map<string, number>();
+    for (const x of current) {
+      const key = x.category.trim();
+      nextOrder.set(key, Math.max(nextOrder.get(key) ?? 0, (x.sortOrder ?? 0) + 1));
+    }
+
+    const result: MenuImportResult = { created: 0, updated: 0, failed: [] };
+    for (const input of creates) {
+      const key = input.category.trim();
+      const sortOrder = nextOrder.get(key) ?? 0;
+      try {
+        await api.create(input, sortOrder, adminKey);
+        nextOrder.set(key, sortOrder + 1);
+        result.created++;
+      } catch (err) {
+        result.failed.push({ name: input.name, message: errorText(err) });
+      }
+    }
+    const changes: PriceChangeInput[] = [];
+    const changedAt = new Date().toISOString();
+    for (const { id, input } of updates) {
+      const before = byId.get(id)!;
+      const key = input.category.trim();
+      const moved = before.category.trim() !== key;
+      const sortOrder = moved ? nextOrder.get(key) ?? 0 : before.sortOrder ?? 0;
+      try {
+        await api.update(id, input, sortOrder, adminKey);
+        if (moved) nextOrder.set(key, sortOrder + 1);
+        result.updated++;
+        changes.push({
+          menuItemId: id,
+          itemName: input.name,
+          oldPrice: before.price,
+          newPrice: input.price,
+          changedAt,
+          source: "import",
+          changedBy: session.username,
+        });
+      } catch (err) {
+        result.failed.push({ name: input.name, message: errorText(err) });
+      }
+    }
+
+    await recordPriceChanges(venue.api, changes, adminKey);
+    if (result.created || result.updated) revalidateVenueMenu(venue);
+    return Response.json(result);
+  });
+}
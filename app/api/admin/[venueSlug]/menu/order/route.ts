@@ -0,0 +1,33 @@
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createMenuApi } from "@/lib/menuApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+// Sıra kategori içinde anlamlı; liste o kategorinin ürünlerinin tamamı olmalı ki
+// eksik kalan ürünler eski sortOrder'larıyla araya karışmasın.
+export async function PUT(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "menu.edit", async ({ venue, adminKey }) => {
+    const body = await readJson(req);
+    const category = typeof body?.category === "string" ? body.category.trim() : "";
+    const ids = body?.ids;
+    if (!category) return errorResponse(400, "bad_request", "category eksik.");
+    if (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+      return errorResponse(400, "bad_request", "ids pozitif tam sayı listesi olmalı.");
+    }
+    if (new Set(ids).size !== ids.length) {
+      return errorResponse(400, "bad_request", "ids tekrar eden değer içeriyor.");
+    }
+
+    const api = createMenuApi(venue.api);
+    const inCategory = (await api.list()).filter((x) => x.category.trim() === category).map((x) => x.id);
+    if (inCategory.length !== ids.length || !inCategory.every((id) => ids.includes(id))) {
+      return errorResponse(400, "bad_request", `ids "${category}" kategorisindeki ürünlerle eşleşmiyor.`, {
+        expected: inCategory.length,
+      });
+    }
+
+    await api.reorder(ids as number[], adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,53 @@
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { errorText } from "@/lib/http";
+import { createMenuApi } from "@/lib/menuApi";
+import { isPriceUpdate, type BulkPriceResult } from "@/lib/priceAdjust";
+import { recordPriceChanges, type PriceChangeInput } from "@/lib/priceHistoryApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+// Sadece fiyat değişir; diğer alanlar güncel kayıttan okunur. Liste önce bütünüyle doğrulanır.
+export async function PUT(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "menu.edit", async ({ venue, session, adminKey }) => {
+    const prices = (await readJson(req))?.prices;
+    if (!Array.isArray(prices) || prices.length === 0 || !prices.every(isPriceUpdate)) {
+      return errorResponse(400, "bad_request", "prices { id, price } listesi olmalı; fiyat negatif olamaz.");
+    }
+    if (new Set(prices.map((p) => p.id)).size !== prices.length) {
+      return errorResponse(400, "bad_request", "prices aynı ürünü birden fazla içeriyor.");
+    }
+
+    const api = createMenuApi(venue.api);
+    const byId = new Map((await api.list()).map((x) => [x.id, x]));
+    const unknown = prices.filter((p) => !byId.has(p.id)).map((p) => p.id);
+    if (unknown.length) {
+      return errorResponse(400, "bad_request", "Bazı ürünler menüde yok, hiçbir fiyat değişmedi.", { unknown });
+    }
+
+    const result: BulkPriceResult = { updated: 0, failed: [] };
+    const changes: PriceChangeInput[] = [];
+    const changedAt = new Date().toISOString();
+    for (const { id, price } of prices) {
+      const current = byId.get(id)!;
+      try {
+        await api.update(id, { ...current, price }, current.sortOrder ?? 0, adminKey);
+        result.updated++;
+        changes.push({
+          menuItemId: id,
+          itemName: current.name,
+          oldPrice: current.price,
+          newPrice: price,
+          changedAt,
+          source: "bulk",
+          changedBy: session.username,
+        });
+      } catch (err) {
+        result.failed.push({ name: current.name, message: errorText(err) });
+      }
+    }
+
+    await recordPriceChanges(venue.api, changes, adminKey);
+    if (result.updated) revalidateVenueMenu(venue);
+    return Response.json(result);
+  });
+}
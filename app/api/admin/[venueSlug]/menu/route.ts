@@ -0,0 +1,24 @@
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createMenuApi, nextSortOrder, parseMenuItemInput } from "@/lib/menuApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, null, async ({ venue }) => {
+    return Response.json(await createMenuApi(venue.api).list());
+  });
+}
+
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "menu.create", async ({ venue, adminKey }) => {
+    const parsed = parseMenuItemInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz ürün: ${parsed.reason}`);
+
+    // Yeni ürün kendi kategorisinin sonuna eklenir
+    const api = createMenuApi(venue.api);
+    const sortOrder = nextSortOrder(await api.list(), parsed.input.category);
+    await api.create(parsed.input, sortOrder, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true }, { status: 201 });
+  });
+}
@@ -0,0 +1,18 @@
+import { errorResponse, parseId, readJson, withAdmin } from "@/lib/bff";
+import { createOrdersApi, isOrderStatus } from "@/lib/ordersApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "orders.manage", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz sipariş id.");
+
+    const status = (await readJson(req))?.status;
+    if (!isOrderStatus(status)) return errorResponse(400, "bad_request", "Geçersiz sipariş durumu.");
+
+    await createOrdersApi(venue.api).setStatus(id, status, adminKey);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,10 @@
+import { withAdmin } from "@/lib/bff";
+import { createOrdersApi } from "@/lib/ordersApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "orders.manage", async ({ venue, adminKey }) => {
+    return Response.json(await createOrdersApi(venue.api).list(adminKey));
+  });
+}
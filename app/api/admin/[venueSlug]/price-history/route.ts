@@ -0,0 +1,27 @@
+import { errorResponse, parseId, withAdmin } from "@/lib/bff";
+import { createPriceHistoryApi, type PriceHistoryQuery } from "@/lib/priceHistoryApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+/** ?menuItemId= tek ürünün zaman çizelgesi, ?from=&to= (ISO) rapor aralığı. */
+export async function GET(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, null, async ({ venue, adminKey }) => {
+    const search = new URL(req.url).searchParams;
+    const query: PriceHistoryQuery = {};
+
+    const rawId = search.get("menuItemId");
+    if (rawId) {
+      const id = parseId(rawId);
+      if (!id) return errorResponse(400, "bad_request", "Geçersiz ürün id.");
+      query.menuItemId = id;
+    }
+    for (const key of ["from", "to"] as const) {
+      const value = search.get(key);
+      if (!value) continue;
+      if (Number.isNaN(Date.parse(value))) return errorResponse(400, "bad_request", `${key} geçerli bir tarih değil.`);
+      query[key] = value;
+    }
+
+    return Response.json(await createPriceHistoryApi(venue.api).list(query, adminKey));
+  });
+}
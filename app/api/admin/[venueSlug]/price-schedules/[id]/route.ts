@@ -0,0 +1,20 @@
+import { errorResponse, parseId, withAdmin } from "@/lib/bff";
+import { createPriceSchedulesApi } from "@/lib/priceSchedulesApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "menu.edit", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz plan id.");
+
+    const api = createPriceSchedulesApi(venue.api);
+    if (!(await api.listPending(adminKey)).some((s) => s.id === id)) {
+      return errorResponse(404, "not_found", "Plan bulunamadı ya da zaten uygulandı.");
+    }
+
+    await api.delete(id, adminKey);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,52 @@
+import { venueMidnight } from "@/lib/availability";
+import { errorResponse, readJson, withAdmin } from "@/lib/bff";
+import { createMenuApi } from "@/lib/menuApi";
+import { isPriceUpdate } from "@/lib/priceAdjust";
+import { createPriceSchedulesApi } from "@/lib/priceSchedulesApi";
+import { venueTimeZone } from "@/lib/venues";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+// Sadece okur; planları yalnızca cron uygular, iki çağrı aynı planı aynı anda uygulamasın.
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, null, async ({ venue, adminKey }) => {
+    return Response.json(await createPriceSchedulesApi(venue.api).listPending(adminKey));
+  });
+}
+
+/**
+ * Gövde: { effectiveDate: "YYYY-MM-DD", items: [{ id, price }] }; aynı anda birden fazla ürüne plan.
+ * Plan o günün mekan saatiyle 00:00'ına yazılır; cron günde bir kez, o saatte çalışır.
+ */
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "menu.edit", async ({ venue, session, adminKey }) => {
+    const body = await readJson(req);
+    const effectiveAt =
+      typeof body?.effectiveDate === "string" ? venueMidnight(venueTimeZone(venue), body.effectiveDate) : null;
+    if (effectiveAt === null) return errorResponse(400, "bad_request", "effectiveDate YYYY-MM-DD biçiminde olmalı.");
+    if (effectiveAt <= Date.now()) return errorResponse(400, "bad_request", "effectiveDate yarın ya da sonrası olmalı.");
+
+    const items = body?.items;
+    if (!Array.isArray(items) || items.length === 0 || !items.every(isPriceUpdate)) {
+      return errorResponse(400, "bad_request", "items { id, price } listesi olmalı; fiyat negatif olamaz.");
+    }
+    if (new Set(items.map((x) => x.id)).size !== items.length) {
+      return errorResponse(400, "bad_request", "items aynı ürünü birden fazla içeriyor.");
+    }
+
+    const known = new Set((await createMenuApi(venue.api).list()).map((x) => x.id));
+    const unknown = items.filter((x) => !known.has(x.id)).map((x) => x.id);
+    if (unknown.length) {
+      return errorResponse(400, "bad_request", "Bazı ürünler menüde yok, hiçbir plan oluşturulmadı.", { unknown });
+    }
+
+    const api = createPriceSchedulesApi(venue.api);
+    for (const { id, price } of items) {
+      await api.create(
+        { menuItemId: id, price, effectiveAt: new Date(effectiveAt).toISOString(), createdBy: session.username },
+        adminKey
+      );
+    }
+    return Response.json({ created: items.length }, { status: 201 });
+  });
+}
@@ -0,0 +1,31 @@
+import { errorResponse, parseId, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createPromotionsApi, parsePromotionInput } from "@/lib/promotionsApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "menu.edit", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz kampanya id.");
+
+    const parsed = parsePromotionInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz kampanya: ${parsed.reason}`);
+
+    await createPromotionsApi(venue.api).update(id, parsed.input, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "menu.edit", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz kampanya id.");
+
+    await createPromotionsApi(venue.api).delete(id, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true });
+  });
+}
@@ -0,0 +1,21 @@
+import { errorResponse, readJson, revalidateVenueMenu, withAdmin } from "@/lib/bff";
+import { createPromotionsApi, parsePromotionInput } from "@/lib/promotionsApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, null, async ({ venue }) => {
+    return Response.json(await createPromotionsApi(venue.api).list());
+  });
+}
+
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "menu.edit", async ({ venue, adminKey }) => {
+    const parsed = parsePromotionInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz kampanya: ${parsed.reason}`);
+
+    await createPromotionsApi(venue.api).create(parsed.input, adminKey);
+    revalidateVenueMenu(venue);
+    return Response.json({ ok: true }, { status: 201 });
+  });
+}
@@ -0,0 +1,15 @@
+import { errorResponse, parseId, withAdmin } from "@/lib/bff";
+import { createServiceRequestsApi } from "@/lib/serviceRequestsApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function PUT(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "service.manage", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz çağrı id.");
+
+    await createServiceRequestsApi(venue.api).acknowledge(id, adminKey);
+    return Response.json({ ok: true });
+  });
+}
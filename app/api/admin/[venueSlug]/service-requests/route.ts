@@ -0,0 +1,10 @@
+import { withAdmin } from "@/lib/bff";
+import { createServiceRequestsApi } from "@/lib/serviceRequestsApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "service.manage", async ({ venue, adminKey }) => {
+    return Response.json(await createServiceRequestsApi(venue.api).listOpen(adminKey));
+  });
+}
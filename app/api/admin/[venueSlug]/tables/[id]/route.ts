@@ -0,0 +1,15 @@
+import { errorResponse, parseId, withAdmin } from "@/lib/bff";
+import { createTablesApi } from "@/lib/tablesApi";
+
+type Ctx = { params: Promise<{ venueSlug: string; id: string }> };
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { venueSlug, id: rawId } = await params;
+  return withAdmin(venueSlug, "tables.manage", async ({ venue, adminKey }) => {
+    const id = parseId(rawId);
+    if (!id) return errorResponse(400, "bad_request", "Geçersiz masa id.");
+
+    await createTablesApi(venue.api).delete(id, adminKey);
+    return Response.json({ ok: true });
+  });
+}
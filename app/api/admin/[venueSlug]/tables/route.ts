@@ -0,0 +1,27 @@
+import { errorResponse, readJson, withAdmin } from "@/lib/bff";
+import { createTablesApi, parseTablesInput } from "@/lib/tablesApi";
+
+type Ctx = { params: Promise<{ venueSlug: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "tables.manage", async ({ venue, adminKey }) => {
+    return Response.json(await createTablesApi(venue.api).list(adminKey));
+  });
+}
+
+// Zaten olan masa numarası tekrar eklenmez; bölgesi farklıysa yenisiyle güncellenir.
+export async function POST(req: Request, { params }: Ctx) {
+  return withAdmin((await params).venueSlug, "tables.manage", async ({ venue, adminKey }) => {
+    const parsed = parseTablesInput(await readJson(req));
+    if (!parsed.ok) return errorResponse(400, "bad_request", `Geçersiz masa: ${parsed.reason}`);
+
+    const api = createTablesApi(venue.api);
+    const byNumber = new Map((await api.list(adminKey)).map((t) => [t.number, t]));
+    for (const input of parsed.input) {
+      const existing = byNumber.get(input.number);
+      if (!existing) await api.create(input, adminKey);
+      else if (existing.zone !== input.zone) await api.update(existing.id, input, adminKey);
+    }
+    return Response.json({ ok: true }, { status: 201 });
+  });
+}
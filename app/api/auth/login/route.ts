@@ -0,0 +1,34 @@
+import { verifyCredentials } from "@/lib/auth/users";
+import { clearFailures, lockedFor, recordFailure } from "@/lib/auth/lockout";
+import { startSession } from "@/lib/auth/session";
+import { clientIp } from "@/lib/bff";
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const username = typeof body?.username === "string" ? body.username.trim() : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+
+  if (!username || !password) {
+    return Response.json({ message: "Kullanıcı adı ve şifre gerekli." }, { status: 400 });
+  }
+
+  const lockKey = `${clientIp(req)}:${username.toLowerCase()}`;
+  const locked = lockedFor(lockKey);
+  if (locked > 0) {
+    const minutes = Math.ceil(locked / 60_000);
+    return Response.json(
+      { message: `Çok fazla hatalı deneme. ${minutes} dk sonra tekrar deneyin.` },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(locked / 1000)) } }
+    );
+  }
+
+  const user = verifyCredentials(username, password);
+  if (!user) {
+    recordFailure(lockKey);
+    return Response.json({ message: "Kullanıcı adı veya şifre hatalı." }, { status: 401 });
+  }
+
+  clearFailures(lockKey);
+  const session = await startSession(user.username, user.role);
+  return Response.json({ username: session.username, role: session.role, expiresAt: session.exp });
+}
@@ -0,0 +1,14 @@
+import { getSession } from "@/lib/auth/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return Response.json({ message: "Oturum yok ya da süresi doldu." }, { status: 401 });
+  }
+
+  return Response.json({
+    username: session.username,
+    role: session.role,
+    expiresAt: session.exp,
+  });
+}
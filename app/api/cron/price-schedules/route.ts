@@ -0,0 +1,26 @@
+import { errorResponse, secretMatches } from "@/lib/bff";
+import { applyDueSchedules, type ScheduleRun } from "@/lib/priceScheduler";
+import { listVenues } from "@/lib/venues";
+
+// Vercel Cron "Authorization: Bearer <CRON_SECRET>" gönderir; başka bir zamanlayıcı da aynı başlıkla çağırabilir.
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !secretMatches(req.headers.get("authorization"), `Bearer ${secret}`)) {
+    return errorResponse(401, "unauthorized", "Yetkisiz.");
+  }
+
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return errorResponse(500, "server_error", "ADMIN_API_KEY tanımlı değil.");
+
+  // Bir mekanın API'si düşükse diğerleri yine işlensin
+  const results: Record<string, ScheduleRun | { error: string }> = {};
+  for (const venue of listVenues()) {
+    try {
+      results[venue.slug] = await applyDueSchedules(venue, adminKey);
+    } catch (err) {
+      results[venue.slug] = { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  return Response.json({ at: Date.now(), venues: results });
+}
@@ -0,0 +1,63 @@
+import { venueClock } from "@/lib/availability";
+import { createCategoriesApi, fallbackCategories } from "@/lib/categoriesApi";
+import { createMenuApi } from "@/lib/menuApi";
+import { priceOrder } from "@/lib/orderPricing";
+import { createOrdersApi, parseOrderRequest } from "@/lib/ordersApi";
+import { createPromotionsApi } from "@/lib/promotionsApi";
+import { createRateLimiter } from "@/lib/rateLimit";
+import { getVenue, venueTimeZone } from "@/lib/venues";
+
+// Aynı masadan dakikada en fazla üç sipariş; yanlışlıkla çift gönderim ve masa adına spam için
+const limiter = createRateLimiter({ windowMs: 60_000, max: 3 });
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const venue = getVenue(typeof body?.venue === "string" ? body.venue : "");
+  const parsed = parseOrderRequest(body);
+
+  if (!venue || !parsed.ok) {
+    return Response.json({ message: `Geçersiz istek${parsed.ok ? "" : `: ${parsed.reason}`}.` }, { status: 400 });
+  }
+
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return Response.json({ message: "Sipariş şu an alınamıyor." }, { status: 500 });
+
+  const key = `${venue.slug}:${parsed.input.table}`;
+  const limit = limiter.check(key);
+  if (!limit.ok) {
+    const seconds = Math.ceil(limit.retryAfterMs / 1000);
+    return Response.json(
+      { message: `Çok fazla sipariş gönderildi. ${seconds} sn sonra tekrar deneyebilirsiniz.`, retryAfter: seconds },
+      { status: 429, headers: { "Retry-After": String(seconds) } }
+    );
+  }
+
+  try {
+    // Fiyat, durum ve kampanyalar menünün o anki hâlinden; ISR cache'i burada kullanılmaz.
+    // Kampanya ya da kategoriler alınamazsa sipariş tam fiyatla ya da pasif/saat dışı
+    // kategoriden geçmez, 502 döner.
+    const [items, records, promotions] = await Promise.all([
+      createMenuApi(venue.api).list({ retries: 1 }),
+      createCategoriesApi(venue.api).list({ retries: 1 }),
+      createPromotionsApi(venue.api).list({ retries: 1 }),
+    ]);
+    const priced = priceOrder(parsed.input, {
+      items,
+      // Henüz kayıt yoksa misafir menüsü de ayarlardaki (hepsi aktif) listeyi kullanır
+      categories: records.length ? records : fallbackCategories(venue),
+      promotions,
+      clock: venueClock(venueTimeZone(venue)),
+    });
+    if (!priced.ok) {
+      return Response.json({ message: `Sipariş alınamadı: ${priced.reason}.` }, { status: 409 });
+    }
+
+    const order = await createOrdersApi(venue.api).submit(priced.input, adminKey);
+    return Response.json(order, { status: 201 });
+  } catch (err) {
+    // Upstream düştüyse misafir hemen tekrar deneyebilsin
+    limiter.reset(key);
+    console.error("[orders] upstream hatası", err);
+    return Response.json({ message: "Sipariş iletilemedi, lütfen tekrar deneyin." }, { status: 502 });
+  }
+}
@@ -0,0 +1,21 @@
+import { getSession } from "@/lib/auth/session";
+import { errorResponse, revalidateVenueMenu, secretMatches } from "@/lib/bff";
+import { getVenue } from "@/lib/venues";
+
+// Admin yazmaları zaten kendi route'larında revalidate ediyor; bu uç dış sistemler
+// (API webhook vs.) REVALIDATE_SECRET ile ya da oturumlu bir admin elle tetiklemek için.
+export async function POST(req: Request) {
+  const bySecret = secretMatches(req.headers.get("x-revalidate-secret"), process.env.REVALIDATE_SECRET);
+
+  if (!bySecret && !(await getSession())) {
+    return errorResponse(401, "unauthorized", "Yetkisiz.");
+  }
+
+  const slug = new URL(req.url).searchParams.get("venue") ?? "";
+  const venue = getVenue(slug);
+  if (!venue) return errorResponse(404, "not_found", `Bilinmeyen mekan: ${slug}`);
+
+  revalidateVenueMenu(venue);
+
+  return Response.json({ revalidated: true, venue: venue.slug, at: Date.now() });
+}
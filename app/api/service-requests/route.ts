@@ -0,0 +1,41 @@
+import { createRateLimiter } from "@/lib/rateLimit";
+import { createServiceRequestsApi, isServiceRequestKind } from "@/lib/serviceRequestsApi";
+import { isValidTableNumber } from "@/lib/tables";
+import { getVenue } from "@/lib/venues";
+
+// Aynı masadan aynı çağrı dakikada bir kez; tuşa arka arkaya basmak personeli boğmasın.
+const limiter = createRateLimiter({ windowMs: 60_000, max: 1 });
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const venue = getVenue(typeof body?.venue === "string" ? body.venue : "");
+  const table = typeof body?.table === "string" ? body.table.trim() : "";
+  const kind = body?.kind;
+
+  if (!venue || !isValidTableNumber(table) || !isServiceRequestKind(kind)) {
+    return Response.json({ message: "Geçersiz istek." }, { status: 400 });
+  }
+
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return Response.json({ message: "Çağrı şu an iletilemiyor." }, { status: 500 });
+
+  const key = `${venue.slug}:${table}:${kind}`;
+  const limit = limiter.check(key);
+  if (!limit.ok) {
+    const seconds = Math.ceil(limit.retryAfterMs / 1000);
+    return Response.json(
+      { message: `Çağrınız zaten iletildi. ${seconds} sn sonra tekrar deneyebilirsiniz.`, retryAfter: seconds },
+      { status: 429, headers: { "Retry-After": String(seconds) } }
+    );
+  }
+
+  try {
+    const created = await createServiceRequestsApi(venue.api).create(table, kind, adminKey);
+    return Response.json(created, { status: 201 });
+  } catch (err) {
+    // Upstream düştüyse misafir hemen tekrar deneyebilsin
+    limiter.reset(key);
+    console.error("[service-requests] upstream hatası", err);
+    return Response.json({ message: "Çağrı iletilemedi, lütfen tekrar deneyin." }, { status: 502 });
+  }
+}
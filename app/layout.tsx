@@ -2,8 +2,11 @@
 
 // DEPLOY_TEST_123456
 
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorker from "./ServiceWorker";
+import { THEME_COLOR, venueMetadata } from "@/lib/pwa";
+import { getDefaultVenue } from "@/lib/venues";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -16,9 +19,11 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+// /menu/[venueSlug] kendi mekanının adı, manifest'i ve ikonuyla bunu ezer
+export const metadata: Metadata = venueMetadata(getDefaultVenue());
+
+export const viewport: Viewport = {
+  themeColor: THEME_COLOR,
 };
 
 export default function RootLayout({
@@ -27,11 +32,12 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="tr">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
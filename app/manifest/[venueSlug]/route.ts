@@ -0,0 +1,18 @@
+import { venueManifest } from "@/lib/pwa";
+import { getVenue, listVenues } from "@/lib/venues";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listVenues().map((v) => ({ venueSlug: v.slug }));
+}
+
+// Mekanın web app manifest'i; sayfalar metadata.manifest ile buraya bağlanır (lib/pwa.ts).
+export async function GET(_req: Request, { params }: { params: Promise<{ venueSlug: string }> }) {
+  const venue = getVenue((await params).venueSlug);
+  if (!venue) return new Response("Not found", { status: 404 });
+
+  return new Response(JSON.stringify(venueManifest(venue)), {
+    headers: { "Content-Type": "application/manifest+json" },
+  });
+}
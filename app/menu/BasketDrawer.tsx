@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { formatTRY } from "@/lib/format";
+import { errorText } from "@/lib/http";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { placeOrder } from "@/lib/ordersApi";
+import type { Venue } from "@/lib/venues";
+import type { Basket } from "./useBasket";
+
+type Props = {
+  venue: Venue;
+  basket: Basket;
+  /** QR'dan gelen masa; yoksa sipariş gönderilemez. */
+  table: string | null;
+  /** menuItemId → misafirin dilindeki ad; satırdaki ad mutfak için Türkçe kalır. */
+  localNames?: Map<number, string>;
+};
+
+export default function BasketDrawer({ venue, basket, table, localNames }: Props) {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sentOrderId, setSentOrderId] = useState<number | null>(null);
+
+  async function submit() {
+    if (!table || basket.lines.length === 0) return;
+
+    setSending(true);
+    try {
+      const order = await placeOrder(venue.slug, {
+        table,
+        note,
+        lines: basket.lines.map((l) => ({
+          menuItemId: l.menuItemId,
+          quantity: l.quantity,
+          note: l.note,
+          options: l.selection,
+        })),
+      });
+      basket.clear();
+      setNote("");
+      setSentOrderId(order.id);
+    } catch (err) {
+      alert(`${t("basket.submitFailed")}\n${errorText(err)}`);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  if (!open) {
+    if (basket.count === 0) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-30 px-5 py-3 rounded-full bg-[#E6B566] text-white font-semibold shadow-lg"
+      >
+        {t("basket.button", { count: basket.count, total: formatTRY(basket.total, locale) })}
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-3"
+      onClick={() => setOpen(false)}
+    >
+      <div
+        className="w-full max-w-lg bg-white rounded-2xl p-4 max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <div className="text-lg font-bold">{t("basket.title")}</div>
+            <div className="text-sm text-stone-500 mt-1">
+              {table ? t("common.table", { table }) : t("basket.noTable")}
+            </div>
+          </div>
+          <button className="text-xl" onClick={() => setOpen(false)} aria-label={t("common.close")} type="button">
+            ✕
+          </button>
+        </div>
+
+        {sentOrderId !== null && basket.lines.length === 0 ? (
+          <div className="mt-6 text-center space-y-2">
+            <div className="text-2xl">✅</div>
+            <div className="font-semibold">{t("basket.orderReceived", { id: sentOrderId })}</div>
+            <div className="text-sm text-stone-500">{t("basket.orderReceivedHint")}</div>
+          </div>
+        ) : basket.lines.length === 0 ? (
+          <div className="mt-6 text-center text-sm text-stone-500">{t("basket.empty")}</div>
+        ) : (
+          <>
+            <div className="mt-4 divide-y divide-stone-100">
+              {basket.lines.map((l) => (
+                <div key={l.key} className="py-3">
+                  <div className="flex justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate">{localNames?.get(l.menuItemId) ?? l.name}</div>
+                      {l.options?.length ? (
+                        <div className="text-xs text-stone-500 truncate">{l.options.join(", ")}</div>
+                      ) : null}
+                    </div>
+                    <div className="font-bold shrink-0">{formatTRY(l.unitPrice * l.quantity, locale)}</div>
+                  </div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => basket.setQuantity(l.key, l.quantity - 1)}
+                      className="w-8 h-8 rounded-full border border-stone-200"
+                      aria-label={t("basket.decrease")}
+                    >
+                      −
+                    </button>
+                    <span className="w-6 text-center text-sm">{l.quantity}</span>
+                    <button
+                      type="button"
+                      onClick={() => basket.setQuantity(l.key, l.quantity + 1)}
+                      className="w-8 h-8 rounded-full border border-stone-200"
+                      aria-label={t("basket.increase")}
+                    >
+                      +
+                    </button>
+                    <input
+                      className="flex-1 min-w-0 rounded-xl px-3 py-1.5 border border-stone-200 text-sm"
+                      value={l.note}
+                      onChange={(e) => basket.setNote(l.key, e.target.value)}
+                      placeholder={t("basket.lineNotePlaceholder")}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <textarea
+              className="mt-3 w-full rounded-xl px-3 py-2 border border-stone-200 text-sm"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t("basket.orderNotePlaceholder")}
+            />
+
+            <div className="mt-3 flex items-center justify-between">
+              <span className="text-sm text-stone-500">{t("common.total")}</span>
+              <span className="text-xl font-extrabold text-[#E6B566]">{formatTRY(basket.total, locale)}</span>
+            </div>
+
+            {!table && (
+              <div className="mt-3 text-xs text-amber-700">
+                {t("basket.scanQr")}
+              </div>
+            )}
+
+            <button
+              type="button"
+              disabled={!table || sending}
+              onClick={submit}
+              className="mt-3 w-full rounded-2xl py-3 bg-[#E6B566] text-white font-semibold disabled:opacity-50"
+            >
+              {sending ? t("basket.sending") : t("basket.submit")}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { ALLERGEN_ICONS, DIETARY_ICONS, type Allergen, type DietaryTag } from "@/lib/dietary";
+import { useI18n } from "@/lib/i18n/useI18n";
+
+type Props = {
+  tags?: DietaryTag[];
+  allergens?: Allergen[];
+  /** Kartta sadece ikonlar (ad title'da), detayda ikon + ad. */
+  detailed?: boolean;
+};
+
+export default function DietaryBadges({ tags = [], allergens = [], detailed = false }: Props) {
+  const { t } = useI18n();
+
+  if (!detailed) {
+    if (tags.length === 0 && allergens.length === 0) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-2 text-sm">
+        {tags.map((tag) => (
+          <span key={tag} title={t(`dietary.${tag}`)} aria-label={t(`dietary.${tag}`)}>
+            {DIETARY_ICONS[tag]}
+          </span>
+        ))}
+        {allergens.map((code) => (
+          <span
+            key={code}
+            title={t(`allergen.${code}`)}
+            aria-label={t(`allergen.${code}`)}
+            className="px-1 rounded-md bg-stone-100 text-xs"
+          >
+            {ALLERGEN_ICONS[code]}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="px-2 py-0.5 rounded-full bg-green-50 border border-green-200 text-xs text-green-800"
+            >
+              {DIETARY_ICONS[tag]} {t(`dietary.${tag}`)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div className="text-sm font-semibold">{t("menu.allergensTitle")}</div>
+        {allergens.length > 0 ? (
+          <div className="flex flex-wrap gap-1.5 mt-1">
+            {allergens.map((code) => (
+              <span
+                key={code}
+                className="px-2 py-0.5 rounded-full bg-stone-100 border border-stone-200 text-xs text-stone-700"
+              >
+                {ALLERGEN_ICONS[code]} {t(`allergen.${code}`)}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm opacity-80 mt-1">{t("menu.noAllergens")}</div>
+        )}
+      </div>
+    </div>
+  );
+}
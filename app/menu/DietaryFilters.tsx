@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ALLERGEN_ICONS,
+  ALLERGENS,
+  DIETARY_ICONS,
+  DIETARY_TAGS,
+  EMPTY_DIETARY_FILTER,
+  type DietaryFilter,
+} from "@/lib/dietary";
+import { useI18n } from "@/lib/i18n/useI18n";
+
+type Props = {
+  value: DietaryFilter;
+  onChange: (next: DietaryFilter) => void;
+};
+
+function toggle<T>(list: T[], code: T) {
+  return list.includes(code) ? list.filter((c) => c !== code) : [...list, code];
+}
+
+const CHIP = "shrink-0 px-3 py-1.5 rounded-full text-xs font-semibold border transition";
+
+export default function DietaryFilters({ value, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+  const count = value.require.length + value.exclude.length;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setOpen((o) => !o)}
+          aria-expanded={open}
+          className={`${CHIP} ${
+            count > 0
+              ? "bg-stone-800 text-white border-stone-800"
+              : "bg-white text-stone-700 border-stone-200"
+          }`}
+        >
+          {count > 0 ? t("filters.titleActive", { count }) : t("filters.title")} {open ? "▴" : "▾"}
+        </button>
+        {count > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_DIETARY_FILTER)}
+            className="text-xs opacity-70 underline"
+          >
+            {t("filters.clear")}
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <div className="text-xs opacity-70 mb-1.5">{t("filters.showOnly")}</div>
+            <div className="flex flex-wrap gap-2">
+              {DIETARY_TAGS.map((tag) => {
+                const active = value.require.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    type="button"
+                    aria-pressed={active}
+                    onClick={() => onChange({ ...value, require: toggle(value.require, tag) })}
+                    className={`${CHIP} ${
+                      active
+                        ? "bg-green-600 text-white border-green-600"
+                        : "bg-white text-stone-700 border-stone-200"
+                    }`}
+                  >
+                    {DIETARY_ICONS[tag]} {t(`dietary.${tag}`)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs opacity-70 mb-1.5">{t("filters.hideContaining")}</div>
+            <div className="flex flex-wrap gap-2">
+              {ALLERGENS.map((code) => {
+                const active = value.exclude.includes(code);
+                return (
+                  <button
+                    key={code}
+                    type="button"
+                    aria-pressed={active}
+                    onClick={() => onChange({ ...value, exclude: toggle(value.exclude, code) })}
+                    className={`${CHIP} ${
+                      active
+                        ? "bg-red-600 text-white border-red-600 line-through"
+                        : "bg-white text-stone-700 border-stone-200"
+                    }`}
+                  >
+                    {ALLERGEN_ICONS[code]} {t(`allergen.${code}`)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { highlightRanges } from "@/lib/search";
+
+type Props = {
+  text: string;
+  query: string;
+  /** Vurgunun rengi; admin listesi kendi tonunu verir. */
+  className?: string;
+};
+
+/** Aramaya uyan kısımları <mark> ile işaretler; yazım hatalı eşleşmede bütün kelime işaretlenir. */
+export default function Highlight({ text, query, className = "bg-[#E6B566]/35 text-inherit rounded-sm" }: Props) {
+  const ranges = highlightRanges(text, query);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const [start, end] of ranges) {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={start} className={className}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  }
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
@@ -1,64 +1,119 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-
-type MenuItem = {
-  id: number;
-  name: string;
-  price: number;
-  category: string;
-  isAvailable: boolean;
-  imageUrl?: string | null;
-  description?: string | null;
+import { availabilityAt, describeAvailability } from "@/lib/availability";
+import {
+  fallbackCategories,
+  inactiveCategoryNames,
+  loadVenueCategories,
+  localizeCategory,
+  visibleCategories,
+  type Category,
+} from "@/lib/categoriesApi";
+import { EMPTY_DIETARY_FILTER, matchesDietaryFilter, type DietaryFilter } from "@/lib/dietary";
+import { LOCALE_LABELS, LOCALES, type Locale } from "@/lib/i18n/locales";
+import { useI18n } from "@/lib/i18n/useI18n";
+import {
+  defaultSelection,
+  missingGroup,
+  priceWithOptions,
+  type OptionSelection,
+} from "@/lib/itemOptions";
+import { ALL_CATEGORIES, createMenuApi, localizeItem, sortMenuItems, type MenuItem } from "@/lib/menuApi";
+import { readMenuCache, writeMenuCache } from "@/lib/menuCache";
+import { bestPromotion, loadVenuePromotions, type AppliedPromotion, type Promotion } from "@/lib/promotionsApi";
+import { foldText, searchItems, suggestAlternatives, type SearchFields } from "@/lib/search";
+import { useVenueClock } from "@/lib/useVenueClock";
+import { venueTimeZone, type Venue } from "@/lib/venues";
+import { formatClock, formatTRY } from "@/lib/format";
+import BasketDrawer from "./BasketDrawer";
+import DietaryBadges from "./DietaryBadges";
+import DietaryFilters from "./DietaryFilters";
+import Highlight from "./Highlight";
+import MenuImage from "./MenuImage";
+import OptionPicker from "./OptionPicker";
+import ServiceButtons from "./ServiceButtons";
+import { useBasket } from "./useBasket";
+import { useTableNumber } from "./useTableNumber";
+
+// loading: elde hiçbir şey yok • refreshing: cache gösteriliyor, API bekleniyor
+// stale: cache gösteriliyor, API başarısız • error: gösterecek bir şey yok
+type LoadState = "loading" | "refreshing" | "ready" | "stale" | "error";
+
+type Props = {
+  venue: Venue;
+  /** Sunucuda render edilmiş menü; null ise (API uyuyor vs.) tarayıcıda çekilir. */
+  initialItems?: MenuItem[] | null;
+  initialCategories?: Category[] | null;
+  initialPromotions?: Promotion[] | null;
+  /** imageUrl → bulanık önizleme; sadece yüklenmiş fotoğraflar için sunucuda üretilir. */
+  imagePlaceholders?: Record<string, string>;
 };
 
-const BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE || "https://qrmenu-api-om05.onrender.com";
-
-const CATEGORY_ORDER = [
-  "Kahvaltı",
-  "Burger",
-  "Tost",
-  "Atıştırmalık",
-  "Soğuk İçecek",
-  "Sıcak İçecek",
-  "Wrap",
-  "Tavuklar",
-  "Makarna",
-  "Kokteyller",
-  "Nargile",
-];
-
-function formatTRY(value: number) {
-  return `${Number(value || 0).toLocaleString("tr-TR")} ₺`;
-}
-
-function normalize(s: string) {
-  return (s || "").trim().toLowerCase();
-}
-
-export default function MenuPage() {
-  const [all, setAll] = useState<MenuItem[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [activeCategory, setActiveCategory] = useState<string>("Tümü");
+export default function MenuPage({
+  venue,
+  initialItems = null,
+  initialCategories = null,
+  initialPromotions = null,
+  imagePlaceholders = {},
+}: Props) {
+  const table = useTableNumber();
+  const basket = useBasket(venue.slug);
+  const { locale, setLocale, t } = useI18n();
+  const [all, setAll] = useState<MenuItem[]>(initialItems ?? []);
+  const [categories, setCategories] = useState<Category[]>(
+    () => initialCategories ?? fallbackCategories(venue)
+  );
+  const [promotions, setPromotions] = useState<Promotion[]>(initialPromotions ?? []);
+  const [loadState, setLoadState] = useState<LoadState>(initialItems ? "ready" : "loading");
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [waking, setWaking] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [activeCategory, setActiveCategory] = useState<string>(ALL_CATEGORIES);
   const [search, setSearch] = useState("");
+  const [dietary, setDietary] = useState<DietaryFilter>(EMPTY_DIETARY_FILTER);
   const [selected, setSelected] = useState<MenuItem | null>(null);
+  const [selection, setSelection] = useState<OptionSelection>({});
+  const clock = useVenueClock(venueTimeZone(venue));
 
   useEffect(() => {
+    // Sunucudan gelen menü zaten güncel; sadece çevrimdışı yedek olarak sakla.
+    if (initialItems && reloadKey === 0) {
+      writeMenuCache(venue.slug, initialItems, initialCategories ?? fallbackCategories(venue));
+      return;
+    }
+
     let ignore = false;
 
     async function load() {
-      setLoading(true);
+      const cached = readMenuCache(venue.slug);
+      if (cached) {
+        setAll(cached.items);
+        if (cached.categories) setCategories(cached.categories);
+        setCachedAt(cached.savedAt);
+      }
+      setLoadState(cached ? "refreshing" : "loading");
+      setWaking(false);
+
       try {
-        const res = await fetch(`${BASE_URL}/api/Menu`, {
-          cache: "no-store",
-        });
-        const data = await res.json();
-        if (!ignore) setAll(Array.isArray(data) ? data : []);
+        const [items, fresh, offers] = await Promise.all([
+          createMenuApi(venue.api).list({
+            onRetry: () => {
+              if (!ignore) setWaking(true);
+            },
+          }),
+          loadVenueCategories(venue, { retries: 1 }),
+          loadVenuePromotions(venue, { retries: 1 }),
+        ]);
+        if (ignore) return;
+        setAll(items);
+        setCategories(fresh);
+        setPromotions(offers);
+        setCachedAt(null);
+        setLoadState("ready");
+        writeMenuCache(venue.slug, items, fresh);
       } catch {
-        if (!ignore) setAll([]);
-      } finally {
-        if (!ignore) setLoading(false);
+        if (!ignore) setLoadState(cached ? "stale" : "error");
       }
     }
 
@@ -66,7 +121,9 @@ export default function MenuPage() {
     return () => {
       ignore = true;
     };
-  }, []);
+  }, [reloadKey, initialItems, initialCategories, venue]);
+
+  const loading = loadState === "loading";
 
   useEffect(() => {
     function onKeyDown(e: KeyboardEvent) {
@@ -76,58 +133,129 @@ export default function MenuPage() {
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [selected]);
 
-  const activeItems = useMemo(
-    () => all.filter((x) => x.isAvailable),
-    [all]
+  // Servis saati dışındakiler: ürün id → misafire gösterilen saatler
+  const outOfHours = useMemo(() => {
+    const byName = new Map(categories.map((c) => [c.name, c]));
+    const closed = new Map<number, string>();
+    for (const item of all) {
+      const { state, windows } = availabilityAt(item, byName.get(item.category.trim()), clock);
+      if (state === "outOfHours") closed.set(item.id, describeAvailability(windows, locale));
+    }
+    return closed;
+  }, [all, categories, clock, locale]);
+
+  // O an geçerli kampanyalar: ürün id → indirimli fiyat. Saat gibi kampanya da sadece tarayıcıda uygulanır.
+  const discounts = useMemo(() => {
+    const out = new Map<number, AppliedPromotion>();
+    for (const item of all) {
+      const applied = bestPromotion(item, promotions, clock);
+      if (applied) out.set(item.id, applied);
+    }
+    return out;
+  }, [all, promotions, clock]);
+
+  // Pasif kategorilerin ürünleri de gizlenir; saat dışındakiler mekan ayarına göre
+  const activeItems = useMemo(() => {
+    const hidden = inactiveCategoryNames(categories);
+    const hideClosed = venue.outOfHours === "hide";
+    return all
+      .filter((x) => x.isAvailable && !hidden.has(x.category.trim()))
+      .filter((x) => !(hideClosed && outOfHours.has(x.id)))
+      .map((x) => localizeItem(x, locale));
+  }, [all, categories, locale, outOfHours, venue.outOfHours]);
+
+  // Bar'da sadece misafire açık ürünü olan kategoriler
+  const visible = useMemo(() => visibleCategories(categories, activeItems), [categories, activeItems]);
+  const localized = useMemo(
+    () => new Map(visible.map((c) => [c.name, localizeCategory(c, locale)])),
+    [visible, locale]
+  );
+
+  // Sepet ve sipariş mutfağa Türkçe adla gider; sepette misafirin dilindeki ad gösterilir.
+  const originals = useMemo(() => new Map(all.map((x) => [x.id, x])), [all]);
+  const localNames = useMemo(
+    () => new Map(activeItems.map((x) => [x.id, x.name])),
+    [activeItems]
   );
 
-  const filtered = useMemo(() => {
+  // Sepette kampanya fiyatı gösterilir; siparişin fiyatını sunucu kendi saatiyle belirler
+  function addToBasket(item: MenuItem, options: OptionSelection = {}) {
+    const original = originals.get(item.id) ?? item;
+    const discount = discounts.get(item.id);
+    basket.add(discount ? { ...original, price: discount.price } : original, 1, options);
+  }
+
+  // Seçenekli ürünler karttan direkt eklenmez; detayda seçim yapılır.
+  function openItem(item: MenuItem) {
+    setSelection(defaultSelection(item.optionGroups));
+    setSelected(item);
+  }
+
+  const label = (category: string) => localized.get(category.trim())?.name ?? category;
+
+  // Arama dışındaki filtreler
+  const narrowed = useMemo(() => {
     let items = activeItems;
 
-    if (activeCategory !== "Tümü") {
-      const ac = normalize(activeCategory);
-      items = items.filter(
-        (x) => normalize(x.category) === ac
-      );
+    if (activeCategory !== ALL_CATEGORIES) {
+      const ac = activeCategory.trim();
+      items = items.filter((x) => x.category.trim() === ac);
     }
 
-    const q = normalize(search);
-    if (q) {
-      items = items.filter((x) => {
-        const n = normalize(x.name);
-        const c = normalize(x.category);
-        return n.includes(q) || c.includes(q);
-      });
-    }
+    return items.filter((x) => matchesDietaryFilter(x, dietary));
+  }, [activeItems, activeCategory, dietary]);
+
+  // Aramada en iyi eşleşenler başta; eşit puanlılar menüdeki sırada
+  const filtered = useMemo(
+    () =>
+      searchItems(sortMenuItems(narrowed, locale), search, (x): SearchFields => ({
+        name: x.name,
+        categories: [x.category, localized.get(x.category.trim())?.name ?? x.category],
+        description: x.description,
+        tags: x.tags?.map((tag) => t(`dietary.${tag}`)),
+      })),
+    [narrowed, search, localized, locale, t]
+  );
 
-    return items;
-  }, [activeItems, activeCategory, search]);
+  const searching = foldText(search) !== "";
+
+  // Kategori bar'ı da daraltıyor olabilir; öneriler bütün kategorilerden
+  const suggestions = useMemo(() => {
+    if (!searching || filtered.length > 0) return [];
+    const pool = activeItems.filter((x) => matchesDietaryFilter(x, dietary));
+    return suggestAlternatives(search, [
+      ...pool.map((x) => x.name),
+      ...visible.map((c) => localized.get(c.name)?.name ?? c.name),
+    ]);
+  }, [searching, filtered, activeItems, dietary, search, visible, localized]);
+
+  function applySuggestion(text: string) {
+    setActiveCategory(ALL_CATEGORIES);
+    setSearch(text);
+  }
 
   const grouped = useMemo(() => {
     const map = new Map<string, MenuItem[]>();
 
     for (const item of filtered) {
-      const key = (item.category || "Diğer").trim() || "Diğer";
+      const key = item.category.trim();
       if (!map.has(key)) map.set(key, []);
       map.get(key)!.push(item);
     }
 
-    for (const [k, items] of map.entries()) {
-      items.sort((a, b) => a.name.localeCompare(b.name, "tr"));
-      map.set(k, items);
-    }
-
-    const ordered = CATEGORY_ORDER.filter((c) =>
-      map.has(c)
-    ).map((c) => [c, map.get(c)!] as [string, MenuItem[]]);
+    // Admin panelindeki sıra; eşitlikte ada göre. Aramada puan sırası korunur.
+    if (!searching) for (const [k, items] of map.entries()) map.set(k, sortMenuItems(items, locale));
 
-    const extras = Array.from(map.keys())
-      .filter((k) => !CATEGORY_ORDER.includes(k))
-      .sort((a, b) => a.localeCompare(b, "tr"))
-      .map((k) => [k, map.get(k)!] as [string, MenuItem[]]);
+    // visible zaten kategori sırasında; kaydı olmayanlar sonda. Aramada en iyi eşleşmenin kategorisi üstte.
+    const order = [...map.keys()];
+    const groups = visible.filter((c) => map.has(c.name));
+    if (searching) groups.sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+    return groups.map((c) => [c.name, map.get(c.name)!] as [string, MenuItem[]]);
+  }, [filtered, visible, locale, searching]);
 
-    return [...ordered, ...extras];
-  }, [filtered]);
+  const missing = selected ? missingGroup(selected.optionGroups, selection) : null;
+  const selectedHours = selected ? outOfHours.get(selected.id) : undefined;
+  const selectedDiscount = selected ? discounts.get(selected.id) : undefined;
 
   return (
     <div className="min-h-screen bg-[#FAF7F2] text-stone-800">
@@ -137,38 +265,59 @@ export default function MenuPage() {
           <div className="flex items-center justify-between gap-3">
             <div>
               <h1 className="text-3xl font-extrabold">
-                101 CLUP
+                {venue.name}
               </h1>
+              {table && (
+                <div className="inline-block mt-1 px-2.5 py-0.5 rounded-full bg-[#E6B566] text-white text-xs font-semibold">
+                  {t("common.table", { table })}
+                </div>
+              )}
               <p className="text-xs text-stone-500 mt-1">
-                QR Menü • Güncel ürünler burada
+                {venue.tagline}
               </p>
             </div>
 
             <div className="text-[11px] text-stone-500 text-right">
+              <select
+                className="mb-1 rounded-full px-2 py-1 bg-white border border-stone-200 text-xs text-stone-700"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label={t("common.language")}
+              >
+                {LOCALES.map((l) => (
+                  <option key={l} value={l}>
+                    {LOCALE_LABELS[l]}
+                  </option>
+                ))}
+              </select>
               <div className="font-medium text-stone-600">
-                Toplam
+                {t("common.total")}
               </div>
               <div>
-                {loading ? "…" : `${filtered.length} ürün`}
+                {loading ? "…" : t("common.itemCount", { count: filtered.length })}
               </div>
             </div>
           </div>
 
+          {table && <ServiceButtons venueSlug={venue.slug} table={table} />}
+
           <div className="mt-4">
             <input
               className="w-full rounded-2xl px-4 py-3 bg-white border border-stone-200 outline-none
               focus:ring-2 focus:ring-[#E6B566]/60 placeholder:text-stone-400"
-              placeholder="Ürün veya kategori ara…"
+              placeholder={t("menu.searchPlaceholder")}
               value={search}
               onChange={(e) => setSearch(e.target.value)}
             />
           </div>
+
+          <DietaryFilters value={dietary} onChange={setDietary} />
         </div>
 
         {/* CATEGORY BAR */}
         <div className="max-w-3xl mx-auto px-2 pb-4">
           <div className="flex gap-2 overflow-x-auto whitespace-nowrap">
-            {["Tümü", ...CATEGORY_ORDER].map((cat) => (
+            {[ALL_CATEGORIES, ...visible.map((c) => c.name)].map((cat) => (
               <button
                 key={cat}
                 onClick={() => setActiveCategory(cat)}
@@ -179,7 +328,14 @@ export default function MenuPage() {
                     : "bg-white text-stone-700 border border-stone-200 hover:bg-stone-50"
                 }`}
               >
-                {cat}
+                {cat === ALL_CATEGORIES ? (
+                  t("common.allCategories")
+                ) : (
+                  <>
+                    {localized.get(cat)?.icon && <span className="mr-1">{localized.get(cat)?.icon}</span>}
+                    {label(cat)}
+                  </>
+                )}
               </button>
             ))}
           </div>
@@ -188,65 +344,180 @@ export default function MenuPage() {
 
       {/* CONTENT */}
       <div className="max-w-3xl mx-auto px-4 py-6 space-y-8">
+        {loadState === "refreshing" && (
+          <div className="rounded-2xl border border-[#E6B566]/40 bg-[#E6B566]/10 px-4 py-3 text-sm text-stone-600">
+            {cachedAt
+              ? t("menu.updatingSince", { time: formatClock(cachedAt, locale) })
+              : t("menu.updating")}
+          </div>
+        )}
+
+        {loadState === "stale" && (
+          <div className="flex items-center justify-between gap-3 rounded-2xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <span>
+              {cachedAt
+                ? t("menu.staleSince", { time: formatClock(cachedAt, locale) })
+                : t("menu.stale")}
+            </span>
+            <button
+              type="button"
+              onClick={() => setReloadKey((k) => k + 1)}
+              className="shrink-0 px-3 py-1.5 rounded-xl border border-amber-300 bg-white font-semibold"
+            >
+              {t("common.retry")}
+            </button>
+          </div>
+        )}
+
         {loading ? (
           <div className="text-center text-stone-500">
-            Menü yükleniyor…
+            {t("menu.loading")}
+            {waking && (
+              <div className="text-xs mt-2">
+                {t("menu.waking")}
+              </div>
+            )}
+          </div>
+        ) : loadState === "error" ? (
+          <div className="text-center text-stone-600 space-y-3">
+            <div>{t("menu.loadFailed")}</div>
+            <button
+              type="button"
+              onClick={() => setReloadKey((k) => k + 1)}
+              className="px-4 py-2 rounded-full bg-[#E6B566] text-white text-sm font-semibold shadow-md"
+            >
+              {t("common.retry")}
+            </button>
           </div>
         ) : grouped.length === 0 ? (
-          <div className="text-center text-stone-500">
-            Ürün bulunamadı.
+          <div className="text-center text-stone-500 space-y-3">
+            <div>{t("menu.empty")}</div>
+            {suggestions.length > 0 && (
+              <div>
+                <div className="text-sm">{t("menu.didYouMean")}</div>
+                <div className="mt-2 flex flex-wrap justify-center gap-2">
+                  {suggestions.map((text) => (
+                    <button
+                      key={text}
+                      type="button"
+                      onClick={() => applySuggestion(text)}
+                      className="px-3 py-1.5 rounded-full bg-white border border-stone-200 text-sm font-semibold text-stone-700 hover:bg-stone-50"
+                    >
+                      {text}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         ) : (
-          grouped.map(([cat, items]) => (
+          grouped.map(([cat, items], groupIndex) => (
             <section key={cat}>
               <div className="flex items-end justify-between mb-3">
-                <h2 className="text-lg font-bold">{cat}</h2>
+                <div>
+                  <h2 className="text-lg font-bold">
+                    {localized.get(cat)?.icon && <span className="mr-1.5">{localized.get(cat)?.icon}</span>}
+                    {label(cat)}
+                  </h2>
+                  {localized.get(cat)?.description && (
+                    <p className="text-xs text-stone-500 mt-0.5">{localized.get(cat)?.description}</p>
+                  )}
+                </div>
                 <span className="text-xs text-stone-500">
-                  {items.length} ürün
+                  {t("common.itemCount", { count: items.length })}
                 </span>
               </div>
 
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {items.map((item) => (
-                  <button
+                {items.map((item, index) => (
+                  <div
                     key={item.id}
-                    onClick={() => setSelected(item)}
-                    className="text-left bg-white border border-stone-200 rounded-2xl p-4
-                    hover:shadow-md hover:-translate-y-[1px] transition"
+                    className={`bg-white border border-stone-200 rounded-2xl p-4
+                    hover:shadow-md hover:-translate-y-[1px] transition ${
+                      outOfHours.has(item.id) ? "opacity-60" : ""
+                    }`}
                   >
-                    {item.imageUrl && (
-                      <img
-                        src={item.imageUrl}
-                        alt={item.name}
-                        className="w-full h-36 object-cover rounded-xl mb-3"
-                      />
-                    )}
-
-                    <div className="flex justify-between gap-3">
-                      <div className="min-w-0">
-                        <div className="font-semibold truncate">
-                          {item.name}
-                        </div>
-                        <div className="text-xs text-stone-500 mt-1">
-                          {item.category}
+                    <button
+                      type="button"
+                      onClick={() => openItem(item)}
+                      className="w-full text-left"
+                    >
+                      {item.imageUrl && (
+                        <MenuImage
+                          src={item.imageUrl}
+                          alt={item.name}
+                          sizes="(min-width: 640px) 330px, calc(100vw - 66px)"
+                          variant="card"
+                          className="w-full rounded-xl mb-3 bg-stone-100"
+                          blurDataURL={imagePlaceholders[item.imageUrl]}
+                          // İlk kartlar ekranın üstünde; gerisi kaydırdıkça yüklenir
+                          preload={groupIndex === 0 && index < 2}
+                        />
+                      )}
+
+                      <div className="flex justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="font-semibold truncate">
+                            <Highlight text={item.name} query={search} />
+                          </div>
+                          <div className="text-xs text-stone-500 mt-1">
+                            <Highlight text={label(item.category)} query={search} />
+                          </div>
+
+                          {item.description?.trim() && (
+                            <div className="text-xs text-stone-600 mt-2 line-clamp-2">
+                              <Highlight text={item.description} query={search} />
+                            </div>
+                          )}
+
+                          <DietaryBadges tags={item.tags} allergens={item.allergens} />
+
+                          {discounts.has(item.id) && (
+                            <span className="inline-block mt-2 px-2 py-0.5 rounded-full bg-red-600 text-white text-[11px] font-semibold">
+                              {t("menu.promotionBadge", { name: discounts.get(item.id)!.promotion.name })}
+                            </span>
+                          )}
+
+                          {outOfHours.has(item.id) && (
+                            <div className="text-xs text-stone-500 mt-2">
+                              {t("menu.serviceHours", { hours: outOfHours.get(item.id)! })}
+                            </div>
+                          )}
                         </div>
 
-                        {item.description?.trim() && (
-                          <div className="text-xs text-stone-600 mt-2 line-clamp-2">
-                            {item.description}
+                        {discounts.has(item.id) ? (
+                          <div className="text-right">
+                            <div className="text-xs text-stone-400 line-through">{formatTRY(item.price, locale)}</div>
+                            <div className="font-extrabold text-lg text-red-600">
+                              {formatTRY(discounts.get(item.id)!.price, locale)}
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="font-extrabold text-lg text-[#E6B566]">
+                            {formatTRY(item.price, locale)}
                           </div>
                         )}
                       </div>
-
-                      <div className="font-extrabold text-lg text-[#E6B566]">
-                        {formatTRY(item.price)}
-                      </div>
-                    </div>
-
-                    <div className="mt-3 text-xs text-stone-500">
-                      Detay için tıkla →
+                    </button>
+
+                    <div className="mt-3 flex items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        onClick={() => openItem(item)}
+                        className="text-xs text-stone-500"
+                      >
+                        {t("menu.details")}
+                      </button>
+                      <button
+                        type="button"
+                        disabled={outOfHours.has(item.id)}
+                        onClick={() => (item.optionGroups?.length ? openItem(item) : addToBasket(item))}
+                        className="px-3 py-1.5 rounded-full bg-[#E6B566] text-white text-xs font-semibold disabled:bg-stone-300"
+                      >
+                        {outOfHours.has(item.id) ? t("menu.outOfHours") : t("menu.addToBasket")}
+                      </button>
                     </div>
-                  </button>
+                  </div>
                 ))}
               </div>
             </section>
@@ -254,10 +525,10 @@ export default function MenuPage() {
         )}
 
         <div className="pb-6 text-center text-xs text-stone-400">
-          101 CLUP • Menü otomatik güncellenir
+          {t("menu.autoUpdated", { venue: venue.name })}
         </div>
         <div className="pb-6 text-center text-xs text-stone-400">
-          Mert Özgenç tarafından yapılmıştır
+          {t("menu.credit")}
         </div>
       </div>
 
@@ -268,7 +539,7 @@ export default function MenuPage() {
           onClick={() => setSelected(null)}
         >
           <div
-            className="w-full max-w-lg bg-white rounded-2xl p-4"
+            className="w-full max-w-lg bg-white rounded-2xl p-4 max-h-[90vh] overflow-y-auto"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex justify-between">
@@ -277,40 +548,97 @@ export default function MenuPage() {
                   {selected.name}
                 </div>
                 <div className="text-sm text-stone-500 mt-1">
-                  {selected.category} •{" "}
-                  {formatTRY(selected.price)}
+                  {label(selected.category)} •{" "}
+                  {selectedDiscount ? (
+                    <>
+                      <span className="line-through text-stone-400">{formatTRY(selected.price, locale)}</span>{" "}
+                      <span className="font-semibold text-red-600">{formatTRY(selectedDiscount.price, locale)}</span>
+                    </>
+                  ) : (
+                    formatTRY(selected.price, locale)
+                  )}
                 </div>
+                {selectedDiscount && (
+                  <span className="inline-block mt-2 px-2 py-0.5 rounded-full bg-red-600 text-white text-[11px] font-semibold">
+                    {t("menu.promotionBadge", { name: selectedDiscount.promotion.name })}
+                  </span>
+                )}
               </div>
 
               <button
                 className="text-xl"
                 onClick={() => setSelected(null)}
+                aria-label={t("common.close")}
+                type="button"
               >
                 ✕
               </button>
             </div>
 
             {selected.imageUrl && (
-              <img
+              <MenuImage
                 src={selected.imageUrl}
                 alt={selected.name}
-                className="w-full h-56 object-cover rounded-xl mt-4"
+                sizes="(min-width: 544px) 480px, calc(100vw - 56px)"
+                variant="detail"
+                className="w-full rounded-xl mt-4 bg-stone-100"
+                blurDataURL={imagePlaceholders[selected.imageUrl]}
+                loading="eager"
               />
             )}
 
             <div className="mt-4">
               <div className="text-sm font-semibold">
-                İçerik / Açıklama
+                {t("menu.descriptionTitle")}
               </div>
               <div className="text-sm text-stone-600 mt-1">
                 {selected.description?.trim()
                   ? selected.description
-                  : "Bu ürün için açıklama eklenmemiş."}
+                  : t("menu.noDescription")}
               </div>
             </div>
+
+            <div className="mt-4">
+              <DietaryBadges tags={selected.tags} allergens={selected.allergens} detailed />
+            </div>
+
+            {selected.optionGroups?.length ? (
+              <div className="mt-4">
+                <OptionPicker groups={selected.optionGroups} value={selection} onChange={setSelection} />
+              </div>
+            ) : null}
+
+            {missing && (
+              <div className="mt-3 text-xs text-amber-700">{t("menu.optionMissing", { group: missing.name })}</div>
+            )}
+
+            {selectedHours && (
+              <div className="mt-3 text-xs text-amber-700">{t("menu.serviceHours", { hours: selectedHours })}</div>
+            )}
+
+            <button
+              type="button"
+              disabled={!!missing || !!selectedHours}
+              onClick={() => {
+                addToBasket(selected, selection);
+                setSelected(null);
+              }}
+              className="mt-4 w-full rounded-2xl py-3 bg-[#E6B566] text-white font-semibold disabled:opacity-50"
+            >
+              {selectedHours
+                ? t("menu.outOfHours")
+                : t("menu.addToBasketWithPrice", {
+                    price: formatTRY(
+                      priceWithOptions(selectedDiscount ? { ...selected, price: selectedDiscount.price } : selected, selection),
+                      locale
+                    ),
+                  })}
+            </button>
           </div>
         </div>
       )}
+
+      <BasketDrawer venue={venue} basket={basket} table={table} localNames={localNames} />
     </div>
   );
 }
@@ -0,0 +1,35 @@
+import Image, { type ImageProps } from "next/image";
+import { isOptimizable, MENU_IMAGE_RATIOS, variantUrl, type MenuImageRatio } from "@/lib/menuImages";
+
+type Props = Pick<ImageProps, "preload" | "loading"> & {
+  /** Ürünün imageUrl'i; yüklenmiş fotoğrafta kutuya uygun boy buradan seçilir. */
+  src: string;
+  alt: string;
+  /** Kutunun oranı; yüklenen fotoğraf da aynı oranda kırpılmıştır. */
+  variant: MenuImageRatio;
+  /** Görüntünün ekrandaki genişliği; srcset'ten doğru boy seçilsin diye. */
+  sizes: string;
+  /** Kutunun görünümü (rounded-*, arka plan); oran sayesinde yer önceden ayrılır, sayfa kaymaz. */
+  className: string;
+  blurDataURL?: string;
+};
+
+/** Misafir menüsündeki ürün fotoğrafı; varsayılan olarak ekrana yaklaşınca yüklenir. */
+export default function MenuImage({ src, alt, variant, sizes, className, blurDataURL, preload, loading }: Props) {
+  const [w, h] = MENU_IMAGE_RATIOS[variant];
+  return (
+    <div className={`relative overflow-hidden ${className}`} style={{ aspectRatio: `${w} / ${h}` }}>
+      <Image
+        src={variantUrl(src, variant)}
+        alt={alt}
+        fill
+        sizes={sizes}
+        className="object-cover"
+        unoptimized={!isOptimizable(src)}
+        preload={preload}
+        loading={loading}
+        {...(blurDataURL ? { placeholder: "blur" as const, blurDataURL } : {})}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { formatTRY } from "@/lib/format";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { toggleOption, type OptionGroup, type OptionSelection } from "@/lib/itemOptions";
+
+type Props = {
+  groups: OptionGroup[];
+  value: OptionSelection;
+  onChange: (next: OptionSelection) => void;
+};
+
+export default function OptionPicker({ groups, value, onChange }: Props) {
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <fieldset key={group.id}>
+          <legend className="flex w-full items-baseline justify-between gap-2">
+            <span className="text-sm font-semibold">{group.name}</span>
+            <span className="text-xs opacity-70">
+              {group.kind === "single" ? t("menu.optionRequired") : t("menu.optionOptional")}
+            </span>
+          </legend>
+
+          <div className="mt-2 space-y-1.5">
+            {group.options.map((option) => (
+              <label
+                key={option.id}
+                className="flex items-center justify-between gap-3 rounded-xl border border-current/15 px-3 py-2 text-sm cursor-pointer"
+              >
+                <span className="flex items-center gap-2">
+                  <input
+                    type={group.kind === "single" ? "radio" : "checkbox"}
+                    name={`option-${group.id}`}
+                    checked={value[group.id]?.includes(option.id) ?? false}
+                    onChange={() => onChange(toggleOption(value, group, option.id))}
+                  />
+                  {option.name}
+                </span>
+                {option.priceDelta !== 0 && (
+                  <span className="opacity-70">
+                    {option.priceDelta > 0 ? "+" : "−"}
+                    {formatTRY(Math.abs(option.priceDelta), locale)}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
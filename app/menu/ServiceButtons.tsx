@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { ApiError } from "@/lib/http";
+import type { MessageKey } from "@/lib/i18n/translate";
+import { useI18n } from "@/lib/i18n/useI18n";
+import { callStaff, type ServiceRequestKind } from "@/lib/serviceRequestsApi";
+
+type Status = { kind: ServiceRequestKind; text: string; ok: boolean } | null;
+
+const SENT_TEXT: Record<ServiceRequestKind, MessageKey> = {
+  waiter: "service.waiterSent",
+  bill: "service.billSent",
+};
+
+function retryAfterSeconds(err: ApiError) {
+  const body = err.body as { retryAfter?: unknown } | null;
+  return typeof body?.retryAfter === "number" ? body.retryAfter : 60;
+}
+
+export default function ServiceButtons({ venueSlug, table }: { venueSlug: string; table: string }) {
+  const [sending, setSending] = useState<ServiceRequestKind | null>(null);
+  const [status, setStatus] = useState<Status>(null);
+  const { t } = useI18n();
+
+  async function send(kind: ServiceRequestKind) {
+    setSending(kind);
+    try {
+      await callStaff(venueSlug, table, kind);
+      setStatus({ kind, text: t(SENT_TEXT[kind]), ok: true });
+    } catch (err) {
+      // 429: çağrı zaten personelde, misafir için hata sayılmaz
+      if (err instanceof ApiError && err.status === 429) {
+        setStatus({ kind, text: t("service.tooSoon", { seconds: retryAfterSeconds(err) }), ok: true });
+      } else {
+        setStatus({ kind, text: t("service.failed"), ok: false });
+      }
+    } finally {
+      setSending(null);
+    }
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={sending !== null}
+          onClick={() => send("waiter")}
+          className="flex-1 px-3 py-2 rounded-2xl bg-white border border-stone-200 text-sm font-semibold disabled:opacity-50"
+        >
+          {t("service.callWaiter")}
+        </button>
+        <button
+          type="button"
+          disabled={sending !== null}
+          onClick={() => send("bill")}
+          className="flex-1 px-3 py-2 rounded-2xl bg-white border border-stone-200 text-sm font-semibold disabled:opacity-50"
+        >
+          {t("service.requestBill")}
+        </button>
+      </div>
+      {status && (
+        <div role="status" className={`mt-2 text-xs ${status.ok ? "text-green-700" : "text-red-600"}`}>
+          {status.text}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import MenuClient from "./MenuClient";
+import { loadVenueCategories } from "@/lib/categoriesApi";
+import { imagePlaceholders } from "@/lib/imagePipeline";
+import { createMenuApi } from "@/lib/menuApi";
+import { loadVenuePromotions } from "@/lib/promotionsApi";
+import { venueMenuTag, type Venue } from "@/lib/venues";
+
+export const MENU_REVALIDATE_SECONDS = 300;
+
+// /menu ve /menu/[venueSlug] ortak sunucu render'ı.
+export default async function VenueMenu({ venue }: { venue: Venue }) {
+  // API uyumuyorsa sayfayı bekletmeyelim: null gelirse MenuClient tarayıcıda kendisi dener.
+  const next = { revalidate: MENU_REVALIDATE_SECONDS, tags: [venueMenuTag(venue.slug)] };
+  const [items, categories, promotions] = await Promise.all([
+    createMenuApi(venue.api)
+      .list({ next, retries: 1 })
+      .catch(() => null),
+    loadVenueCategories(venue, { next, retries: 1 }),
+    loadVenuePromotions(venue, { next, retries: 1 }),
+  ]);
+
+  const placeholders = items ? await imagePlaceholders(items.map((x) => x.imageUrl)) : {};
+
+  return (
+    <MenuClient
+      venue={venue}
+      initialItems={items}
+      initialCategories={categories}
+      initialPromotions={promotions}
+      imagePlaceholders={placeholders}
+    />
+  );
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import VenueMenu from "../VenueMenu";
+import { venueMetadata } from "@/lib/pwa";
+import { getVenue, listVenues } from "@/lib/venues";
+
+export const revalidate = 300;
+export const dynamicParams = false;
+
+type Props = { params: Promise<{ venueSlug: string }> };
+
+export function generateStaticParams() {
+  return listVenues().map((v) => ({ venueSlug: v.slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const venue = getVenue((await params).venueSlug);
+  return venue ? venueMetadata(venue) : {};
+}
+
+export default async function Page({ params }: Props) {
+  const venue = getVenue((await params).venueSlug);
+  if (!venue) notFound();
+
+  return <VenueMenu venue={venue} />;
+}
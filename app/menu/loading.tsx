@@ -0,0 +1,12 @@
+"use client";
+
+import { useI18n } from "@/lib/i18n/useI18n";
+
+export default function Loading() {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen bg-[#FAF7F2] text-stone-500 flex items-center justify-center">
+      {t("menu.loading")}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
-export const dynamic = "force-dynamic";
-export const revalidate = 0;
+import VenueMenu from "./VenueMenu";
+import { getDefaultVenue } from "@/lib/venues";
 
-import MenuClient from "./MenuClient";
+// 5 dakikada bir arka planda yenilenir; admin değişikliklerinde /api/revalidate anında temizler.
+export const revalidate = 300;
 
+// Basılı QR kodları /menu'yü gösteriyor; varsayılan mekan burada kalır.
 export default function Page() {
-  return <MenuClient />;
+  return <VenueMenu venue={getDefaultVenue()} />;
 }
@@ -0,0 +1,146 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import { priceWithOptions, selectedOptions, type OptionSelection } from "@/lib/itemOptions";
+import type { MenuItem } from "@/lib/menuApi";
+import { MAX_LINE_QUANTITY, orderTotal } from "@/lib/ordersApi";
+
+export type BasketLine = {
+  /** Aynı ürün tekrar eklenince miktar artsın diye satır anahtarı. */
+  key: string;
+  menuItemId: number;
+  name: string;
+  /** Misafirin gördüğü fiyat; siparişin fiyatını sunucu menüden yeniden hesaplar. */
+  unitPrice: number;
+  quantity: number;
+  note: string;
+  /** Seçilen seçeneklerin adları; fiyat farkları unitPrice'a dahil. */
+  options?: string[];
+  /** Siparişle gönderilen seçim (grup id → seçenek id'leri). */
+  selection?: OptionSelection;
+};
+
+const EMPTY: BasketLine[] = [];
+
+// Sepet mekan başına localStorage'da; sayfa yenilense de kaybolmaz.
+const snapshots = new Map<string, BasketLine[]>();
+const listeners = new Set<() => void>();
+
+function storageKey(venueSlug: string) {
+  return `qrmenu_basket:${venueSlug}`;
+}
+
+function isLine(v: unknown): v is BasketLine {
+  if (!v || typeof v !== "object") return false;
+  const l = v as Record<string, unknown>;
+  return (
+    typeof l.key === "string" &&
+    typeof l.menuItemId === "number" &&
+    typeof l.name === "string" &&
+    typeof l.unitPrice === "number" &&
+    typeof l.quantity === "number" &&
+    typeof l.note === "string" &&
+    (l.options === undefined ||
+      (Array.isArray(l.options) && l.options.every((o) => typeof o === "string"))) &&
+    (l.selection === undefined || (!!l.selection && typeof l.selection === "object"))
+  );
+}
+
+function read(venueSlug: string): BasketLine[] {
+  const cached = snapshots.get(venueSlug);
+  if (cached) return cached;
+
+  let lines = EMPTY;
+  try {
+    const data = JSON.parse(localStorage.getItem(storageKey(venueSlug)) || "[]");
+    if (Array.isArray(data)) lines = data.filter(isLine);
+  } catch {}
+
+  snapshots.set(venueSlug, lines);
+  return lines;
+}
+
+function write(venueSlug: string, lines: BasketLine[]) {
+  snapshots.set(venueSlug, lines);
+  try {
+    localStorage.setItem(storageKey(venueSlug), JSON.stringify(lines));
+  } catch {}
+  listeners.forEach((l) => l());
+}
+
+function subscribe(onChange: () => void) {
+  // Başka sekmede değişirse cache'i düşür
+  function onStorage(e: StorageEvent) {
+    if (!e.key?.startsWith("qrmenu_basket:")) return;
+    snapshots.clear();
+    onChange();
+  }
+  listeners.add(onChange);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function useBasket(venueSlug: string) {
+  const lines = useSyncExternalStore(
+    subscribe,
+    () => read(venueSlug),
+    () => EMPTY
+  );
+
+  return useMemo(() => {
+    function update(fn: (lines: BasketLine[]) => BasketLine[]) {
+      write(venueSlug, fn(read(venueSlug)));
+    }
+
+    return {
+      lines,
+      count: lines.reduce((n, l) => n + l.quantity, 0),
+      total: orderTotal(lines),
+
+      add(item: MenuItem, quantity = 1, selection: OptionSelection = {}) {
+        // Farklı seçimler ayrı satır olur; aynı seçim tekrar eklenince miktar artar
+        const chosen = selectedOptions(item.optionGroups, selection);
+        const key = [item.id, ...chosen.map((o) => o.id)].join(":");
+        update((prev) =>
+          prev.some((l) => l.key === key)
+            ? prev.map((l) =>
+                l.key === key ? { ...l, quantity: Math.min(MAX_LINE_QUANTITY, l.quantity + quantity) } : l
+              )
+            : [
+                ...prev,
+                {
+                  key,
+                  menuItemId: item.id,
+                  name: item.name,
+                  unitPrice: priceWithOptions(item, selection),
+                  quantity,
+                  note: "",
+                  ...(chosen.length ? { options: chosen.map((o) => o.name), selection } : {}),
+                },
+              ]
+        );
+      },
+
+      setQuantity(key: string, quantity: number) {
+        update((prev) =>
+          quantity <= 0
+            ? prev.filter((l) => l.key !== key)
+            : prev.map((l) => (l.key === key ? { ...l, quantity: Math.min(MAX_LINE_QUANTITY, quantity) } : l))
+        );
+      },
+
+      setNote(key: string, note: string) {
+        update((prev) => prev.map((l) => (l.key === key ? { ...l, note } : l)));
+      },
+
+      clear() {
+        write(venueSlug, EMPTY);
+      },
+    };
+  }, [lines, venueSlug]);
+}
+
+export type Basket = ReturnType<typeof useBasket>;
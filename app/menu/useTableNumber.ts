@@ -0,0 +1,21 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { parseTableParam } from "@/lib/tables";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  return () => window.removeEventListener("popstate", onChange);
+}
+
+/**
+ * QR kodundan gelen ?table= değeri. /menu statik (ISR) render edildiği için searchParams'ı
+ * sunucuda okumuyoruz; sunucu render'ında null döner, hydrate sonrası gerçek değer gelir.
+ */
+export function useTableNumber(): string | null {
+  return useSyncExternalStore(
+    subscribe,
+    () => parseTableParam(window.location.search),
+    () => null
+  );
+}
@@ -0,0 +1,44 @@
+import { ImageResponse } from "next/og";
+import { BACKGROUND_COLOR, PWA_ICON_SIZES, THEME_COLOR, venueMonogram } from "@/lib/pwa";
+import { getVenue, listVenues } from "@/lib/venues";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listVenues().flatMap((v) => PWA_ICON_SIZES.map((size) => ({ venueSlug: v.slug, size: String(size) })));
+}
+
+type Params = { params: Promise<{ venueSlug: string; size: string }> };
+
+// Manifest ve apple-touch-icon için PNG ikon; build sırasında mekan başına statik üretilir.
+export async function GET(_req: Request, { params }: Params) {
+  const { venueSlug, size: raw } = await params;
+  const venue = getVenue(venueSlug);
+  if (!venue) return new Response("Not found", { status: 404 });
+
+  const size = Number(raw);
+  const text = venueMonogram(venue);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: BACKGROUND_COLOR,
+          color: THEME_COLOR,
+          // Üç harfe kadar aynı boy; daha uzunu sığsın diye küçülür
+          fontSize: size * (text.length <= 3 ? 0.42 : 0.32),
+          fontWeight: 800,
+          letterSpacing: -size * 0.02,
+        }}
+      >
+        {text}
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
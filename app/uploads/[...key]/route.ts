@@ -0,0 +1,16 @@
+import { imageStorage } from "@/lib/imageStorage";
+
+type Ctx = { params: Promise<{ key: string[] }> };
+
+// Disk deposundaki ürün fotoğrafları. Her yüklemenin adı yeni olduğundan dosya hiç değişmez.
+export async function GET(_req: Request, { params }: Ctx) {
+  const image = await imageStorage.get((await params).key.join("/"));
+  if (!image) return new Response("Not found", { status: 404 });
+
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      "Content-Type": image.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,189 @@
+import { parseCategoryList, type Category, type CategoryInput } from "@/lib/categoriesApi";
+import { ApiError, request } from "@/lib/http";
+import { parseMenuItem, parseMenuList, type MenuItem, type MenuItemInput } from "@/lib/menuApi";
+import { isUploadedImage, type UploadedImage } from "@/lib/menuImages";
+import type { MenuImportRequest, MenuImportResult } from "@/lib/menuSpreadsheet";
+import type { BulkPriceResult, PriceUpdate } from "@/lib/priceAdjust";
+import { parseOrder, type Order, type OrderStatus } from "@/lib/ordersApi";
+import { parsePriceHistory, priceHistoryParams, type PriceChange, type PriceHistoryQuery } from "@/lib/priceHistoryApi";
+import { parsePendingSchedules, type PriceSchedule } from "@/lib/priceSchedulesApi";
+import { parsePromotionList, type Promotion, type PromotionInput } from "@/lib/promotionsApi";
+import { parseServiceRequest, type ServiceRequest } from "@/lib/serviceRequestsApi";
+import { parseTableList, type Table } from "@/lib/tablesApi";
+
+/**
+ * Admin paneli istemcisi. Upstream API'ye değil /api/admin/[venueSlug]/… route'larına gider;
+ * yetki oturum çereziyle, X-Admin-Key sunucuda eklenir.
+ */
+export function createAdminApi(venueSlug: string) {
+  const base = `/api/admin/${encodeURIComponent(venueSlug)}`;
+
+  return {
+    menu: {
+      async list(): Promise<MenuItem[]> {
+        return parseMenuList(await request(`${base}/menu`)).items;
+      },
+
+      async get(id: number): Promise<MenuItem> {
+        const data = await request(`${base}/menu/${id}`);
+        const parsed = parseMenuItem(data);
+        if (!parsed.ok) throw new ApiError(200, `Ürün kaydı hatalı: ${parsed.reason}`, data);
+        return parsed.item;
+      },
+
+      async create(input: MenuItemInput): Promise<void> {
+        await request(`${base}/menu`, { method: "POST", body: input });
+      },
+
+      async update(id: number, input: MenuItemInput): Promise<void> {
+        await request(`${base}/menu/${id}`, { method: "PUT", body: input });
+      },
+
+      /** Personel rolü ürünü düzenleyemez, sadece bu uçla aktif/pasif yapar. */
+      async setAvailability(id: number, isAvailable: boolean): Promise<void> {
+        await request(`${base}/menu/${id}/availability`, { method: "PUT", body: { isAvailable } });
+      },
+
+      async delete(id: number): Promise<void> {
+        await request(`${base}/menu/${id}`, { method: "DELETE" });
+      },
+
+      /** ids o kategorideki ürünlerin tamamı olmalı. */
+      async reorder(category: string, ids: number[]): Promise<void> {
+        await request(`${base}/menu/order`, { method: "PUT", body: { category, ids } });
+      },
+
+      /**
+       * Satırlardan biri bile geçersizse sunucu hiçbirini yazmaz (400). Upstream'e satır satır
+       * gittiği için uzun sürebilir.
+       */
+      async import(body: MenuImportRequest): Promise<MenuImportResult> {
+        const data = await request(`${base}/menu/import`, { method: "POST", body, timeoutMs: 120_000 });
+        return data as MenuImportResult;
+      },
+
+      /** Toplu fiyat güncellemesi; bilinmeyen bir id varsa hiçbir fiyat değişmez. */
+      async setPrices(prices: PriceUpdate[]): Promise<BulkPriceResult> {
+        const data = await request(`${base}/menu/prices`, { method: "PUT", body: { prices }, timeoutMs: 120_000 });
+        return data as BulkPriceResult;
+      },
+    },
+
+    images: {
+      /** Sunucu kırpıp WebP boyları üretir; dönen imageUrl ürüne kaydedilir. */
+      async upload(file: File): Promise<UploadedImage> {
+        const body = new FormData();
+        body.append("file", file);
+        const data = await request(`${base}/images`, { method: "POST", body, timeoutMs: 120_000 });
+        if (!isUploadedImage(data)) throw new ApiError(200, "Fotoğraf yanıtı hatalı.", data);
+        return data;
+      },
+    },
+
+    categories: {
+      async list(): Promise<Category[]> {
+        return parseCategoryList(await request(`${base}/categories`));
+      },
+
+      async create(input: CategoryInput): Promise<void> {
+        await request(`${base}/categories`, { method: "POST", body: input });
+      },
+
+      /** Ad değişirse o kategorideki ürünler de yeni ada taşınır. */
+      async update(id: number, input: CategoryInput): Promise<void> {
+        await request(`${base}/categories/${id}`, { method: "PUT", body: input });
+      },
+
+      async delete(id: number): Promise<void> {
+        await request(`${base}/categories/${id}`, { method: "DELETE" });
+      },
+
+      async reorder(ids: number[]): Promise<void> {
+        await request(`${base}/categories/order`, { method: "PUT", body: { ids } });
+      },
+    },
+
+    priceSchedules: {
+      /** Sadece bekleyenler; zamanı geçmiş ama cron'un henüz uygulamadığı planlar da dahil. */
+      async list(): Promise<PriceSchedule[]> {
+        return parsePendingSchedules(await request(`${base}/price-schedules`));
+      },
+
+      /** effectiveDate "YYYY-MM-DD", yarın ya da sonrası; fiyat o gün mekan saatiyle 00:00'da değişir. */
+      async create(effectiveDate: string, items: PriceUpdate[]): Promise<void> {
+        await request(`${base}/price-schedules`, { method: "POST", body: { effectiveDate, items } });
+      },
+
+      async delete(id: number): Promise<void> {
+        await request(`${base}/price-schedules/${id}`, { method: "DELETE" });
+      },
+    },
+
+    priceHistory: {
+      async list(query: PriceHistoryQuery = {}): Promise<PriceChange[]> {
+        const params = new URLSearchParams(priceHistoryParams(query));
+        return parsePriceHistory(await request(`${base}/price-history?${params}`), query);
+      },
+    },
+
+    promotions: {
+      /** Bitmiş kampanyalar da gelir; ayıklamak arayüzün işi. */
+      async list(): Promise<Promotion[]> {
+        return parsePromotionList(await request(`${base}/promotions`));
+      },
+
+      async create(input: PromotionInput): Promise<void> {
+        await request(`${base}/promotions`, { method: "POST", body: input });
+      },
+
+      async update(id: number, input: PromotionInput): Promise<void> {
+        await request(`${base}/promotions/${id}`, { method: "PUT", body: input });
+      },
+
+      async delete(id: number): Promise<void> {
+        await request(`${base}/promotions/${id}`, { method: "DELETE" });
+      },
+    },
+
+    orders: {
+      async list(): Promise<Order[]> {
+        const data = await request(`${base}/orders`, { retries: 1 });
+        return (Array.isArray(data) ? data : []).map(parseOrder).filter((o): o is Order => o !== null);
+      },
+
+      async setStatus(id: number, status: OrderStatus): Promise<void> {
+        await request(`${base}/orders/${id}/status`, { method: "PUT", body: { status } });
+      },
+    },
+
+    tables: {
+      async list(): Promise<Table[]> {
+        return parseTableList(await request(`${base}/tables`));
+      },
+
+      /** "1-12, 15, Bahçe1" gibi girdi sunucuda açılır; var olan numaraların bölgesi güncellenir. */
+      async add(tables: string, zone: string): Promise<void> {
+        await request(`${base}/tables`, { method: "POST", body: { tables, zone } });
+      },
+
+      async delete(id: number): Promise<void> {
+        await request(`${base}/tables/${id}`, { method: "DELETE" });
+      },
+    },
+
+    serviceRequests: {
+      async listOpen(): Promise<ServiceRequest[]> {
+        const data = await request(`${base}/service-requests`, { retries: 0 });
+        return (Array.isArray(data) ? data : [])
+          .map(parseServiceRequest)
+          .filter((r): r is ServiceRequest => r !== null);
+      },
+
+      async acknowledge(id: number): Promise<void> {
+        await request(`${base}/service-requests/${id}/acknowledge`, { method: "PUT" });
+      },
+    },
+  };
+}
+
+export type AdminApi = ReturnType<typeof createAdminApi>;
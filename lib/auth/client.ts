@@ -0,0 +1,49 @@
+import type { Role } from "@/lib/auth/roles";
+import { ApiError } from "@/lib/http";
+
+export type ClientSession = {
+  username: string;
+  role: Role;
+  expiresAt: number;
+};
+
+async function postJson(url: string, body?: unknown) {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (err) {
+    throw new ApiError(0, "Sunucuya ulaşılamadı.", err instanceof Error ? err.message : null);
+  }
+  const data = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!res.ok) {
+    const message = typeof data?.message === "string" ? data.message : `HTTP ${res.status}`;
+    throw new ApiError(res.status, message, data);
+  }
+  return data;
+}
+
+export async function login(username: string, password: string) {
+  await postJson("/api/auth/login", { username, password });
+}
+
+export async function logout() {
+  await postJson("/api/auth/logout").catch(() => undefined);
+}
+
+/** Oturum yoksa null. */
+export async function fetchSession(): Promise<ClientSession | null> {
+  const res = await fetch("/api/auth/session", { cache: "no-store" });
+  if (res.status === 401) return null;
+  if (!res.ok) throw new ApiError(res.status, `Oturum okunamadı (HTTP ${res.status})`);
+  return (await res.json()) as ClientSession;
+}
+
+export function redirectToLogin(reason?: "expired") {
+  const params = new URLSearchParams({ next: window.location.pathname });
+  if (reason) params.set("reason", reason);
+  window.location.assign(`/admin/login?${params}`);
+}
@@ -0,0 +1,38 @@
+/**
+ * IP + kullanıcı adı başına. Sadece kullanıcı adına kilit yok: herkes şifre deneyerek sahibini
+ * dışarıda bırakabilirdi.
+ */
+const MAX_FAILURES = 5;
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCK_MS = 15 * 60 * 1000;
+
+type Entry = { failures: number; firstAt: number; lockedUntil: number };
+
+const globalForLockout = globalThis as unknown as { qrmenuLockout?: Map<string, Entry> };
+const entries = (globalForLockout.qrmenuLockout ??= new Map<string, Entry>());
+
+/** Kilitliyse kalan süre (ms), değilse 0. */
+export function lockedFor(key: string) {
+  const e = entries.get(key);
+  return e ? Math.max(0, e.lockedUntil - Date.now()) : 0;
+}
+
+/** 15 dk içinde MAX_FAILURES hatalı denemede 15 dk kilitler. */
+export function recordFailure(key: string) {
+  const now = Date.now();
+  let e = entries.get(key);
+  if (!e || now - e.firstAt > WINDOW_MS) {
+    e = { failures: 0, firstAt: now, lockedUntil: 0 };
+    entries.set(key, e);
+  }
+  e.failures++;
+  if (e.failures >= MAX_FAILURES) {
+    e.lockedUntil = now + LOCK_MS;
+    e.failures = 0;
+    e.firstAt = now;
+  }
+}
+
+export function clearFailures(key: string) {
+  entries.delete(key);
+}
@@ -0,0 +1,26 @@
+// Şifre özeti: "scrypt:<salt base64>:<hash base64>". Uygulama (lib/auth/users.ts) ve
+// `npm run hash-password` (scripts/hash-password.mjs) aynı kodu kullanır; TypeScript'siz çalışsın
+// diye .mjs.
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+/** @param {string} password */
+export function hashPassword(password) {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`;
+}
+
+/**
+ * @param {string} password
+ * @param {string} stored
+ */
+export function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = scryptSync(password, Buffer.from(salt, "base64"), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,43 @@
+export type Role = "owner" | "manager" | "staff";
+
+export type Permission =
+  | "menu.create"
+  | "menu.edit"
+  | "menu.delete"
+  | "menu.toggleAvailability"
+  | "categories.manage"
+  | "orders.manage"
+  | "service.manage"
+  | "tables.manage";
+
+// Personel servis sırasında sadece tükendi/var işaretler, sipariş ve çağrılarla ilgilenir.
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: [
+    "menu.create",
+    "menu.edit",
+    "menu.delete",
+    "menu.toggleAvailability",
+    "categories.manage",
+    "orders.manage",
+    "service.manage",
+    "tables.manage",
+  ],
+  manager: [
+    "menu.create",
+    "menu.edit",
+    "menu.toggleAvailability",
+    "categories.manage",
+    "orders.manage",
+    "service.manage",
+    "tables.manage",
+  ],
+  staff: ["menu.toggleAvailability", "orders.manage", "service.manage"],
+};
+
+export function isRole(v: unknown): v is Role {
+  return v === "owner" || v === "manager" || v === "staff";
+}
+
+export function can(role: Role, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,47 @@
+import { cookies } from "next/headers";
+import type { Role } from "@/lib/auth/roles";
+import { sessionStore } from "@/lib/auth/sessionStore";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  signSession,
+  verifySession,
+  type SessionPayload,
+} from "@/lib/auth/token";
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: "strict" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+};
+
+export async function startSession(username: string, role: Role): Promise<SessionPayload> {
+  const session: SessionPayload = {
+    sid: crypto.randomUUID(),
+    username,
+    role,
+    exp: Date.now() + SESSION_TTL_MS,
+  };
+  sessionStore.create(session);
+
+  (await cookies()).set(SESSION_COOKIE, await signSession(session), {
+    ...cookieOptions,
+    expires: new Date(session.exp),
+  });
+  return session;
+}
+
+/** İmza, süre ve sunucu tarafı store'u kontrol eder; logout edilmiş çerez geçmez. */
+export async function getSession(): Promise<SessionPayload | null> {
+  const payload = await verifySession((await cookies()).get(SESSION_COOKIE)?.value);
+  if (!payload) return null;
+  return sessionStore.get(payload.sid);
+}
+
+export async function endSession() {
+  const jar = await cookies();
+  const payload = await verifySession(jar.get(SESSION_COOKIE)?.value);
+  if (payload) sessionStore.revoke(payload.sid);
+  jar.set(SESSION_COOKIE, "", { ...cookieOptions, maxAge: 0 });
+}
@@ -0,0 +1,40 @@
+import type { SessionPayload } from "@/lib/auth/token";
+
+/**
+ * Aktif oturumlar. Bellekte tutuluyor: sunucu yeniden başlayınca herkes tekrar giriş yapar.
+ * Birden fazla instance'a çıkılırsa aynı arayüzle Redis vb. bir store'a geçilmeli.
+ */
+export type SessionStore = {
+  create(session: SessionPayload): void;
+  get(sid: string): SessionPayload | null;
+  revoke(sid: string): void;
+};
+
+function createMemoryStore(): SessionStore {
+  const sessions = new Map<string, SessionPayload>();
+
+  return {
+    create(session) {
+      const now = Date.now();
+      for (const [sid, s] of sessions) if (s.exp <= now) sessions.delete(sid);
+      sessions.set(session.sid, session);
+    },
+    get(sid) {
+      const s = sessions.get(sid);
+      if (!s) return null;
+      if (s.exp <= Date.now()) {
+        sessions.delete(sid);
+        return null;
+      }
+      return s;
+    },
+    revoke(sid) {
+      sessions.delete(sid);
+    },
+  };
+}
+
+// dev'de HMR modülü yeniden yükleyince oturumlar düşmesin
+const globalForSessions = globalThis as unknown as { qrmenuSessions?: SessionStore };
+
+export const sessionStore = (globalForSessions.qrmenuSessions ??= createMemoryStore());
@@ -0,0 +1,78 @@
+// Oturum çerezi: base64url(JSON payload) + "." + HMAC-SHA256 imzası.
+// Web Crypto kullanıyor ki hem proxy.ts hem route handler'larda çalışsın.
+
+import { isRole, type Role } from "@/lib/auth/roles";
+
+export const SESSION_COOKIE = "qrmenu_session";
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+export type SessionPayload = {
+  /** Sunucu tarafı store'daki oturum id'si; logout bununla iptal edilir. */
+  sid: string;
+  username: string;
+  role: Role;
+  /** Unix ms */
+  exp: number;
+};
+
+const encoder = new TextEncoder();
+
+function getSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("SESSION_SECRET tanımlı değil ya da 32 karakterden kısa.");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function hmacKey() {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signSession(payload: SessionPayload) {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+/** İmza ve süre geçerliyse payload, değilse null. Store kontrolü yapmaz. */
+export async function verifySession(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) return null;
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+
+  try {
+    const ok = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(),
+      fromBase64Url(sig),
+      encoder.encode(body)
+    );
+    if (!ok) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionPayload;
+    if (typeof payload.sid !== "string" || typeof payload.username !== "string") return null;
+    if (!isRole(payload.role)) return null;
+    if (typeof payload.exp !== "number" || payload.exp <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
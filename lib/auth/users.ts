@@ -0,0 +1,63 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { hashPassword, verifyPassword } from "@/lib/auth/password.mjs";
+import { isRole, type Role } from "@/lib/auth/roles";
+
+export type AdminUser = {
+  username: string;
+  role: Role;
+  /** "scrypt:<salt base64>:<hash base64>"; `npm run hash-password` üretir. */
+  passwordHash: string;
+};
+
+// Bilinmeyen kullanıcıda da aynı süre harcansın diye
+const DUMMY_HASH = hashPassword(randomBytes(8).toString("hex"));
+
+function sha(s: string) {
+  return createHash("sha256").update(s).digest();
+}
+
+/**
+ * ADMIN_USERS: [{"username":"mert","role":"owner","passwordHash":"scrypt:…"}]
+ * Eski kurulumlar için ADMIN_USERNAME + ADMIN_PASSWORD tek bir "owner" olarak okunur.
+ */
+function loadUsers(): AdminUser[] {
+  const users: AdminUser[] = [];
+
+  const raw = process.env.ADMIN_USERS;
+  if (raw) {
+    try {
+      const data = JSON.parse(raw);
+      if (Array.isArray(data)) {
+        for (const u of data) {
+          if (typeof u?.username === "string" && isRole(u.role) && typeof u.passwordHash === "string") {
+            users.push({ username: u.username.toLowerCase(), role: u.role, passwordHash: u.passwordHash });
+          }
+        }
+      }
+    } catch {
+      console.error("[auth] ADMIN_USERS geçerli JSON değil");
+    }
+  }
+
+  return users;
+}
+
+function legacyOwner(username: string, password: string): AdminUser | null {
+  const expectedUser = (process.env.ADMIN_USERNAME || "admin").toLowerCase();
+  const expectedPassword = process.env.ADMIN_PASSWORD;
+  if (!expectedPassword) return null;
+
+  const userOk = timingSafeEqual(sha(username), sha(expectedUser));
+  const passOk = timingSafeEqual(sha(password), sha(expectedPassword));
+  return userOk && passOk ? { username: expectedUser, role: "owner", passwordHash: "" } : null;
+}
+
+export function verifyCredentials(username: string, password: string): AdminUser | null {
+  const name = username.trim().toLowerCase();
+  const user = loadUsers().find((u) => u.username === name);
+
+  if (user) return verifyPassword(password, user.passwordHash) ? user : null;
+
+  verifyPassword(password, DUMMY_HASH);
+  return legacyOwner(name, password);
+}
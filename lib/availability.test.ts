@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  availabilityAt,
+  isOpenAt,
+  venueClock,
+  venueMidnight,
+  type AvailabilityWindow,
+  type VenueClock,
+  type Weekday,
+} from "@/lib/availability";
+
+const clock = (day: Weekday, time: string): VenueClock => {
+  const [h, m] = time.split(":").map(Number);
+  return { at: 0, day, minutes: h * 60 + m };
+};
+
+// Cuma ve cumartesi akşamı 18:00–02:00
+const overnight: AvailabilityWindow[] = [{ days: [5, 6], start: "18:00", end: "02:00" }];
+
+describe("isOpenAt", () => {
+  it("pencere yoksa her zaman açık", () => {
+    expect(isOpenAt([], clock(3, "04:00"))).toBe(true);
+    expect(isOpenAt(undefined, clock(3, "04:00"))).toBe(true);
+  });
+
+  it("gün içi pencerede başlangıç dahil, bitiş hariç", () => {
+    const lunch: AvailabilityWindow[] = [{ days: [1, 2, 3, 4, 5], start: "11:30", end: "15:00" }];
+    expect(isOpenAt(lunch, clock(1, "11:30"))).toBe(true);
+    expect(isOpenAt(lunch, clock(1, "14:59"))).toBe(true);
+    expect(isOpenAt(lunch, clock(1, "15:00"))).toBe(false);
+    expect(isOpenAt(lunch, clock(6, "12:00"))).toBe(false);
+  });
+
+  it("gece yarısını geçen pencere seçili günün akşamında açık", () => {
+    expect(isOpenAt(overnight, clock(5, "17:59"))).toBe(false);
+    expect(isOpenAt(overnight, clock(5, "18:00"))).toBe(true);
+    expect(isOpenAt(overnight, clock(5, "23:59"))).toBe(true);
+  });
+
+  it("gece yarısını geçen pencere ertesi sabah bitişe kadar açık", () => {
+    // Cumartesi 01:00 cuma gecesinin devamı, pazar 01:59 cumartesi gecesinin
+    expect(isOpenAt(overnight, clock(6, "01:00"))).toBe(true);
+    expect(isOpenAt(overnight, clock(7, "01:59"))).toBe(true);
+    expect(isOpenAt(overnight, clock(7, "02:00"))).toBe(false);
+    // Perşembe gecesi seçili değil
+    expect(isOpenAt(overnight, clock(5, "01:00"))).toBe(false);
+  });
+
+  it("pazar gecesi pazartesi sabahına sarar", () => {
+    const sunday: AvailabilityWindow[] = [{ days: [7], start: "20:00", end: "03:00" }];
+    expect(isOpenAt(sunday, clock(1, "02:30"))).toBe(true);
+    expect(isOpenAt(sunday, clock(2, "02:30"))).toBe(false);
+  });
+});
+
+describe("availabilityAt", () => {
+  const item = { isAvailable: true, availability: overnight };
+
+  it("elle kapatılan ürün saatten bağımsız kapalı", () => {
+    expect(availabilityAt({ ...item, isAvailable: false }, undefined, clock(5, "20:00")).state).toBe("off");
+  });
+
+  it("ürünün saati dışında outOfHours ve takıldığı pencereler", () => {
+    expect(availabilityAt(item, undefined, clock(3, "20:00"))).toEqual({ state: "outOfHours", windows: overnight });
+  });
+
+  it("ürün açıkken kategorinin saatleri de uygulanır", () => {
+    const category = { availability: [{ days: [5, 6] as Weekday[], start: "22:00", end: "04:00" }] };
+    expect(availabilityAt(item, category, clock(5, "20:00")).state).toBe("outOfHours");
+    expect(availabilityAt(item, category, clock(6, "01:00")).state).toBe("available");
+  });
+
+  it("saat bilinmiyorsa (clock null) sadece isAvailable'a bakar", () => {
+    expect(availabilityAt(item, undefined, null).state).toBe("available");
+  });
+});
+
+describe("venueClock", () => {
+  it("günü ve dakikayı mekanın saat diliminde verir", () => {
+    // 2026-10-16 Cuma 22:30 UTC = Cumartesi 01:30 İstanbul
+    const at = Date.UTC(2026, 9, 16, 22, 30);
+    expect(venueClock("Europe/Istanbul", at)).toEqual({ at, day: 6, minutes: 90 });
+  });
+});
+
+describe("venueMidnight", () => {
+  const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+  it("günün mekan saatiyle 00:00'ını verir", () => {
+    expect(iso(venueMidnight("Europe/Istanbul", "2026-10-21"))).toBe("2026-10-20T21:00:00.000Z");
+  });
+
+  it("yaz saati geçişlerinde doğru farkı kullanır", () => {
+    expect(iso(venueMidnight("Europe/Berlin", "2026-03-29"))).toBe("2026-03-28T23:00:00.000Z");
+    expect(iso(venueMidnight("Europe/Berlin", "2026-03-30"))).toBe("2026-03-29T22:00:00.000Z");
+  });
+
+  it("geçersiz tarihte null", () => {
+    expect(venueMidnight("Europe/Istanbul", "2026-02-30")).toBeNull();
+    expect(venueMidnight("Europe/Istanbul", "21.10.2026")).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+// Ürün ve kategorilerin haftalık servis saatleri. Saatler mekanın saat diliminde yorumlanır;
+// pencere yoksa her zaman açık. Elle kapatılan ürün (isAvailable=false) saatten bağımsız kapalıdır.
+
+import { formatWeekday } from "@/lib/format";
+import type { Locale } from "@/lib/i18n/locales";
+
+/** 1 = Pazartesi … 7 = Pazar */
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type AvailabilityWindow = {
+  days: Weekday[];
+  /** "HH:MM"; bitiş başlangıçtan önceyse aralık gece yarısını geçer (18:00–02:00). */
+  start: string;
+  end: string;
+};
+
+/** Mekan saatine göre şu an: haftanın günü ve gece yarısından beri dakika; at epoch ms. */
+export type VenueClock = { at: number; day: Weekday; minutes: number };
+
+export type AvailabilityState = "available" | "outOfHours" | "off";
+
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTime(value: string) {
+  return TIME_RE.test(value);
+}
+
+function toMinutes(value: string) {
+  const [h, m] = value.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Çeviriler ve seçenekler gibi: bozuk pencere kaydı düşürmez, sadece atlanır.
+export function parseAvailability(raw: unknown): AvailabilityWindow[] {
+  if (!Array.isArray(raw)) return [];
+
+  const windows: AvailabilityWindow[] = [];
+  for (const w of raw) {
+    if (!w || typeof w !== "object") continue;
+    const r = w as Record<string, unknown>;
+    if (typeof r.start !== "string" || !isValidTime(r.start)) continue;
+    if (typeof r.end !== "string" || !isValidTime(r.end) || r.end === r.start) continue;
+    if (!Array.isArray(r.days)) continue;
+
+    const days = WEEKDAYS.filter((d) => (r.days as unknown[]).includes(d));
+    if (days.length === 0) continue;
+    windows.push({ days, start: r.start, end: r.end });
+  }
+  return windows;
+}
+
+const WEEKDAY_NAMES: Record<string, Weekday> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+const clockFormats = new Map<string, Intl.DateTimeFormat>();
+
+export function venueClock(timeZone: string, at: number | Date = Date.now()): VenueClock {
+  let fmt = clockFormats.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    clockFormats.set(timeZone, fmt);
+  }
+  const parts = Object.fromEntries(fmt.formatToParts(at).map((p) => [p.type, p.value]));
+  return {
+    at: typeof at === "number" ? at : at.getTime(),
+    day: WEEKDAY_NAMES[parts.weekday] ?? 1,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const offsetFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Saat diliminin o andaki UTC farkı (ms); yaz saati geçişleri de hesaba katılır.
+function zoneOffset(timeZone: string, at: number) {
+  let fmt = offsetFormats.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    offsetFormats.set(timeZone, fmt);
+  }
+  const p = Object.fromEntries(fmt.formatToParts(at).map((x) => [x.type, Number(x.value)]));
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * "2026-10-21" gününün mekan saatiyle 00:00'ı (epoch ms); tarih geçersizse null.
+ * Fiyat planları bu ana yazılır, günlük cron da mekan gece yarısında çalışır.
+ */
+export function venueMidnight(timeZone: string, date: string): number | null {
+  const m = DATE_RE.exec(date);
+  if (!m) return null;
+  const utc = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  if (new Date(utc).toISOString().slice(0, 10) !== date) return null;
+  // İlk tahminin farkı geçiş gününde yanlış olabilir; ikinci tur düzeltir
+  const first = utc - zoneOffset(timeZone, utc);
+  return utc - zoneOffset(timeZone, first);
+}
+
+function inWindow(w: AvailabilityWindow, { day, minutes }: VenueClock) {
+  const start = toMinutes(w.start);
+  const end = toMinutes(w.end);
+  if (start < end) return w.days.includes(day) && minutes >= start && minutes < end;
+  // Gece yarısını geçen aralık: seçili günün akşamı ve ertesi günün sabahı
+  const previous = (day === 1 ? 7 : day - 1) as Weekday;
+  return (w.days.includes(day) && minutes >= start) || (w.days.includes(previous) && minutes < end);
+}
+
+export function isOpenAt(windows: AvailabilityWindow[] | undefined, clock: VenueClock) {
+  return !windows?.length || windows.some((w) => inWindow(w, clock));
+}
+
+type Schedulable = { availability?: AvailabilityWindow[] };
+
+/**
+ * Ürünün o anki durumu ve kapalıysa hangi saatlere takıldığı (önce ürünün, sonra kategorinin).
+ * clock null ise (sunucu render'ı) saatler yok sayılır.
+ */
+export function availabilityAt(
+  item: Schedulable & { isAvailable: boolean },
+  category: Schedulable | undefined,
+  clock: VenueClock | null
+): { state: AvailabilityState; windows: AvailabilityWindow[] } {
+  if (!item.isAvailable) return { state: "off", windows: [] };
+  if (clock) {
+    for (const windows of [item.availability, category?.availability]) {
+      if (windows?.length && !isOpenAt(windows, clock)) return { state: "outOfHours", windows };
+    }
+  }
+  return { state: "available", windows: [] };
+}
+
+// Art arda üç ve daha fazla gün "Pzt–Cum" olarak kısaltılır.
+function describeDays(days: Weekday[], locale: Locale) {
+  const runs: Weekday[][] = [];
+  for (const day of days) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === day - 1) run.push(day);
+    else runs.push([day]);
+  }
+  return runs
+    .flatMap((run) =>
+      run.length >= 3
+        ? [`${formatWeekday(run[0], locale)}–${formatWeekday(run[run.length - 1], locale)}`]
+        : run.map((d) => formatWeekday(d, locale))
+    )
+    .join(", ");
+}
+
+/** "08:00–13:00" ya da her gün değilse "Cmt, Paz 10:00–14:00"; birden fazla pencere virgülle. */
+export function describeAvailability(windows: AvailabilityWindow[], locale: Locale) {
+  return windows
+    .map((w) => {
+      const hours = `${w.start}–${w.end}`;
+      return w.days.length === WEEKDAYS.length ? hours : `${describeDays(w.days, locale)} ${hours}`;
+    })
+    .join(", ");
+}
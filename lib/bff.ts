@@ -0,0 +1,110 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { can, type Permission } from "@/lib/auth/roles";
+import { getSession } from "@/lib/auth/session";
+import type { SessionPayload } from "@/lib/auth/token";
+import { ApiError } from "@/lib/http";
+import { getDefaultVenue, getVenue, venueMenuPath, venueMenuTag, type Venue } from "@/lib/venues";
+
+/**
+ * Admin route handler'larının ortak hata gövdesi. Tarayıcıdaki ApiError `message` alanını okur.
+ * code: "unauthorized" | "forbidden" | "not_found" | "bad_request" | "conflict" | "upstream_error" | "upstream_unavailable" |
+ * "server_error"
+ */
+export type BffError = {
+  status: number;
+  code: string;
+  message: string;
+  details?: unknown;
+};
+
+export function errorResponse(status: number, code: string, message: string, details?: unknown) {
+  const body: BffError = { status, code, message, ...(details === undefined ? {} : { details }) };
+  return Response.json(body, { status });
+}
+
+/** Upstream hatalarını tek tip JSON'a çevirir; 5xx ve ağ hataları 502 olur. */
+export function toErrorResponse(err: unknown) {
+  if (err instanceof ApiError) {
+    if (err.status === 0 || err.status >= 500) {
+      return errorResponse(502, "upstream_unavailable", `Menü API'sine ulaşılamadı: ${err.message}`);
+    }
+    if (err.status < 400) {
+      return errorResponse(502, "upstream_error", err.message, err.body);
+    }
+    return errorResponse(err.status, "upstream_error", err.message, err.body);
+  }
+  console.error("[bff] beklenmeyen hata", err);
+  return errorResponse(500, "server_error", "Beklenmeyen bir hata oluştu.");
+}
+
+export type AdminContext = {
+  venue: Venue;
+  session: SessionPayload;
+  /** Upstream X-Admin-Key; sadece sunucuda yaşar. */
+  adminKey: string;
+};
+
+/**
+ * Oturumu, rol yetkisini ve mekanı doğrular, handler'ı hata sarmalayıcısı içinde çalıştırır.
+ * permission null ise oturum yeterli (okuma uçları).
+ */
+export async function withAdmin(
+  venueSlug: string,
+  permission: Permission | null,
+  handler: (ctx: AdminContext) => Promise<Response>
+): Promise<Response> {
+  const session = await getSession();
+  if (!session) return errorResponse(401, "unauthorized", "Oturum yok ya da süresi doldu.");
+  if (permission && !can(session.role, permission)) {
+    return errorResponse(403, "forbidden", "Bu işlem için yetkiniz yok.", { permission });
+  }
+
+  const venue = getVenue(venueSlug);
+  if (!venue) return errorResponse(404, "not_found", `Bilinmeyen mekan: ${venueSlug}`);
+
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return errorResponse(500, "server_error", "ADMIN_API_KEY tanımlı değil.");
+
+  try {
+    return await handler({ venue, session, adminKey });
+  } catch (err) {
+    return toErrorResponse(err);
+  }
+}
+
+export async function readJson(req: Request): Promise<Record<string, unknown> | null> {
+  const body = await req.json().catch(() => null);
+  return body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+}
+
+export function parseId(raw: string) {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** Mekanın ISR sayfasını (varsayılan mekanda ana sayfa da) ve menü fetch cache'ini anında düşürür. */
+export function revalidateVenueMenu(venue: Venue) {
+  revalidateTag(venueMenuTag(venue.slug), { expire: 0 });
+  revalidatePath(venueMenuPath(venue.slug));
+  revalidatePath(`/menu/${venue.slug}`);
+  if (venue.slug === getDefaultVenue().slug) revalidatePath("/");
+}
+
+/** Paylaşılan sırrı sabit sürede karşılaştırır; sır tanımlı değilse her zaman false. */
+export function secretMatches(provided: string | null, secret: string | undefined) {
+  if (!secret || !provided) return false;
+  const sha = (v: string) => createHash("sha256").update(v).digest();
+  return timingSafeEqual(sha(provided), sha(secret));
+}
+
+/**
+ * İsteği yapanın IP'si. x-real-ip'i platform (Vercel, nginx) yazar; yoksa X-Forwarded-For'un son
+ * girdisi, önümüzdeki proxy'nin eklediği adrestir. İlk girdiler istemcinin kendi yazdığı olabilir.
+ */
+export function clientIp(req: Request) {
+  const realIp = req.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",");
+  return forwarded?.[forwarded.length - 1]?.trim() || "unknown";
+}
@@ -0,0 +1,225 @@
+import { parseAvailability, type AvailabilityWindow } from "@/lib/availability";
+import { ApiError, buildUrl, request, type ApiScope, type RequestOptions } from "@/lib/http";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "@/lib/i18n/locales";
+import type { MenuItem } from "@/lib/menuApi";
+import type { Venue } from "@/lib/venues";
+
+export type CategoryTranslation = {
+  name?: string;
+  description?: string | null;
+};
+
+/** Ürünler kategoriye Türkçe adıyla bağlı (MenuItem.category === Category.name). */
+export type Category = {
+  id: number;
+  name: string;
+  /** Küçük olan önce; eşitlikte ada göre. */
+  sortOrder: number;
+  icon?: string | null;
+  description?: string | null;
+  /** Pasif kategori ve ürünleri misafir menüsünde görünmez. */
+  isActive: boolean;
+  /** Kategorideki tüm ürünler için servis saatleri; ürünün kendi saatleriyle birlikte uygulanır. */
+  availability?: AvailabilityWindow[];
+  translations?: Partial<Record<Locale, CategoryTranslation>>;
+};
+
+export type CategoryInput = Omit<Category, "id" | "sortOrder">;
+
+function optionalText(v: unknown) {
+  return typeof v === "string" && v.trim() ? v : null;
+}
+
+function parseTranslations(raw: unknown): Category["translations"] {
+  const out: Category["translations"] = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+
+  for (const locale of LOCALES) {
+    if (locale === DEFAULT_LOCALE) continue;
+    const t = (raw as Record<string, unknown>)[locale];
+    if (!t || typeof t !== "object") continue;
+
+    const { name, description } = t as Record<string, unknown>;
+    const entry: CategoryTranslation = {};
+    if (typeof name === "string" && name.trim()) entry.name = name;
+    if (typeof description === "string" && description.trim()) entry.description = description;
+    if (entry.name || entry.description) out[locale] = entry;
+  }
+  return out;
+}
+
+export function parseCategory(raw: unknown): Category | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || !Number.isInteger(r.id)) return null;
+  if (typeof r.name !== "string" || !r.name.trim()) return null;
+  return {
+    id: r.id,
+    name: r.name,
+    sortOrder: typeof r.sortOrder === "number" && Number.isFinite(r.sortOrder) ? r.sortOrder : 0,
+    icon: optionalText(r.icon),
+    description: optionalText(r.description),
+    isActive: r.isActive !== false,
+    availability: parseAvailability(r.availability),
+    translations: parseTranslations(r.translations),
+  };
+}
+
+/** Admin route'larına gelen gövde için; id ve sıra ayrı uçlardan yönetilir. */
+export function parseCategoryInput(
+  raw: unknown
+): { ok: true; input: CategoryInput } | { ok: false; reason: string } {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (typeof r.name !== "string" || !r.name.trim()) return { ok: false, reason: "ad eksik" };
+  if (r.isActive !== undefined && typeof r.isActive !== "boolean") {
+    return { ok: false, reason: "isActive boolean değil" };
+  }
+  if (typeof r.icon === "string" && [...r.icon.trim()].length > 8) {
+    return { ok: false, reason: "ikon en fazla birkaç karakter olabilir" };
+  }
+  return {
+    ok: true,
+    input: {
+      name: r.name.trim(),
+      icon: optionalText(r.icon)?.trim() ?? null,
+      description: optionalText(r.description)?.trim() ?? null,
+      isActive: r.isActive !== false,
+      availability: parseAvailability(r.availability),
+      translations: parseTranslations(r.translations),
+    },
+  };
+}
+
+export function sortCategories(categories: Category[]) {
+  return [...categories].sort(
+    (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, "tr")
+  );
+}
+
+/**
+ * API'de henüz kategori kaydı yoksa config/venues.json'daki sıra ve çevirilerden türetilir;
+ * ilk kayıtlar admin panelinden bu listeyle oluşturulabilir.
+ */
+export function fallbackCategories(venue: Venue): Category[] {
+  return venue.categoryOrder.map((name, index) => ({
+    id: -(index + 1),
+    name,
+    sortOrder: index,
+    icon: null,
+    description: null,
+    isActive: true,
+    translations: Object.fromEntries(
+      Object.entries(venue.categoryLabels?.[name] ?? {}).map(([locale, label]) => [locale, { name: label }])
+    ),
+  }));
+}
+
+/** Seçili dildeki ad/açıklama; eksik alanlar Türkçe kalır. */
+export function localizeCategory(category: Category, locale: Locale): Category {
+  const t = category.translations?.[locale];
+  if (!t) return category;
+  return {
+    ...category,
+    name: t.name?.trim() || category.name,
+    description: t.description?.trim() || category.description,
+  };
+}
+
+/**
+ * Misafir menüsünde görünecek kategoriler, sırasıyla. Aktif ve en az bir ürünü olanlar gelir;
+ * kaydı olmayan kategorideki ürünler kaybolmasın diye o adlar alfabetik olarak sona eklenir.
+ */
+export function visibleCategories(categories: Category[], items: Pick<MenuItem, "category">[]) {
+  const used = new Set(items.map((x) => x.category.trim()));
+  const known = new Set(categories.map((c) => c.name));
+
+  const ordered = sortCategories(categories).filter((c) => c.isActive && used.has(c.name));
+  const extras = Array.from(used)
+    .filter((name) => name && !known.has(name))
+    .sort((a, b) => a.localeCompare(b, "tr"))
+    .map<Category>((name) => ({ id: 0, name, sortOrder: Number.MAX_SAFE_INTEGER, isActive: true }));
+
+  return [...ordered, ...extras];
+}
+
+/** Pasif kategorilerin adları; bu kategorilerdeki ürünler misafire gösterilmez. */
+export function inactiveCategoryNames(categories: Category[]) {
+  return new Set(categories.filter((c) => !c.isActive).map((c) => c.name));
+}
+
+export function parseCategoryList(data: unknown): Category[] {
+  if (!Array.isArray(data)) throw new ApiError(200, "Kategori yanıtı liste değil.", data);
+  return sortCategories(data.map(parseCategory).filter((c): c is Category => c !== null));
+}
+
+function toPayload(input: CategoryInput) {
+  return {
+    name: input.name.trim(),
+    icon: input.icon?.trim() || null,
+    description: input.description?.trim() || null,
+    isActive: input.isActive,
+    availability: parseAvailability(input.availability),
+    translations: parseTranslations(input.translations),
+  };
+}
+
+export function createCategoriesApi(scope: ApiScope = {}) {
+  return {
+    async list(options: Pick<RequestOptions, "onRetry" | "retries" | "next"> = {}): Promise<Category[]> {
+      return parseCategoryList(await request(buildUrl(scope, "/api/Categories"), options));
+    },
+
+    async get(id: number): Promise<Category> {
+      const data = await request(buildUrl(scope, `/api/Categories/${id}`));
+      const parsed = parseCategory(data);
+      if (!parsed) throw new ApiError(200, "Kategori kaydı hatalı.", data);
+      return parsed;
+    },
+
+    async create(input: CategoryInput, sortOrder: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/Categories"), {
+        method: "POST",
+        body: { ...toPayload(input), sortOrder },
+        adminKey,
+      });
+    },
+
+    /** sortOrder kayıttaki değer; sırayı sadece reorder değiştirir. */
+    async update(id: number, input: CategoryInput, sortOrder: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Categories/${id}`), {
+        method: "PUT",
+        body: { id, ...toPayload(input), sortOrder },
+        adminKey,
+      });
+    },
+
+    async delete(id: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Categories/${id}`), { method: "DELETE", adminKey });
+    },
+
+    /** ids sırasıyla sortOrder 0, 1, 2… olur. */
+    async reorder(ids: number[], adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/Categories/order"), {
+        method: "PUT",
+        body: { ids },
+        adminKey,
+      });
+    },
+  };
+}
+
+export type CategoriesApi = ReturnType<typeof createCategoriesApi>;
+
+/**
+ * Misafir menüsü sayfası için: API'de kayıt yoksa ya da uç yanıt vermezse ayarlardaki sıra kullanılır.
+ * Sipariş doğrulamasında kullanılmaz; hata durumunda pasif kategoriler açık görünürdü.
+ */
+export async function loadVenueCategories(
+  venue: Venue,
+  options: Pick<RequestOptions, "retries" | "next"> = {}
+): Promise<Category[]> {
+  const list = await createCategoriesApi(venue.api)
+    .list(options)
+    .catch(() => []);
+  return list.length ? list : fallbackCategories(venue);
+}
@@ -0,0 +1,83 @@
+// AB 1169/2011 Ek II'deki 14 alerjen + menüde filtrelenen beslenme/lezzet etiketleri.
+// Görünen adlar mesaj kataloğunda: allergen.<kod>, dietary.<kod>.
+
+export const ALLERGENS = [
+  "gluten",
+  "crustaceans",
+  "eggs",
+  "fish",
+  "peanuts",
+  "soybeans",
+  "milk",
+  "nuts",
+  "celery",
+  "mustard",
+  "sesame",
+  "sulphites",
+  "lupin",
+  "molluscs",
+] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+export const DIETARY_TAGS = ["vegetarian", "vegan", "glutenFree", "spicy"] as const;
+
+export type DietaryTag = (typeof DIETARY_TAGS)[number];
+
+export const ALLERGEN_ICONS: Record<Allergen, string> = {
+  gluten: "🌾",
+  crustaceans: "🦐",
+  eggs: "🥚",
+  fish: "🐟",
+  peanuts: "🥜",
+  soybeans: "🫘",
+  milk: "🥛",
+  nuts: "🌰",
+  celery: "🥬",
+  mustard: "🟡",
+  sesame: "⚪",
+  sulphites: "🍷",
+  lupin: "🌼",
+  molluscs: "🐚",
+};
+
+export const DIETARY_ICONS: Record<DietaryTag, string> = {
+  vegetarian: "🥗",
+  vegan: "🌱",
+  glutenFree: "🚫🌾",
+  spicy: "🌶️",
+};
+
+export function isAllergen(v: unknown): v is Allergen {
+  return ALLERGENS.includes(v as Allergen);
+}
+
+export function isDietaryTag(v: unknown): v is DietaryTag {
+  return DIETARY_TAGS.includes(v as DietaryTag);
+}
+
+/** Bilinmeyen kodları atar, tekrarları siler ve sabit sıraya dizer. */
+export function parseCodes<T extends string>(raw: unknown, known: readonly T[]): T[] {
+  if (!Array.isArray(raw)) return [];
+  return known.filter((code) => raw.includes(code));
+}
+
+/** Misafir filtresi: require'daki etiketlerin hepsi olmalı, exclude'daki alerjenlerin hiçbiri olmamalı. */
+export type DietaryFilter = {
+  require: DietaryTag[];
+  exclude: Allergen[];
+};
+
+export const EMPTY_DIETARY_FILTER: DietaryFilter = { require: [], exclude: [] };
+
+export function matchesDietaryFilter(
+  item: { allergens?: Allergen[]; tags?: DietaryTag[] },
+  filter: DietaryFilter
+) {
+  const tags = item.tags ?? [];
+  const allergens = item.allergens ?? [];
+  return (
+    filter.require.every((t) => tags.includes(t)) &&
+    !filter.exclude.some((a) => allergens.includes(a))
+  );
+}
@@ -0,0 +1,76 @@
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/locales";
+
+// Fiyatlar her dilde TL; sadece sembol yeri, ayraçlar ve saat biçimi dile göre değişir.
+const INTL_TAGS: Record<Locale, string> = {
+  tr: "tr-TR",
+  en: "en-GB",
+  de: "de-DE",
+  ru: "ru-RU",
+};
+
+const currencyFormats = new Map<Locale, Intl.NumberFormat>();
+
+export function formatTRY(value: number, locale: Locale = DEFAULT_LOCALE) {
+  let fmt = currencyFormats.get(locale);
+  if (!fmt) {
+    fmt = new Intl.NumberFormat(INTL_TAGS[locale], {
+      style: "currency",
+      currency: "TRY",
+      currencyDisplay: "narrowSymbol",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    });
+    currencyFormats.set(locale, fmt);
+  }
+  return fmt.format(Number.isFinite(value) ? value : 0);
+}
+
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE) {
+  return value.toLocaleString(INTL_TAGS[locale], { maximumFractionDigits: 2 });
+}
+
+/** "14:05" gibi saat:dakika; geçersiz tarihte boş metin. */
+export function formatClock(value: number | string, locale: Locale = DEFAULT_LOCALE) {
+  const d = new Date(value);
+  return Number.isNaN(d.getTime())
+    ? ""
+    : d.toLocaleTimeString(INTL_TAGS[locale], { hour: "2-digit", minute: "2-digit" });
+}
+
+/** "19.10.2026 14:05" gibi tarih ve saat; geçersiz tarihte boş metin. */
+export function formatDateTime(value: number | string, locale: Locale = DEFAULT_LOCALE) {
+  const d = new Date(value);
+  return Number.isNaN(d.getTime())
+    ? ""
+    : d.toLocaleString(INTL_TAGS[locale], { dateStyle: "short", timeStyle: "short" });
+}
+
+/** 12.5 → "+%12,5" (tr) / "+12.5%" (en); sıfırda işaret yok. */
+export function formatPercent(value: number, locale: Locale = DEFAULT_LOCALE) {
+  return new Intl.NumberFormat(INTL_TAGS[locale], {
+    style: "percent",
+    signDisplay: "exceptZero",
+    maximumFractionDigits: 1,
+  }).format(value / 100);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** <input type="date"> değeri, yerel saate göre ("2026-10-19"). */
+export function toDateInputValue(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** <input type="datetime-local"> değeri, yerel saate göre ("2026-10-19T14:05"). */
+export function toDateTimeInputValue(d: Date) {
+  return `${toDateInputValue(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** 1 = Pazartesi … 7 = Pazar → "Pzt" / "Mon". */
+export function formatWeekday(day: number, locale: Locale = DEFAULT_LOCALE) {
+  // 1 Ocak 2024 pazartesi
+  return new Date(Date.UTC(2024, 0, day)).toLocaleDateString(INTL_TAGS[locale], {
+    weekday: "short",
+    timeZone: "UTC",
+  });
+}
@@ -0,0 +1,135 @@
+export const BASE_URL =
+  process.env.NEXT_PUBLIC_API_BASE || "https://qrmenu-api-om05.onrender.com";
+
+/** Bir mekanın menüsünü API'de ayıran bilgiler (bkz. config/venues.json). */
+export type ApiScope = {
+  /** Verilmezse NEXT_PUBLIC_API_BASE kullanılır. */
+  baseUrl?: string;
+  /** Aynı API birden fazla mekana hizmet ediyorsa ?venueId= olarak gönderilir. */
+  venueId?: string;
+};
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, message: string, body: unknown = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** alert() mesajları için: "Status: 500\nmesaj" */
+export function errorText(err: unknown) {
+  if (err instanceof ApiError) return `Status: ${err.status}\n${err.message}`;
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text().catch(() => "");
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function messageFrom(body: unknown, status: number) {
+  if (typeof body === "string" && body.trim()) return body.trim();
+  if (body && typeof body === "object") {
+    const b = body as Record<string, unknown>;
+    for (const key of ["message", "title", "error"]) {
+      if (typeof b[key] === "string" && b[key]) return b[key] as string;
+    }
+  }
+  return `İstek başarısız (HTTP ${status})`;
+}
+
+export type RequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  /** JSON'a çevrilir; FormData (dosya yükleme) olduğu gibi gider. */
+  body?: unknown;
+  adminKey?: string;
+  /** Tek denemenin süre sınırı. Render free instance uyanırken 30sn+ sürebiliyor. */
+  timeoutMs?: number;
+  /** Sadece GET için varsayılan olarak açık; yazma istekleri tekrar edilmez. */
+  retries?: number;
+  onRetry?: (attempt: number, err: ApiError) => void;
+  /** Verilirse istek Next data cache'ine girer (sadece sunucu tarafında anlamlı). */
+  next?: { revalidate?: number; tags?: string[] };
+};
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+const DEFAULT_GET_RETRIES = 3;
+const BACKOFF_BASE_MS = 1_000;
+
+function isRetryable(err: ApiError) {
+  // 0: ağ hatası / timeout, 408/429: geçici, 5xx: uyanan ya da düşen sunucu
+  return err.status === 0 || err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+export function buildUrl(scope: ApiScope, path: string, query: Record<string, string> = {}) {
+  const params = new URLSearchParams(query);
+  if (scope.venueId) params.set("venueId", scope.venueId);
+  const qs = params.toString();
+  return `${scope.baseUrl || BASE_URL}${path}${qs ? `?${qs}` : ""}`;
+}
+
+async function attempt(
+  url: string,
+  { method = "GET", body, adminKey, timeoutMs, next }: RequestOptions
+) {
+  const isForm = typeof FormData !== "undefined" && body instanceof FormData;
+  const headers: Record<string, string> = {};
+  if (body !== undefined && !isForm) headers["Content-Type"] = "application/json";
+  if (adminKey) headers["X-Admin-Key"] = adminKey;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+        ...(next ? { next } : { cache: "no-store" as const }),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) throw new ApiError(0, "Sunucu zamanında yanıt vermedi.");
+      throw new ApiError(0, "Sunucuya ulaşılamadı.", err instanceof Error ? err.message : null);
+    }
+
+    const data = await readBody(res);
+    if (!res.ok) throw new ApiError(res.status, messageFrom(data, res.status), data);
+    return data;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function request(url: string, options: RequestOptions = {}) {
+  const method = options.method ?? "GET";
+  const retries = options.retries ?? (method === "GET" ? DEFAULT_GET_RETRIES : 0);
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(url, options);
+    } catch (err) {
+      if (!(err instanceof ApiError) || i >= retries || !isRetryable(err)) throw err;
+      options.onRetry?.(i + 1, err);
+      // 1sn, 2sn, 4sn… + biraz jitter
+      await sleep(BACKOFF_BASE_MS * 2 ** i + Math.random() * 250);
+    }
+  }
+}
+
@@ -0,0 +1,40 @@
+export const LOCALES = ["tr", "en", "de", "ru"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+/** Ana içerik dili; çevirisi olmayan metinler buna düşer. */
+export const DEFAULT_LOCALE: Locale = "tr";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  tr: "Türkçe",
+  en: "English",
+  de: "Deutsch",
+  ru: "Русский",
+};
+
+/** Misafirin seçtiği dil; proxy.ts ilk ziyarette Accept-Language'dan yazar. */
+export const LOCALE_COOKIE = "qrmenu_locale";
+
+export function isLocale(v: unknown): v is Locale {
+  return LOCALES.includes(v as Locale);
+}
+
+/** "de-DE,de;q=0.9,en;q=0.8" → "de". Desteklenen dil yoksa Türkçe. */
+export function pickLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return { lang: tag.split("-")[0].toLowerCase(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter((x) => x.lang && Number.isFinite(x.q) && x.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { lang } of ranked) {
+    if (isLocale(lang)) return lang;
+  }
+  return DEFAULT_LOCALE;
+}
@@ -0,0 +1,389 @@
+import type { Catalog } from "@/lib/i18n/translate";
+
+export const de: Catalog = {
+  "common.loading": "Wird geladen…",
+  "common.refresh": "Aktualisieren",
+  "common.close": "Schließen",
+  "common.cancel": "Abbrechen",
+  "common.save": "Speichern",
+  "common.edit": "Bearbeiten",
+  "common.delete": "Löschen",
+  "common.retry": "Erneut versuchen",
+  "common.total": "Summe",
+  "common.table": "Tisch {table}",
+  "common.language": "Sprache",
+  "common.allCategories": "Alle",
+  "common.closeHint": "Schließen: außerhalb klicken • ESC",
+  "common.offline": "offline • gespeicherte Speisekarte",
+  "common.itemCount": { one: "{count} Artikel", other: "{count} Artikel" },
+
+  "time.justNow": "gerade eben",
+  "time.minutesAgo": "vor {minutes} Min.",
+  "time.hoursAgo": "vor {hours} Std. {minutes} Min.",
+
+  "menu.searchPlaceholder": "Gerichte oder Kategorien suchen…",
+  "menu.loading": "Speisekarte wird geladen…",
+  "menu.waking": "Der Server startet, das kann einen Moment dauern.",
+  "menu.updating": "Speisekarte wird aktualisiert…",
+  "menu.updatingSince": "Speisekarte wird aktualisiert… (zuletzt gespeichert: {time})",
+  "menu.stale": "Die Speisekarte konnte nicht aktualisiert werden, die zuletzt gespeicherte wird angezeigt.",
+  "menu.staleSince":
+    "Die Speisekarte konnte nicht aktualisiert werden, die zuletzt gespeicherte wird angezeigt ({time}).",
+  "menu.loadFailed": "Die Speisekarte kann gerade nicht geladen werden.",
+  "menu.empty": "Keine Artikel gefunden.",
+  "menu.didYouMean": "Meinten Sie:",
+  "menu.details": "Für Details tippen →",
+  "menu.addToBasket": "+ In den Warenkorb",
+  "menu.addToBasketWithPrice": "In den Warenkorb • {price}",
+  "menu.descriptionTitle": "Zutaten / Beschreibung",
+  "menu.noDescription": "Für diesen Artikel gibt es keine Beschreibung.",
+  "menu.autoUpdated": "{venue} • Die Speisekarte aktualisiert sich automatisch",
+  "menu.credit": "Erstellt von Mert Özgenç",
+  "menu.allergensTitle": "Allergene",
+  "menu.noAllergens": "Keine Allergenangaben hinterlegt.",
+  "menu.optionRequired": "Pflicht • eins wählen",
+  "menu.optionOptional": "Optional",
+  "menu.optionMissing": "Bitte wählen: {group}",
+  "menu.serviceHours": "Serviert: {hours}",
+  "menu.outOfHours": "Derzeit nicht verfügbar",
+  "menu.promotionBadge": "🏷️ {name}",
+
+  "filters.title": "Filter",
+  "filters.titleActive": "Filter ({count})",
+  "filters.showOnly": "Nur anzeigen",
+  "filters.hideContaining": "Ausblenden, wenn enthalten",
+  "filters.clear": "Filter zurücksetzen",
+
+  "dietary.vegetarian": "Vegetarisch",
+  "dietary.vegan": "Vegan",
+  "dietary.glutenFree": "Glutenfrei",
+  "dietary.spicy": "Scharf",
+
+  "allergen.gluten": "Gluten",
+  "allergen.crustaceans": "Krebstiere",
+  "allergen.eggs": "Eier",
+  "allergen.fish": "Fisch",
+  "allergen.peanuts": "Erdnüsse",
+  "allergen.soybeans": "Soja",
+  "allergen.milk": "Milch",
+  "allergen.nuts": "Schalenfrüchte",
+  "allergen.celery": "Sellerie",
+  "allergen.mustard": "Senf",
+  "allergen.sesame": "Sesam",
+  "allergen.sulphites": "Sulfite",
+  "allergen.lupin": "Lupinen",
+  "allergen.molluscs": "Weichtiere",
+
+  "basket.button": "🧺 Warenkorb ({count}) • {total}",
+  "basket.title": "🧺 Warenkorb",
+  "basket.noTable": "Kein Tisch ausgewählt",
+  "basket.empty": "Ihr Warenkorb ist leer.",
+  "basket.decrease": "Weniger",
+  "basket.increase": "Mehr",
+  "basket.lineNotePlaceholder": "Notiz (z. B. ohne Zwiebeln)",
+  "basket.orderNotePlaceholder": "Bestellnotiz (optional)",
+  "basket.scanQr": "Scannen Sie den QR-Code auf Ihrem Tisch, um zu bestellen.",
+  "basket.submit": "Bestellung senden",
+  "basket.sending": "Wird gesendet…",
+  "basket.submitFailed": "Die Bestellung konnte nicht gesendet werden!",
+  "basket.orderReceived": "Ihre Bestellung ist eingegangen (#{id})",
+  "basket.orderReceivedHint": "Sie wird an Ihren Tisch gebracht, sobald sie fertig ist.",
+
+  "service.callWaiter": "🙋 Kellner rufen",
+  "service.requestBill": "🧾 Rechnung anfordern",
+  "service.waiterSent": "Ein Kellner kommt gleich zu Ihnen.",
+  "service.billSent": "Die Rechnung kommt gleich.",
+  "service.tooSoon": "Ihre Anfrage wurde bereits gesendet. Erneut möglich in {seconds} s.",
+  "service.failed": "Die Anfrage konnte nicht gesendet werden, bitte erneut versuchen.",
+
+  "orderStatus.new": "Neu",
+  "orderStatus.preparing": "In Zubereitung",
+  "orderStatus.served": "Serviert",
+
+  "serviceKind.waiter": "Ruft Kellner",
+  "serviceKind.bill": "Möchte zahlen",
+
+  "role.owner": "Inhaber",
+  "role.manager": "Manager",
+  "role.staff": "Personal",
+
+  "login.title": "🔒 {venue} Admin",
+  "login.subtitle": "Melden Sie sich im Admin-Bereich an.",
+  "login.username": "Benutzername",
+  "login.password": "Passwort",
+  "login.submit": "Anmelden",
+  "login.submitting": "Anmeldung läuft…",
+  "login.required": "Benutzername und Passwort eingeben.",
+  "login.invalid": "Benutzername oder Passwort falsch.",
+  "login.locked": "Zu viele Fehlversuche. Bitte später erneut versuchen.",
+  "login.failed": "Anmeldung fehlgeschlagen.",
+  "login.expired": "Ihre Sitzung ist abgelaufen, bitte erneut anmelden.",
+
+  "admin.title": "🛠️ {venue} Admin",
+  "admin.subtitle": "Artikel verwalten • Fotos/Inhalte hinzufügen • Aktiv/Inaktiv •",
+  "admin.openMenu": "Speisekarte öffnen",
+  "admin.venue": "Lokal",
+  "admin.signOut": "Abmelden",
+  "admin.sessionFailed": "Sitzung konnte nicht gelesen werden!",
+  "admin.loadFailed": "Speisekarte konnte nicht geladen werden!",
+  "admin.createFailed": "Hinzufügen fehlgeschlagen!",
+  "admin.updateFailed": "Aktualisieren fehlgeschlagen!",
+  "admin.deleteFailed": "Löschen fehlgeschlagen!",
+  "admin.confirmDelete": "Wirklich löschen?",
+  "admin.stats.total": "Artikel gesamt",
+  "admin.stats.active": "Aktiv",
+  "admin.stats.passive": "Inaktiv",
+  "admin.stats.categories": "Kategorien",
+  "admin.validation.nameRequired": "Der Artikelname darf nicht leer sein.",
+  "admin.validation.categoryRequired": "Die Kategorie darf nicht leer sein.",
+  "admin.validation.priceNumber": "Der Preis muss eine Zahl sein.",
+  "admin.validation.priceNegative": "Der Preis darf nicht negativ sein.",
+  "admin.validation.optionGroupName": "Der Name der Optionsgruppe darf nicht leer sein.",
+  "admin.validation.optionsEmpty": "„{group}“ braucht mindestens eine Option.",
+  "admin.validation.optionName": "Optionsnamen in „{group}“ dürfen nicht leer sein.",
+  "admin.validation.optionDelta": "Der Aufpreis muss eine Zahl sein.",
+  "admin.validation.availabilityDays": "Bitte mindestens einen Tag für die Servicezeiten wählen.",
+  "admin.validation.availabilityTime": "Servicezeiten brauchen einen gültigen, unterschiedlichen Beginn und Ende.",
+  "admin.filter.search": "Suche",
+  "admin.filter.searchPlaceholder": "Artikel / Kategorie suchen…",
+  "admin.filter.category": "Kategorie",
+  "admin.filter.sort": "Sortieren",
+  "admin.filter.clear": "Filter zurücksetzen",
+  "admin.sort.default": "Standard",
+  "admin.sort.priceAsc": "Preis: aufsteigend",
+  "admin.sort.priceDesc": "Preis: absteigend",
+  "admin.sort.nameAsc": "Name: A → Z",
+  "admin.newItem": "➕ Neuer Artikel",
+  "admin.saving": "Speichern / Laden…",
+  "admin.field.name": "Artikelname",
+  "admin.field.namePlaceholder": "Hamburger",
+  "admin.field.price": "Preis (₺)",
+  "admin.field.category": "Kategorie",
+  "admin.field.categoryPlaceholder": "Burger",
+  "admin.field.imageUrl": "Foto-URL",
+  "admin.field.photo": "Foto",
+  "admin.field.photoOptional": "Foto (optional)",
+  "admin.field.imageUrlPlaceholder": "oder Foto-URL einfügen (https://…)",
+  "admin.field.description": "Beschreibung / Zutaten",
+  "admin.field.descriptionOptional": "Beschreibung / Zutaten (optional)",
+  "admin.field.descriptionPlaceholder": "z. B. Rindfleisch, Cheddar, Haussoße…",
+  "admin.field.available": "Aktiv",
+  "admin.field.availableLong": "Aktiv (auf der Speisekarte sichtbar)",
+  "admin.field.tags": "Ernährung / Geschmack",
+  "admin.field.allergens": "Allergene",
+  "admin.imageHint": "Wenn kein Bild erscheint, ist die URL vermutlich falsch.",
+  "admin.addItem": "Artikel hinzufügen",
+  "admin.items": "📦 Artikel",
+  "admin.resultCount": { one: "{count} Ergebnis", other: "{count} Ergebnisse" },
+  "admin.reorderHint": "Zum Sortieren ziehen",
+  "admin.reorderUnavailable": "Zum Sortieren eine Kategorie ohne Suche und mit Standardsortierung wählen",
+  "admin.reorderFailed": "Reihenfolge konnte nicht gespeichert werden!",
+  "admin.noPhoto": "Kein Foto",
+  "admin.noDescription": "Keine Beschreibung",
+  "admin.toggleTitle": "Aktiv/Inaktiv umschalten",
+  "admin.makeActive": "Aktivieren",
+  "admin.makePassive": "Deaktivieren",
+  "admin.schedule.open": "Jetzt geöffnet • {hours}",
+  "admin.schedule.closed": "Außerhalb der Zeiten • {hours}",
+  "admin.schedule.categoryInactive": "Kategorie inaktiv",
+  "admin.noEditPermission": "Keine Berechtigung zum Bearbeiten",
+  "admin.noItems": "Noch keine Artikel.",
+  "admin.editTitle": "✏️ Artikel bearbeiten",
+
+  "translations.title": "Übersetzungen",
+  "translations.name": "Artikelname ({language})",
+  "translations.description": "Beschreibung ({language})",
+  "translations.fallbackHint": "Leere Felder erscheinen auf der Speisekarte auf Türkisch.",
+
+  "options.title": "Optionen",
+  "options.hint": "Einfachauswahl-Gruppen wie die Größe sind Pflicht, Extras sind optional.",
+  "options.addGroup": "+ Gruppe hinzufügen",
+  "options.groupName": "Gruppenname",
+  "options.groupNamePlaceholder": "Größe",
+  "options.kind.single": "Einfachauswahl (Pflicht)",
+  "options.kind.multi": "Mehrfachauswahl (optional)",
+  "options.addOption": "+ Option hinzufügen",
+  "options.optionName": "Optionsname",
+  "options.optionNamePlaceholder": "Groß",
+  "options.priceDelta": "Aufpreis (₺)",
+  "options.removeGroup": "Gruppe entfernen",
+  "options.removeOption": "Option entfernen",
+  "options.groupCount": { one: "{count} Optionsgruppe", other: "{count} Optionsgruppen" },
+
+  "availability.title": "Servicezeiten",
+  "availability.add": "+ Zeitraum hinzufügen",
+  "availability.from": "Von",
+  "availability.to": "Bis",
+  "availability.remove": "Zeitraum entfernen",
+  "availability.hint":
+    "Leer lassen, um jederzeit zu servieren. Liegt das Ende vor dem Beginn, geht der Zeitraum über Mitternacht (z. B. 18:00–02:00). Zeiten in {timeZone}.",
+
+  "images.drop": "📷 Foto hierher ziehen oder zum Auswählen klicken",
+  "images.formats": "JPEG, PNG oder WebP, bis {size} MB. Wird auf 4:3 zugeschnitten, Standortdaten werden entfernt.",
+  "images.uploading": "Wird hochgeladen…",
+  "images.uploadFailed": "Foto konnte nicht hochgeladen werden!",
+  "images.tooLarge": "Das Foto darf höchstens {size} MB groß sein.",
+  "images.badType": "Nur JPEG-, PNG- oder WebP-Fotos können hochgeladen werden.",
+  "images.preview": "Fotovorschau",
+  "images.remove": "Foto entfernen",
+
+  "categories.title": "🗂️ Kategorien",
+  "categories.dragHint": "Zum Sortieren ziehen",
+  "categories.empty": "Noch keine Kategorien angelegt; die Speisekarte nutzt die Reihenfolge aus den Einstellungen.",
+  "categories.seed": "Aus vorhandenen Kategorien anlegen",
+  "categories.add": "Kategorie hinzufügen",
+  "categories.field.icon": "Symbol",
+  "categories.field.name": "Kategoriename",
+  "categories.field.description": "Beschreibung (optional)",
+  "categories.moveUp": "Nach oben",
+  "categories.moveDown": "Nach unten",
+  "categories.renameHint": "Beim Umbenennen werden die Artikel dieser Kategorie mit umbenannt.",
+  "categories.confirmDelete": "Kategorie „{name}“ löschen?",
+  "categories.saveFailed": "Kategorie konnte nicht gespeichert werden!",
+  "categories.deleteFailed": "Kategorie konnte nicht gelöscht werden!",
+  "categories.reorderFailed": "Reihenfolge konnte nicht gespeichert werden!",
+  "transfer.title": "📤 Import / Export",
+  "transfer.exportCsv": "CSV herunterladen",
+  "transfer.exportXlsx": "Excel herunterladen",
+  "transfer.import": "Aus Datei importieren",
+  "transfer.hint": "Spalten: id, name, category, price, isAvailable, imageUrl, description. Zeilen ohne id werden neue Gerichte; Übersetzungen, Allergene und Optionen bleiben erhalten.",
+  "transfer.exportFailed": "Datei konnte nicht erstellt werden!",
+  "transfer.readFailed": "Datei konnte nicht gelesen werden!",
+  "transfer.applyFailed": "Import fehlgeschlagen, nichts wurde geändert!",
+  "transfer.applied": "{created} Gerichte hinzugefügt, {updated} Gerichte aktualisiert.",
+  "transfer.missingColumns": "In der Datei fehlen diese Spalten: {columns}",
+  "transfer.invalidId": "id muss eine positive ganze Zahl sein.",
+  "transfer.unknownId": "Gericht #{id} ist nicht im Menü.",
+  "transfer.duplicateId": "#{id} kommt mehrfach in der Datei vor.",
+  "transfer.invalidAvailable": "isAvailable muss ja/nein oder true/false sein.",
+  "transfer.status.new": "Neu",
+  "transfer.status.changed": "Geändert",
+  "transfer.status.unchanged": "Unverändert",
+  "transfer.status.invalid": "Ungültig",
+  "transfer.showUnchanged": "Unveränderte anzeigen",
+  "transfer.nothingToApply": "Keine Zeile der Datei weicht vom Menü ab.",
+  "transfer.selectAll": "Alle auswählen",
+  "transfer.line": "Zeile",
+  "transfer.details": "Änderung",
+  "transfer.apply": { one: "{count} Änderung übernehmen", other: "{count} Änderungen übernehmen" },
+  "bulkPrice.title": "💸 Preise gesammelt ändern",
+  "bulkPrice.open": "Öffnen",
+  "bulkPrice.close": "Schließen",
+  "bulkPrice.scope": "Welche Gerichte?",
+  "bulkPrice.scope.all": "Alle Gerichte",
+  "bulkPrice.scope.categories": "Kategorien",
+  "bulkPrice.scope.selection": "Ausgewählte Gerichte",
+  "bulkPrice.selectedCount": { one: "{count} ausgewählt", other: "{count} ausgewählt" },
+  "bulkPrice.adjustment": "Änderung",
+  "bulkPrice.adjustmentHint": "Für einen Rabatt einen negativen Wert eingeben (z. B. -10).",
+  "bulkPrice.rounding": "Rundung",
+  "bulkPrice.rounding.none": "Keine Rundung",
+  "bulkPrice.rounding.nearest5": "Auf 5 ₺",
+  "bulkPrice.rounding.nearest10": "Auf 10 ₺",
+  "bulkPrice.rounding.end9": "Endet auf 9 (…9 ₺)",
+  "bulkPrice.summary": { one: "{count} Preis ändert sich", other: "{count} Preise ändern sich" },
+  "bulkPrice.noChanges": "Mit diesen Einstellungen ändert sich kein Preis.",
+  "bulkPrice.before": "Jetzt",
+  "bulkPrice.after": "Neu",
+  "bulkPrice.difference": "Differenz",
+  "bulkPrice.apply": { one: "{count} Preis ändern", other: "{count} Preise ändern" },
+  "bulkPrice.confirm": { one: "Preis von {count} Gericht ändern?", other: "Preise von {count} Gerichten ändern?" },
+  "bulkPrice.applied": { one: "{count} Preis geändert.", other: "{count} Preise geändert." },
+  "bulkPrice.schedule": { one: "{count} Preis planen", other: "{count} Preise planen" },
+  "bulkPrice.confirmSchedule": {
+    one: "Preis von {count} Gericht am {date} ändern?",
+    other: "Preise von {count} Gerichten am {date} ändern?",
+  },
+  "bulkPrice.scheduled": {
+    one: "{count} Preis für {date} geplant.",
+    other: "{count} Preise für {date} geplant.",
+  },
+  "bulkPrice.failed": "Preise konnten nicht geändert werden!",
+  "prices.history": "Preisverlauf",
+  "prices.historyEmpty": "Noch keine Preisänderungen.",
+  "prices.loadFailed": "Preisverlauf konnte nicht geladen werden.",
+  "prices.source.edit": "Bearbeitung",
+  "prices.source.bulk": "Sammeländerung",
+  "prices.source.import": "Import",
+  "prices.source.schedule": "Geplante Änderung",
+  "prices.when.now": "Sofort",
+  "prices.when.later": "Später",
+  "prices.newPrice": "Neuer Preis",
+  "prices.effectiveAt": "Gültig ab",
+  "prices.effectiveAtPast": "Das Datum muss morgen oder später sein.",
+  "prices.effectiveAtHint": "Der neue Preis gilt ab 00:00 Uhr Ortszeit des Lokals an diesem Tag.",
+  "prices.schedule": "Preis planen",
+  "prices.scheduledFor": "Ab {date}",
+  "prices.scheduleFailed": "Preis konnte nicht geplant werden!",
+  "prices.cancelSchedule": "Stornieren",
+  "prices.confirmCancel": "Diese geplante Preisänderung stornieren?",
+  "prices.cancelFailed": "Planung konnte nicht storniert werden!",
+  "priceReport.title": "📈 Preisänderungen",
+  "priceReport.upcoming": "Geplante Preise",
+  "priceReport.noUpcoming": "Keine geplanten Preisänderungen.",
+  "priceReport.from": "Von",
+  "priceReport.to": "Bis",
+  "priceReport.count": { one: "{count} Änderung", other: "{count} Änderungen" },
+  "priceReport.empty": "Keine Preisänderungen in diesem Zeitraum.",
+  "priceReport.date": "Datum",
+  "priceReport.source": "Quelle",
+  "priceReport.user": "Benutzer",
+
+  "promotions.title": "🏷️ Aktionen",
+  "promotions.empty": "Keine laufenden oder geplanten Aktionen.",
+  "promotions.loadFailed": "Aktionen konnten nicht geladen werden.",
+  "promotions.add": "+ Neue Aktion",
+  "promotions.name": "Name der Aktion",
+  "promotions.namePlaceholder": "z. B. Happy Hour",
+  "promotions.discount": "Rabatt",
+  "promotions.type.percent": "Prozent (%)",
+  "promotions.type.amount": "Betrag (₺)",
+  "promotions.type.fixedPrice": "Festpreis (₺)",
+  "promotions.fixedPrice": "{price} fest",
+  "promotions.startsAt": "Beginn",
+  "promotions.endsAt": "Ende",
+  "promotions.hours": "Tägliche Uhrzeiten",
+  "promotions.hoursHint": "Leer bedeutet ganztägig im gesamten Zeitraum. Uhrzeiten gelten in der Zeitzone {timeZone}.",
+  "promotions.categories": "Kategorien",
+  "promotions.items": "Gerichte",
+  "promotions.status.active": "Läuft",
+  "promotions.status.upcoming": "Geplant",
+  "promotions.confirmDelete": "Aktion \"{name}\" löschen?",
+  "promotions.saveFailed": "Aktion konnte nicht gespeichert werden!",
+  "promotions.deleteFailed": "Aktion konnte nicht gelöscht werden!",
+  "promotions.validation.name": "Der Name der Aktion darf nicht leer sein.",
+  "promotions.validation.scope": "Wählen Sie mindestens eine Kategorie oder ein Gericht.",
+  "promotions.validation.value": "Der Rabatt muss größer als null sein.",
+  "promotions.validation.percent": "Ein Prozentrabatt darf 100 nicht überschreiten.",
+  "promotions.validation.dates": "Das Ende muss nach dem Beginn liegen.",
+
+  "orders.title": "🧾 Eingehende Bestellungen",
+  "orders.openCount": { one: "{count} offen", other: "{count} offen" },
+  "orders.loadFailed": "Bestellungen konnten nicht geladen werden.",
+  "orders.statusFailed": "Status konnte nicht aktualisiert werden!",
+  "orders.note": "Notiz: {note}",
+  "orders.empty": "Noch keine Bestellungen.",
+
+  "serviceRequests.title": "🔔 Serviceanfragen",
+  "serviceRequests.sound": "Tonsignal",
+  "serviceRequests.loadFailed": "Anfragen konnten nicht geladen werden.",
+  "serviceRequests.acknowledge": "OK, wird erledigt",
+  "serviceRequests.acknowledgeFailed": "Bestätigung fehlgeschlagen!",
+  "serviceRequests.empty": "Keine offenen Anfragen.",
+
+  "tables.title": "🔳 Tisch-QR-Codes",
+  "tables.print": "A4-Tischaufsteller drucken",
+  "tables.printTitle": "{venue} • Tischaufsteller",
+  "tables.scanHint": "QR-Code scannen für die Speisekarte",
+  "tables.field.tables": "Tisch(e)",
+  "tables.field.tablesPlaceholder": "1-12, 15, Garten1",
+  "tables.field.zone": "Bereich (optional)",
+  "tables.field.zonePlaceholder": "Garten",
+  "tables.add": "Tische hinzufügen",
+  "tables.inputRequired": "Tischnummern eingeben (z. B. 1-12, 15, Garten1).",
+  "tables.qrAlt": "QR für Tisch {table}",
+  "tables.empty": "Noch keine Tische. QR-Codes verweisen auf Adressen wie:",
+  "tables.loadFailed": "Tische konnten nicht geladen werden.",
+  "tables.saveFailed": "Tische konnten nicht gespeichert werden!",
+  "tables.deleteFailed": "Tisch konnte nicht gelöscht werden!",
+};
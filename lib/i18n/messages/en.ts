@@ -0,0 +1,388 @@
+import type { Catalog } from "@/lib/i18n/translate";
+
+export const en: Catalog = {
+  "common.loading": "Loading…",
+  "common.refresh": "Refresh",
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.retry": "Try again",
+  "common.total": "Total",
+  "common.table": "Table {table}",
+  "common.language": "Language",
+  "common.allCategories": "All",
+  "common.closeHint": "To close: click outside • ESC",
+  "common.offline": "offline • showing saved menu",
+  "common.itemCount": { one: "{count} item", other: "{count} items" },
+
+  "time.justNow": "just now",
+  "time.minutesAgo": "{minutes} min ago",
+  "time.hoursAgo": "{hours} h {minutes} min ago",
+
+  "menu.searchPlaceholder": "Search dishes or categories…",
+  "menu.loading": "Loading menu…",
+  "menu.waking": "The server is waking up, this may take a moment.",
+  "menu.updating": "Updating menu…",
+  "menu.updatingSince": "Updating menu… (last saved: {time})",
+  "menu.stale": "The menu could not be updated, showing the last saved menu.",
+  "menu.staleSince": "The menu could not be updated, showing the last saved menu ({time}).",
+  "menu.loadFailed": "The menu could not be loaded right now.",
+  "menu.empty": "No items found.",
+  "menu.didYouMean": "Did you mean:",
+  "menu.details": "Tap for details →",
+  "menu.addToBasket": "+ Add to basket",
+  "menu.addToBasketWithPrice": "Add to basket • {price}",
+  "menu.descriptionTitle": "Ingredients / Description",
+  "menu.noDescription": "No description has been added for this item.",
+  "menu.autoUpdated": "{venue} • The menu updates automatically",
+  "menu.credit": "Made by Mert Özgenç",
+  "menu.allergensTitle": "Allergens",
+  "menu.noAllergens": "No allergen information has been entered.",
+  "menu.optionRequired": "Required • choose one",
+  "menu.optionOptional": "Optional",
+  "menu.optionMissing": "Please choose: {group}",
+  "menu.serviceHours": "Served: {hours}",
+  "menu.outOfHours": "Not served right now",
+  "menu.promotionBadge": "🏷️ {name}",
+
+  "filters.title": "Filters",
+  "filters.titleActive": "Filters ({count})",
+  "filters.showOnly": "Show only",
+  "filters.hideContaining": "Hide items containing",
+  "filters.clear": "Clear filters",
+
+  "dietary.vegetarian": "Vegetarian",
+  "dietary.vegan": "Vegan",
+  "dietary.glutenFree": "Gluten-free",
+  "dietary.spicy": "Spicy",
+
+  "allergen.gluten": "Gluten",
+  "allergen.crustaceans": "Crustaceans",
+  "allergen.eggs": "Eggs",
+  "allergen.fish": "Fish",
+  "allergen.peanuts": "Peanuts",
+  "allergen.soybeans": "Soy",
+  "allergen.milk": "Milk",
+  "allergen.nuts": "Tree nuts",
+  "allergen.celery": "Celery",
+  "allergen.mustard": "Mustard",
+  "allergen.sesame": "Sesame",
+  "allergen.sulphites": "Sulphites",
+  "allergen.lupin": "Lupin",
+  "allergen.molluscs": "Molluscs",
+
+  "basket.button": "🧺 Basket ({count}) • {total}",
+  "basket.title": "🧺 Basket",
+  "basket.noTable": "No table selected",
+  "basket.empty": "Your basket is empty.",
+  "basket.decrease": "Decrease",
+  "basket.increase": "Increase",
+  "basket.lineNotePlaceholder": "Note (e.g. no onions)",
+  "basket.orderNotePlaceholder": "Order note (optional)",
+  "basket.scanQr": "Scan the QR code on your table to place an order.",
+  "basket.submit": "Send order",
+  "basket.sending": "Sending…",
+  "basket.submitFailed": "The order could not be sent!",
+  "basket.orderReceived": "Your order has been received (#{id})",
+  "basket.orderReceivedHint": "It will be brought to your table when ready.",
+
+  "service.callWaiter": "🙋 Call waiter",
+  "service.requestBill": "🧾 Request bill",
+  "service.waiterSent": "A waiter is on the way.",
+  "service.billSent": "The bill is on its way.",
+  "service.tooSoon": "Your request was already sent. You can try again in {seconds} s.",
+  "service.failed": "The request could not be sent, please try again.",
+
+  "orderStatus.new": "New",
+  "orderStatus.preparing": "Preparing",
+  "orderStatus.served": "Served",
+
+  "serviceKind.waiter": "Calling a waiter",
+  "serviceKind.bill": "Requesting the bill",
+
+  "role.owner": "Owner",
+  "role.manager": "Manager",
+  "role.staff": "Staff",
+
+  "login.title": "🔒 {venue} Admin",
+  "login.subtitle": "Sign in to the admin panel.",
+  "login.username": "Username",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in…",
+  "login.required": "Enter your username and password.",
+  "login.invalid": "Wrong username or password.",
+  "login.locked": "Too many failed attempts. Please try again later.",
+  "login.failed": "Sign-in failed.",
+  "login.expired": "Your session has expired, please sign in again.",
+
+  "admin.title": "🛠️ {venue} Admin",
+  "admin.subtitle": "Manage items • Add photos/content • Active/Inactive •",
+  "admin.openMenu": "Open menu",
+  "admin.venue": "Venue",
+  "admin.signOut": "Sign out",
+  "admin.sessionFailed": "Could not read the session!",
+  "admin.loadFailed": "Could not load the menu!",
+  "admin.createFailed": "Could not add the item!",
+  "admin.updateFailed": "Could not update the item!",
+  "admin.deleteFailed": "Could not delete the item!",
+  "admin.confirmDelete": "Are you sure you want to delete this?",
+  "admin.stats.total": "Total items",
+  "admin.stats.active": "Active",
+  "admin.stats.passive": "Inactive",
+  "admin.stats.categories": "Categories",
+  "admin.validation.nameRequired": "Item name cannot be empty.",
+  "admin.validation.categoryRequired": "Category cannot be empty.",
+  "admin.validation.priceNumber": "Price must be a number.",
+  "admin.validation.priceNegative": "Price cannot be negative.",
+  "admin.validation.optionGroupName": "Option group name cannot be empty.",
+  "admin.validation.optionsEmpty": "“{group}” needs at least one option.",
+  "admin.validation.optionName": "Option names in “{group}” cannot be empty.",
+  "admin.validation.optionDelta": "Price difference must be a number.",
+  "admin.validation.availabilityDays": "Pick at least one day for the service hours.",
+  "admin.validation.availabilityTime": "Service hours need a valid start and end that differ.",
+  "admin.filter.search": "Search",
+  "admin.filter.searchPlaceholder": "Search items / categories…",
+  "admin.filter.category": "Category",
+  "admin.filter.sort": "Sort",
+  "admin.filter.clear": "Clear filters",
+  "admin.sort.default": "Default",
+  "admin.sort.priceAsc": "Price: low to high",
+  "admin.sort.priceDesc": "Price: high to low",
+  "admin.sort.nameAsc": "Name: A → Z",
+  "admin.newItem": "➕ New item",
+  "admin.saving": "Saving / loading…",
+  "admin.field.name": "Item name",
+  "admin.field.namePlaceholder": "Hamburger",
+  "admin.field.price": "Price (₺)",
+  "admin.field.category": "Category",
+  "admin.field.categoryPlaceholder": "Burger",
+  "admin.field.imageUrl": "Photo URL",
+  "admin.field.photo": "Photo",
+  "admin.field.photoOptional": "Photo (optional)",
+  "admin.field.imageUrlPlaceholder": "or paste a photo URL (https://…)",
+  "admin.field.description": "Description / ingredients",
+  "admin.field.descriptionOptional": "Description / ingredients (optional)",
+  "admin.field.descriptionPlaceholder": "e.g. Beef patty, cheddar, house sauce…",
+  "admin.field.available": "Active",
+  "admin.field.availableLong": "Active (shown on the menu)",
+  "admin.field.tags": "Diet / flavour",
+  "admin.field.allergens": "Allergens",
+  "admin.imageHint": "If the image does not show up, the URL may be wrong.",
+  "admin.addItem": "Add item",
+  "admin.items": "📦 Items",
+  "admin.resultCount": { one: "{count} result", other: "{count} results" },
+  "admin.reorderHint": "Drag to reorder",
+  "admin.reorderUnavailable": "To reorder, pick a single category with no search and the default sort",
+  "admin.reorderFailed": "Could not save the order!",
+  "admin.noPhoto": "No photo",
+  "admin.noDescription": "No description",
+  "admin.toggleTitle": "Toggle active/inactive",
+  "admin.makeActive": "Make active",
+  "admin.makePassive": "Make inactive",
+  "admin.schedule.open": "Open now • {hours}",
+  "admin.schedule.closed": "Out of hours • {hours}",
+  "admin.schedule.categoryInactive": "Category inactive",
+  "admin.noEditPermission": "You are not allowed to edit",
+  "admin.noItems": "No items yet.",
+  "admin.editTitle": "✏️ Edit item",
+
+  "translations.title": "Translations",
+  "translations.name": "Item name ({language})",
+  "translations.description": "Description ({language})",
+  "translations.fallbackHint": "Empty fields are shown in Turkish on the menu.",
+
+  "options.title": "Options",
+  "options.hint": "Single-choice groups such as size are required; extras are optional.",
+  "options.addGroup": "+ Add group",
+  "options.groupName": "Group name",
+  "options.groupNamePlaceholder": "Size",
+  "options.kind.single": "Single choice (required)",
+  "options.kind.multi": "Multiple choice (optional)",
+  "options.addOption": "+ Add option",
+  "options.optionName": "Option name",
+  "options.optionNamePlaceholder": "Large",
+  "options.priceDelta": "Price difference (₺)",
+  "options.removeGroup": "Remove group",
+  "options.removeOption": "Remove option",
+  "options.groupCount": { one: "{count} option group", other: "{count} option groups" },
+
+  "availability.title": "Service hours",
+  "availability.add": "+ Add time range",
+  "availability.from": "From",
+  "availability.to": "To",
+  "availability.remove": "Remove range",
+  "availability.hint":
+    "Leave empty to serve at all hours. An end before the start runs past midnight (e.g. 18:00–02:00). Times are in {timeZone}.",
+
+  "images.drop": "📷 Drop a photo here or click to choose one",
+  "images.formats": "JPEG, PNG or WebP, up to {size} MB. Cropped to 4:3, location data removed.",
+  "images.uploading": "Uploading…",
+  "images.uploadFailed": "Could not upload the photo!",
+  "images.tooLarge": "The photo can be at most {size} MB.",
+  "images.badType": "Only JPEG, PNG or WebP photos can be uploaded.",
+  "images.preview": "Photo preview",
+  "images.remove": "Remove photo",
+
+  "categories.title": "🗂️ Categories",
+  "categories.dragHint": "Drag to reorder",
+  "categories.empty": "No category records yet; the menu uses the order from the settings.",
+  "categories.seed": "Create from existing categories",
+  "categories.add": "Add category",
+  "categories.field.icon": "Icon",
+  "categories.field.name": "Category name",
+  "categories.field.description": "Description (optional)",
+  "categories.moveUp": "Move up",
+  "categories.moveDown": "Move down",
+  "categories.renameHint": "Renaming also moves the items in this category to the new name.",
+  "categories.confirmDelete": "Delete the “{name}” category?",
+  "categories.saveFailed": "Could not save the category!",
+  "categories.deleteFailed": "Could not delete the category!",
+  "categories.reorderFailed": "Could not save the order!",
+  "transfer.title": "📤 Import / Export",
+  "transfer.exportCsv": "Download CSV",
+  "transfer.exportXlsx": "Download Excel",
+  "transfer.import": "Import from file",
+  "transfer.hint": "Columns: id, name, category, price, isAvailable, imageUrl, description. Rows without an id become new items; translations, allergens and options are kept.",
+  "transfer.exportFailed": "Could not create the file!",
+  "transfer.readFailed": "Could not read the file!",
+  "transfer.applyFailed": "Import failed, nothing was changed!",
+  "transfer.applied": "{created} items added, {updated} items updated.",
+  "transfer.missingColumns": "The file is missing these columns: {columns}",
+  "transfer.invalidId": "id must be a positive whole number.",
+  "transfer.unknownId": "Item #{id} is not on the menu.",
+  "transfer.duplicateId": "#{id} appears more than once in the file.",
+  "transfer.invalidAvailable": "isAvailable must be yes/no or true/false.",
+  "transfer.status.new": "New",
+  "transfer.status.changed": "Changed",
+  "transfer.status.unchanged": "Unchanged",
+  "transfer.status.invalid": "Invalid",
+  "transfer.showUnchanged": "Show unchanged",
+  "transfer.nothingToApply": "No row in the file differs from the menu.",
+  "transfer.selectAll": "Select all",
+  "transfer.line": "Row",
+  "transfer.details": "Change",
+  "transfer.apply": { one: "Apply {count} change", other: "Apply {count} changes" },
+  "bulkPrice.title": "💸 Bulk Price Update",
+  "bulkPrice.open": "Open",
+  "bulkPrice.close": "Close",
+  "bulkPrice.scope": "Which items?",
+  "bulkPrice.scope.all": "All items",
+  "bulkPrice.scope.categories": "Categories",
+  "bulkPrice.scope.selection": "Selected items",
+  "bulkPrice.selectedCount": { one: "{count} selected", other: "{count} selected" },
+  "bulkPrice.adjustment": "Change",
+  "bulkPrice.adjustmentHint": "Enter a negative value for a discount (e.g. -10).",
+  "bulkPrice.rounding": "Rounding",
+  "bulkPrice.rounding.none": "No rounding",
+  "bulkPrice.rounding.nearest5": "Nearest 5 ₺",
+  "bulkPrice.rounding.nearest10": "Nearest 10 ₺",
+  "bulkPrice.rounding.end9": "Ending in 9 (…9 ₺)",
+  "bulkPrice.summary": { one: "{count} price will change", other: "{count} prices will change" },
+  "bulkPrice.noChanges": "No price changes with these settings.",
+  "bulkPrice.before": "Now",
+  "bulkPrice.after": "New",
+  "bulkPrice.difference": "Difference",
+  "bulkPrice.apply": { one: "Update {count} price", other: "Update {count} prices" },
+  "bulkPrice.confirm": { one: "Update the price of {count} item?", other: "Update the prices of {count} items?" },
+  "bulkPrice.applied": { one: "{count} price updated.", other: "{count} prices updated." },
+  "bulkPrice.schedule": { one: "Schedule {count} price", other: "Schedule {count} prices" },
+  "bulkPrice.confirmSchedule": {
+    one: "Change the price of {count} item on {date}?",
+    other: "Change the prices of {count} items on {date}?",
+  },
+  "bulkPrice.scheduled": {
+    one: "{count} price scheduled for {date}.",
+    other: "{count} prices scheduled for {date}.",
+  },
+  "bulkPrice.failed": "Could not update the prices!",
+  "prices.history": "Price history",
+  "prices.historyEmpty": "No price changes yet.",
+  "prices.loadFailed": "Could not load the price history.",
+  "prices.source.edit": "Edit",
+  "prices.source.bulk": "Bulk update",
+  "prices.source.import": "Import",
+  "prices.source.schedule": "Scheduled change",
+  "prices.when.now": "Now",
+  "prices.when.later": "Later",
+  "prices.newPrice": "New price",
+  "prices.effectiveAt": "Effective on",
+  "prices.effectiveAtPast": "The effective date must be tomorrow or later.",
+  "prices.effectiveAtHint": "The new price applies at 00:00 venue time on that day.",
+  "prices.schedule": "Schedule price",
+  "prices.scheduledFor": "From {date}",
+  "prices.scheduleFailed": "Could not schedule the price!",
+  "prices.cancelSchedule": "Cancel",
+  "prices.confirmCancel": "Cancel this scheduled price?",
+  "prices.cancelFailed": "Could not cancel the schedule!",
+  "priceReport.title": "📈 Price changes",
+  "priceReport.upcoming": "Scheduled prices",
+  "priceReport.noUpcoming": "No pending price schedules.",
+  "priceReport.from": "From",
+  "priceReport.to": "To",
+  "priceReport.count": { one: "{count} change", other: "{count} changes" },
+  "priceReport.empty": "No price changes in this range.",
+  "priceReport.date": "Date",
+  "priceReport.source": "Source",
+  "priceReport.user": "User",
+
+  "promotions.title": "🏷️ Promotions",
+  "promotions.empty": "No active or upcoming promotions.",
+  "promotions.loadFailed": "Could not load promotions.",
+  "promotions.add": "+ New promotion",
+  "promotions.name": "Promotion name",
+  "promotions.namePlaceholder": "e.g. Happy Hour",
+  "promotions.discount": "Discount",
+  "promotions.type.percent": "Percent (%)",
+  "promotions.type.amount": "Amount (₺)",
+  "promotions.type.fixedPrice": "Fixed price (₺)",
+  "promotions.fixedPrice": "{price} flat",
+  "promotions.startsAt": "Starts",
+  "promotions.endsAt": "Ends",
+  "promotions.hours": "Daily hours",
+  "promotions.hoursHint": "If empty, applies all day throughout the date range. Times are in the {timeZone} time zone.",
+  "promotions.categories": "Categories",
+  "promotions.items": "Items",
+  "promotions.status.active": "Active",
+  "promotions.status.upcoming": "Upcoming",
+  "promotions.confirmDelete": "Delete the promotion \"{name}\"?",
+  "promotions.saveFailed": "Could not save the promotion!",
+  "promotions.deleteFailed": "Could not delete the promotion!",
+  "promotions.validation.name": "Promotion name cannot be empty.",
+  "promotions.validation.scope": "Select at least one category or item.",
+  "promotions.validation.value": "The discount must be greater than zero.",
+  "promotions.validation.percent": "A percentage discount cannot exceed 100.",
+  "promotions.validation.dates": "The end date must be after the start date.",
+
+  "orders.title": "🧾 Incoming orders",
+  "orders.openCount": { one: "{count} open", other: "{count} open" },
+  "orders.loadFailed": "Could not load orders.",
+  "orders.statusFailed": "Could not update the status!",
+  "orders.note": "Note: {note}",
+  "orders.empty": "No orders yet.",
+
+  "serviceRequests.title": "🔔 Service calls",
+  "serviceRequests.sound": "Sound alert",
+  "serviceRequests.loadFailed": "Could not load calls.",
+  "serviceRequests.acknowledge": "OK, on it",
+  "serviceRequests.acknowledgeFailed": "Could not acknowledge!",
+  "serviceRequests.empty": "No open calls.",
+
+  "tables.title": "🔳 Table QR codes",
+  "tables.print": "Print A4 table tents",
+  "tables.printTitle": "{venue} • Table tents",
+  "tables.scanHint": "Scan the QR code for the menu",
+  "tables.field.tables": "Table(s)",
+  "tables.field.tablesPlaceholder": "1-12, 15, Garden1",
+  "tables.field.zone": "Zone (optional)",
+  "tables.field.zonePlaceholder": "Garden",
+  "tables.add": "Add tables",
+  "tables.inputRequired": "Enter table numbers (e.g. 1-12, 15, Garden1).",
+  "tables.qrAlt": "Table {table} QR",
+  "tables.empty": "No tables yet. QR codes point to addresses like:",
+  "tables.loadFailed": "Could not load the tables.",
+  "tables.saveFailed": "Could not save the tables!",
+  "tables.deleteFailed": "Could not delete the table!",
+};
@@ -0,0 +1,452 @@
+import type { Catalog } from "@/lib/i18n/translate";
+
+export const ru: Catalog = {
+  "common.loading": "Загрузка…",
+  "common.refresh": "Обновить",
+  "common.close": "Закрыть",
+  "common.cancel": "Отмена",
+  "common.save": "Сохранить",
+  "common.edit": "Изменить",
+  "common.delete": "Удалить",
+  "common.retry": "Повторить",
+  "common.total": "Итого",
+  "common.table": "Стол {table}",
+  "common.language": "Язык",
+  "common.allCategories": "Все",
+  "common.closeHint": "Закрыть: нажмите снаружи • ESC",
+  "common.offline": "офлайн • показано сохранённое меню",
+  "common.itemCount": {
+    one: "{count} блюдо",
+    few: "{count} блюда",
+    many: "{count} блюд",
+    other: "{count} блюда",
+  },
+
+  "time.justNow": "только что",
+  "time.minutesAgo": "{minutes} мин назад",
+  "time.hoursAgo": "{hours} ч {minutes} мин назад",
+
+  "menu.searchPlaceholder": "Поиск блюд или категорий…",
+  "menu.loading": "Загрузка меню…",
+  "menu.waking": "Сервер запускается, это может занять немного времени.",
+  "menu.updating": "Меню обновляется…",
+  "menu.updatingSince": "Меню обновляется… (сохранено: {time})",
+  "menu.stale": "Не удалось обновить меню, показано последнее сохранённое.",
+  "menu.staleSince": "Не удалось обновить меню, показано последнее сохранённое ({time}).",
+  "menu.loadFailed": "Сейчас не удаётся загрузить меню.",
+  "menu.empty": "Ничего не найдено.",
+  "menu.didYouMean": "Возможно, вы имели в виду:",
+  "menu.details": "Нажмите для подробностей →",
+  "menu.addToBasket": "+ В корзину",
+  "menu.addToBasketWithPrice": "В корзину • {price}",
+  "menu.descriptionTitle": "Состав / Описание",
+  "menu.noDescription": "Для этого блюда нет описания.",
+  "menu.autoUpdated": "{venue} • Меню обновляется автоматически",
+  "menu.credit": "Разработчик: Mert Özgenç",
+  "menu.allergensTitle": "Аллергены",
+  "menu.noAllergens": "Информация об аллергенах не указана.",
+  "menu.optionRequired": "Обязательно • выберите одно",
+  "menu.optionOptional": "По желанию",
+  "menu.optionMissing": "Выберите: {group}",
+  "menu.serviceHours": "Подаётся: {hours}",
+  "menu.outOfHours": "Сейчас не подаётся",
+  "menu.promotionBadge": "🏷️ {name}",
+
+  "filters.title": "Фильтры",
+  "filters.titleActive": "Фильтры ({count})",
+  "filters.showOnly": "Показать только",
+  "filters.hideContaining": "Скрыть, если содержит",
+  "filters.clear": "Сбросить фильтры",
+
+  "dietary.vegetarian": "Вегетарианское",
+  "dietary.vegan": "Веганское",
+  "dietary.glutenFree": "Без глютена",
+  "dietary.spicy": "Острое",
+
+  "allergen.gluten": "Глютен",
+  "allergen.crustaceans": "Ракообразные",
+  "allergen.eggs": "Яйца",
+  "allergen.fish": "Рыба",
+  "allergen.peanuts": "Арахис",
+  "allergen.soybeans": "Соя",
+  "allergen.milk": "Молоко",
+  "allergen.nuts": "Орехи",
+  "allergen.celery": "Сельдерей",
+  "allergen.mustard": "Горчица",
+  "allergen.sesame": "Кунжут",
+  "allergen.sulphites": "Сульфиты",
+  "allergen.lupin": "Люпин",
+  "allergen.molluscs": "Моллюски",
+
+  "basket.button": "🧺 Корзина ({count}) • {total}",
+  "basket.title": "🧺 Корзина",
+  "basket.noTable": "Стол не выбран",
+  "basket.empty": "Корзина пуста.",
+  "basket.decrease": "Меньше",
+  "basket.increase": "Больше",
+  "basket.lineNotePlaceholder": "Комментарий (напр.: без лука)",
+  "basket.orderNotePlaceholder": "Комментарий к заказу (необязательно)",
+  "basket.scanQr": "Чтобы сделать заказ, отсканируйте QR-код на столе.",
+  "basket.submit": "Отправить заказ",
+  "basket.sending": "Отправка…",
+  "basket.submitFailed": "Не удалось отправить заказ!",
+  "basket.orderReceived": "Ваш заказ принят (#{id})",
+  "basket.orderReceivedHint": "Его принесут к вашему столу, когда он будет готов.",
+
+  "service.callWaiter": "🙋 Позвать официанта",
+  "service.requestBill": "🧾 Попросить счёт",
+  "service.waiterSent": "Официант скоро подойдёт.",
+  "service.billSent": "Счёт скоро принесут.",
+  "service.tooSoon": "Запрос уже отправлен. Повторить можно через {seconds} с.",
+  "service.failed": "Не удалось отправить запрос, попробуйте ещё раз.",
+
+  "orderStatus.new": "Новый",
+  "orderStatus.preparing": "Готовится",
+  "orderStatus.served": "Подан",
+
+  "serviceKind.waiter": "Зовёт официанта",
+  "serviceKind.bill": "Просит счёт",
+
+  "role.owner": "Владелец",
+  "role.manager": "Менеджер",
+  "role.staff": "Персонал",
+
+  "login.title": "🔒 {venue} Admin",
+  "login.subtitle": "Войдите в панель администратора.",
+  "login.username": "Имя пользователя",
+  "login.password": "Пароль",
+  "login.submit": "Войти",
+  "login.submitting": "Вход…",
+  "login.required": "Введите имя пользователя и пароль.",
+  "login.invalid": "Неверное имя пользователя или пароль.",
+  "login.locked": "Слишком много неудачных попыток. Попробуйте позже.",
+  "login.failed": "Не удалось войти.",
+  "login.expired": "Сессия истекла, войдите снова.",
+
+  "admin.title": "🛠️ {venue} Admin",
+  "admin.subtitle": "Управление блюдами • Фото/описание • Активно/Неактивно •",
+  "admin.openMenu": "Открыть меню",
+  "admin.venue": "Заведение",
+  "admin.signOut": "Выйти",
+  "admin.sessionFailed": "Не удалось прочитать сессию!",
+  "admin.loadFailed": "Не удалось загрузить меню!",
+  "admin.createFailed": "Не удалось добавить!",
+  "admin.updateFailed": "Не удалось обновить!",
+  "admin.deleteFailed": "Не удалось удалить!",
+  "admin.confirmDelete": "Точно удалить?",
+  "admin.stats.total": "Всего блюд",
+  "admin.stats.active": "Активные",
+  "admin.stats.passive": "Неактивные",
+  "admin.stats.categories": "Категории",
+  "admin.validation.nameRequired": "Название не может быть пустым.",
+  "admin.validation.categoryRequired": "Категория не может быть пустой.",
+  "admin.validation.priceNumber": "Цена должна быть числом.",
+  "admin.validation.priceNegative": "Цена не может быть отрицательной.",
+  "admin.validation.optionGroupName": "Название группы опций не может быть пустым.",
+  "admin.validation.optionsEmpty": "В «{group}» должна быть хотя бы одна опция.",
+  "admin.validation.optionName": "Названия опций в «{group}» не могут быть пустыми.",
+  "admin.validation.optionDelta": "Разница в цене должна быть числом.",
+  "admin.validation.availabilityDays": "Выберите хотя бы один день для часов подачи.",
+  "admin.validation.availabilityTime": "Начало и конец часов подачи должны быть корректными и разными.",
+  "admin.filter.search": "Поиск",
+  "admin.filter.searchPlaceholder": "Поиск блюд / категорий…",
+  "admin.filter.category": "Категория",
+  "admin.filter.sort": "Сортировка",
+  "admin.filter.clear": "Сбросить фильтры",
+  "admin.sort.default": "По умолчанию",
+  "admin.sort.priceAsc": "Цена: по возрастанию",
+  "admin.sort.priceDesc": "Цена: по убыванию",
+  "admin.sort.nameAsc": "Название: А → Я",
+  "admin.newItem": "➕ Новое блюдо",
+  "admin.saving": "Сохранение / загрузка…",
+  "admin.field.name": "Название",
+  "admin.field.namePlaceholder": "Гамбургер",
+  "admin.field.price": "Цена (₺)",
+  "admin.field.category": "Категория",
+  "admin.field.categoryPlaceholder": "Burger",
+  "admin.field.imageUrl": "URL фото",
+  "admin.field.photo": "Фото",
+  "admin.field.photoOptional": "Фото (необязательно)",
+  "admin.field.imageUrlPlaceholder": "или вставьте URL фото (https://…)",
+  "admin.field.description": "Описание / состав",
+  "admin.field.descriptionOptional": "Описание / состав (необязательно)",
+  "admin.field.descriptionPlaceholder": "Напр.: говяжья котлета, чеддер, фирменный соус…",
+  "admin.field.available": "Активно",
+  "admin.field.availableLong": "Активно (видно в меню)",
+  "admin.field.tags": "Питание / вкус",
+  "admin.field.allergens": "Аллергены",
+  "admin.imageHint": "Если изображение не видно, возможно, URL неверный.",
+  "admin.addItem": "Добавить блюдо",
+  "admin.items": "📦 Блюда",
+  "admin.resultCount": {
+    one: "{count} результат",
+    few: "{count} результата",
+    many: "{count} результатов",
+    other: "{count} результата",
+  },
+  "admin.reorderHint": "Перетащите, чтобы изменить порядок",
+  "admin.reorderUnavailable": "Чтобы изменить порядок, выберите одну категорию без поиска и с сортировкой по умолчанию",
+  "admin.reorderFailed": "Не удалось сохранить порядок!",
+  "admin.noPhoto": "Нет фото",
+  "admin.noDescription": "Нет описания",
+  "admin.toggleTitle": "Переключить активность",
+  "admin.makeActive": "Включить",
+  "admin.makePassive": "Выключить",
+  "admin.schedule.open": "Сейчас доступно • {hours}",
+  "admin.schedule.closed": "Вне часов подачи • {hours}",
+  "admin.schedule.categoryInactive": "Категория выключена",
+  "admin.noEditPermission": "Нет прав на изменение",
+  "admin.noItems": "Блюд пока нет.",
+  "admin.editTitle": "✏️ Изменить блюдо",
+
+  "translations.title": "Переводы",
+  "translations.name": "Название ({language})",
+  "translations.description": "Описание ({language})",
+  "translations.fallbackHint": "Пустые поля показываются в меню на турецком.",
+
+  "options.title": "Опции",
+  "options.hint": "Группы с одним выбором (например, размер) обязательны, дополнения — по желанию.",
+  "options.addGroup": "+ Добавить группу",
+  "options.groupName": "Название группы",
+  "options.groupNamePlaceholder": "Размер",
+  "options.kind.single": "Один вариант (обязательно)",
+  "options.kind.multi": "Несколько вариантов (по желанию)",
+  "options.addOption": "+ Добавить опцию",
+  "options.optionName": "Название опции",
+  "options.optionNamePlaceholder": "Большой",
+  "options.priceDelta": "Разница в цене (₺)",
+  "options.removeGroup": "Удалить группу",
+  "options.removeOption": "Удалить опцию",
+  "options.groupCount": {
+    one: "{count} группа опций",
+    few: "{count} группы опций",
+    many: "{count} групп опций",
+    other: "{count} группы опций",
+  },
+
+  "availability.title": "Часы подачи",
+  "availability.add": "+ Добавить интервал",
+  "availability.from": "С",
+  "availability.to": "До",
+  "availability.remove": "Удалить интервал",
+  "availability.hint":
+    "Пусто — подаётся в любое время. Если конец раньше начала, интервал переходит через полночь (напр. 18:00–02:00). Время в поясе {timeZone}.",
+
+  "images.drop": "📷 Перетащите фото сюда или нажмите, чтобы выбрать",
+  "images.formats": "JPEG, PNG или WebP, до {size} МБ. Обрезается до 4:3, данные о местоположении удаляются.",
+  "images.uploading": "Загрузка…",
+  "images.uploadFailed": "Не удалось загрузить фото!",
+  "images.tooLarge": "Размер фото — не более {size} МБ.",
+  "images.badType": "Можно загружать только фото JPEG, PNG или WebP.",
+  "images.preview": "Предпросмотр фото",
+  "images.remove": "Удалить фото",
+
+  "categories.title": "🗂️ Категории",
+  "categories.dragHint": "Перетащите, чтобы изменить порядок",
+  "categories.empty": "Категорий пока нет; меню использует порядок из настроек.",
+  "categories.seed": "Создать из текущих категорий",
+  "categories.add": "Добавить категорию",
+  "categories.field.icon": "Значок",
+  "categories.field.name": "Название категории",
+  "categories.field.description": "Описание (необязательно)",
+  "categories.moveUp": "Выше",
+  "categories.moveDown": "Ниже",
+  "categories.renameHint": "При переименовании блюда этой категории тоже переносятся.",
+  "categories.confirmDelete": "Удалить категорию «{name}»?",
+  "categories.saveFailed": "Не удалось сохранить категорию!",
+  "categories.deleteFailed": "Не удалось удалить категорию!",
+  "categories.reorderFailed": "Не удалось сохранить порядок!",
+  "transfer.title": "📤 Импорт / экспорт",
+  "transfer.exportCsv": "Скачать CSV",
+  "transfer.exportXlsx": "Скачать Excel",
+  "transfer.import": "Импорт из файла",
+  "transfer.hint": "Столбцы: id, name, category, price, isAvailable, imageUrl, description. Строки без id станут новыми блюдами; переводы, аллергены и опции сохраняются.",
+  "transfer.exportFailed": "Не удалось создать файл!",
+  "transfer.readFailed": "Не удалось прочитать файл!",
+  "transfer.applyFailed": "Импорт не удался, ничего не изменено!",
+  "transfer.applied": "Добавлено блюд: {created}, обновлено: {updated}.",
+  "transfer.missingColumns": "В файле нет столбцов: {columns}",
+  "transfer.invalidId": "id должен быть целым положительным числом.",
+  "transfer.unknownId": "Блюда #{id} нет в меню.",
+  "transfer.duplicateId": "#{id} встречается в файле несколько раз.",
+  "transfer.invalidAvailable": "isAvailable должен быть да/нет или true/false.",
+  "transfer.status.new": "Новое",
+  "transfer.status.changed": "Изменено",
+  "transfer.status.unchanged": "Без изменений",
+  "transfer.status.invalid": "Ошибка",
+  "transfer.showUnchanged": "Показать без изменений",
+  "transfer.nothingToApply": "В файле нет строк, отличающихся от меню.",
+  "transfer.selectAll": "Выбрать все",
+  "transfer.line": "Строка",
+  "transfer.details": "Изменение",
+  "transfer.apply": {
+    one: "Применить {count} изменение",
+    few: "Применить {count} изменения",
+    many: "Применить {count} изменений",
+    other: "Применить {count} изменения",
+  },
+  "bulkPrice.title": "💸 Массовое изменение цен",
+  "bulkPrice.open": "Открыть",
+  "bulkPrice.close": "Закрыть",
+  "bulkPrice.scope": "Какие блюда?",
+  "bulkPrice.scope.all": "Все блюда",
+  "bulkPrice.scope.categories": "Категории",
+  "bulkPrice.scope.selection": "Выбранные блюда",
+  "bulkPrice.selectedCount": {
+    one: "Выбрано: {count}",
+    few: "Выбрано: {count}",
+    many: "Выбрано: {count}",
+    other: "Выбрано: {count}",
+  },
+  "bulkPrice.adjustment": "Изменение",
+  "bulkPrice.adjustmentHint": "Для скидки введите отрицательное значение (напр. -10).",
+  "bulkPrice.rounding": "Округление",
+  "bulkPrice.rounding.none": "Без округления",
+  "bulkPrice.rounding.nearest5": "До 5 ₺",
+  "bulkPrice.rounding.nearest10": "До 10 ₺",
+  "bulkPrice.rounding.end9": "На 9 в конце (…9 ₺)",
+  "bulkPrice.summary": {
+    one: "Изменится {count} цена",
+    few: "Изменятся {count} цены",
+    many: "Изменятся {count} цен",
+    other: "Изменятся {count} цены",
+  },
+  "bulkPrice.noChanges": "При этих настройках цены не меняются.",
+  "bulkPrice.before": "Сейчас",
+  "bulkPrice.after": "Новая",
+  "bulkPrice.difference": "Разница",
+  "bulkPrice.apply": {
+    one: "Обновить {count} цену",
+    few: "Обновить {count} цены",
+    many: "Обновить {count} цен",
+    other: "Обновить {count} цены",
+  },
+  "bulkPrice.confirm": {
+    one: "Обновить цену {count} блюда?",
+    few: "Обновить цены {count} блюд?",
+    many: "Обновить цены {count} блюд?",
+    other: "Обновить цены {count} блюда?",
+  },
+  "bulkPrice.applied": {
+    one: "Обновлена {count} цена.",
+    few: "Обновлены {count} цены.",
+    many: "Обновлено {count} цен.",
+    other: "Обновлено {count} цены.",
+  },
+  "bulkPrice.schedule": {
+    one: "Запланировать {count} цену",
+    few: "Запланировать {count} цены",
+    many: "Запланировать {count} цен",
+    other: "Запланировать {count} цены",
+  },
+  "bulkPrice.confirmSchedule": {
+    one: "Изменить цену {count} блюда {date}?",
+    few: "Изменить цены {count} блюд {date}?",
+    many: "Изменить цены {count} блюд {date}?",
+    other: "Изменить цены {count} блюда {date}?",
+  },
+  "bulkPrice.scheduled": {
+    one: "Запланирована {count} цена на {date}.",
+    few: "Запланированы {count} цены на {date}.",
+    many: "Запланировано {count} цен на {date}.",
+    other: "Запланировано {count} цены на {date}.",
+  },
+  "bulkPrice.failed": "Не удалось обновить цены!",
+  "prices.history": "История цен",
+  "prices.historyEmpty": "Цена ещё не менялась.",
+  "prices.loadFailed": "Не удалось загрузить историю цен.",
+  "prices.source.edit": "Редактирование",
+  "prices.source.bulk": "Массовое изменение",
+  "prices.source.import": "Импорт",
+  "prices.source.schedule": "Плановое изменение",
+  "prices.when.now": "Сейчас",
+  "prices.when.later": "Позже",
+  "prices.newPrice": "Новая цена",
+  "prices.effectiveAt": "Действует с",
+  "prices.effectiveAtPast": "Дата должна быть не раньше завтрашнего дня.",
+  "prices.effectiveAtHint": "Новая цена действует с 00:00 по времени заведения в этот день.",
+  "prices.schedule": "Запланировать цену",
+  "prices.scheduledFor": "С {date}",
+  "prices.scheduleFailed": "Не удалось запланировать цену!",
+  "prices.cancelSchedule": "Отменить",
+  "prices.confirmCancel": "Отменить запланированную цену?",
+  "prices.cancelFailed": "Не удалось отменить план!",
+  "priceReport.title": "📈 Изменения цен",
+  "priceReport.upcoming": "Запланированные цены",
+  "priceReport.noUpcoming": "Нет запланированных цен.",
+  "priceReport.from": "С",
+  "priceReport.to": "По",
+  "priceReport.count": {
+    one: "{count} изменение",
+    few: "{count} изменения",
+    many: "{count} изменений",
+    other: "{count} изменения",
+  },
+  "priceReport.empty": "В этом периоде цены не менялись.",
+  "priceReport.date": "Дата",
+  "priceReport.source": "Источник",
+  "priceReport.user": "Пользователь",
+
+  "promotions.title": "🏷️ Акции",
+  "promotions.empty": "Нет текущих или предстоящих акций.",
+  "promotions.loadFailed": "Не удалось загрузить акции.",
+  "promotions.add": "+ Новая акция",
+  "promotions.name": "Название акции",
+  "promotions.namePlaceholder": "Напр. Happy Hour",
+  "promotions.discount": "Скидка",
+  "promotions.type.percent": "Процент (%)",
+  "promotions.type.amount": "Сумма (₺)",
+  "promotions.type.fixedPrice": "Фиксированная цена (₺)",
+  "promotions.fixedPrice": "{price} фикс.",
+  "promotions.startsAt": "Начало",
+  "promotions.endsAt": "Окончание",
+  "promotions.hours": "Часы в течение дня",
+  "promotions.hoursHint": "Если пусто, действует весь день в течение всего периода. Время указано в часовом поясе {timeZone}.",
+  "promotions.categories": "Категории",
+  "promotions.items": "Блюда",
+  "promotions.status.active": "Действует",
+  "promotions.status.upcoming": "Скоро",
+  "promotions.confirmDelete": "Удалить акцию «{name}»?",
+  "promotions.saveFailed": "Не удалось сохранить акцию!",
+  "promotions.deleteFailed": "Не удалось удалить акцию!",
+  "promotions.validation.name": "Название акции не может быть пустым.",
+  "promotions.validation.scope": "Выберите хотя бы одну категорию или блюдо.",
+  "promotions.validation.value": "Скидка должна быть больше нуля.",
+  "promotions.validation.percent": "Процентная скидка не может превышать 100.",
+  "promotions.validation.dates": "Окончание должно быть позже начала.",
+
+  "orders.title": "🧾 Входящие заказы",
+  "orders.openCount": {
+    one: "{count} открыт",
+    few: "{count} открыто",
+    many: "{count} открыто",
+    other: "{count} открыто",
+  },
+  "orders.loadFailed": "Не удалось загрузить заказы.",
+  "orders.statusFailed": "Не удалось обновить статус!",
+  "orders.note": "Комментарий: {note}",
+  "orders.empty": "Заказов пока нет.",
+
+  "serviceRequests.title": "🔔 Вызовы",
+  "serviceRequests.sound": "Звуковой сигнал",
+  "serviceRequests.loadFailed": "Не удалось загрузить вызовы.",
+  "serviceRequests.acknowledge": "Принято",
+  "serviceRequests.acknowledgeFailed": "Не удалось подтвердить!",
+  "serviceRequests.empty": "Открытых вызовов нет.",
+
+  "tables.title": "🔳 QR-коды столов",
+  "tables.print": "Печать табличек A4",
+  "tables.printTitle": "{venue} • Таблички для столов",
+  "tables.scanHint": "Отсканируйте QR-код, чтобы открыть меню",
+  "tables.field.tables": "Стол(ы)",
+  "tables.field.tablesPlaceholder": "1-12, 15, Сад1",
+  "tables.field.zone": "Зона (необязательно)",
+  "tables.field.zonePlaceholder": "Сад",
+  "tables.add": "Добавить столы",
+  "tables.inputRequired": "Введите номера столов (напр.: 1-12, 15, Сад1).",
+  "tables.qrAlt": "QR стола {table}",
+  "tables.empty": "Столов пока нет. QR-коды ведут на адреса вида:",
+  "tables.loadFailed": "Не удалось загрузить столы.",
+  "tables.saveFailed": "Не удалось сохранить столы!",
+  "tables.deleteFailed": "Не удалось удалить стол!",
+};
@@ -0,0 +1,391 @@
+import type { Message } from "@/lib/i18n/translate";
+
+// Ana katalog: anahtarların tek kaynağı burası, diğer diller aynı anahtarları doldurmak zorunda.
+// {ad} yer tutucuları t()'ye verilen parametrelerle değişir; nesne olan mesajlar {count}'a göre
+// çoğul biçimi seçer (Intl.PluralRules: one/few/many/other).
+export const tr = {
+  "common.loading": "Yükleniyor…",
+  "common.refresh": "Yenile",
+  "common.close": "Kapat",
+  "common.cancel": "İptal",
+  "common.save": "Kaydet",
+  "common.edit": "Düzenle",
+  "common.delete": "Sil",
+  "common.retry": "Tekrar dene",
+  "common.total": "Toplam",
+  "common.table": "Masa {table}",
+  "common.language": "Dil",
+  "common.allCategories": "Tümü",
+  "common.closeHint": "Kapatmak için: dışarı tıkla • ESC",
+  "common.offline": "çevrimdışı • kayıtlı menü gösteriliyor",
+  "common.itemCount": { one: "{count} ürün", other: "{count} ürün" },
+
+  "time.justNow": "az önce",
+  "time.minutesAgo": "{minutes} dk önce",
+  "time.hoursAgo": "{hours} sa {minutes} dk önce",
+
+  "menu.searchPlaceholder": "Ürün veya kategori ara…",
+  "menu.loading": "Menü yükleniyor…",
+  "menu.waking": "Sunucu uyanıyor, bu biraz sürebilir.",
+  "menu.updating": "Menü güncelleniyor…",
+  "menu.updatingSince": "Menü güncelleniyor… (son kayıt: {time})",
+  "menu.stale": "Menü şu an güncellenemedi, son kaydedilen menü gösteriliyor.",
+  "menu.staleSince": "Menü şu an güncellenemedi, son kaydedilen menü gösteriliyor ({time}).",
+  "menu.loadFailed": "Menü şu anda yüklenemedi.",
+  "menu.empty": "Ürün bulunamadı.",
+  "menu.didYouMean": "Bunu mu demek istediniz:",
+  "menu.details": "Detay için tıkla →",
+  "menu.addToBasket": "+ Sepete ekle",
+  "menu.addToBasketWithPrice": "Sepete ekle • {price}",
+  "menu.descriptionTitle": "İçerik / Açıklama",
+  "menu.noDescription": "Bu ürün için açıklama eklenmemiş.",
+  "menu.autoUpdated": "{venue} • Menü otomatik güncellenir",
+  "menu.credit": "Mert Özgenç tarafından yapılmıştır",
+  "menu.allergensTitle": "Alerjenler",
+  "menu.noAllergens": "Alerjen bilgisi girilmemiş.",
+  "menu.optionRequired": "Zorunlu • birini seçin",
+  "menu.optionOptional": "İsteğe bağlı",
+  "menu.optionMissing": "Seçim gerekli: {group}",
+  "menu.serviceHours": "Servis saatleri: {hours}",
+  "menu.outOfHours": "Şu an servis dışı",
+  "menu.promotionBadge": "🏷️ {name}",
+
+  "filters.title": "Filtreler",
+  "filters.titleActive": "Filtreler ({count})",
+  "filters.showOnly": "Sadece göster",
+  "filters.hideContaining": "İçerenleri gizle",
+  "filters.clear": "Filtreleri temizle",
+
+  "dietary.vegetarian": "Vejetaryen",
+  "dietary.vegan": "Vegan",
+  "dietary.glutenFree": "Glutensiz",
+  "dietary.spicy": "Acı",
+
+  "allergen.gluten": "Gluten",
+  "allergen.crustaceans": "Kabuklular",
+  "allergen.eggs": "Yumurta",
+  "allergen.fish": "Balık",
+  "allergen.peanuts": "Yer fıstığı",
+  "allergen.soybeans": "Soya",
+  "allergen.milk": "Süt",
+  "allergen.nuts": "Sert kabuklu yemiş",
+  "allergen.celery": "Kereviz",
+  "allergen.mustard": "Hardal",
+  "allergen.sesame": "Susam",
+  "allergen.sulphites": "Sülfit",
+  "allergen.lupin": "Acı bakla",
+  "allergen.molluscs": "Yumuşakçalar",
+
+  "basket.button": "🧺 Sepet ({count}) • {total}",
+  "basket.title": "🧺 Sepet",
+  "basket.noTable": "Masa bilgisi yok",
+  "basket.empty": "Sepetiniz boş.",
+  "basket.decrease": "Azalt",
+  "basket.increase": "Arttır",
+  "basket.lineNotePlaceholder": "Not (örn: soğansız)",
+  "basket.orderNotePlaceholder": "Sipariş notu (opsiyonel)",
+  "basket.scanQr": "Sipariş verebilmek için masanızdaki QR kodu okutun.",
+  "basket.submit": "Siparişi gönder",
+  "basket.sending": "Gönderiliyor…",
+  "basket.submitFailed": "Sipariş gönderilemedi!",
+  "basket.orderReceived": "Siparişiniz alındı (#{id})",
+  "basket.orderReceivedHint": "Hazırlanınca masanıza getirilecek.",
+
+  "service.callWaiter": "🙋 Garson çağır",
+  "service.requestBill": "🧾 Hesap iste",
+  "service.waiterSent": "Garson çağrıldı, birazdan yanınızda.",
+  "service.billSent": "Hesap istendi, birazdan getirilecek.",
+  "service.tooSoon": "Çağrınız zaten iletildi. {seconds} sn sonra tekrar deneyebilirsiniz.",
+  "service.failed": "Çağrı iletilemedi, lütfen tekrar deneyin.",
+
+  "orderStatus.new": "Yeni",
+  "orderStatus.preparing": "Hazırlanıyor",
+  "orderStatus.served": "Servis edildi",
+
+  "serviceKind.waiter": "Garson çağırıyor",
+  "serviceKind.bill": "Hesap istiyor",
+
+  "role.owner": "Sahip",
+  "role.manager": "Müdür",
+  "role.staff": "Personel",
+
+  "login.title": "🔒 {venue} Admin",
+  "login.subtitle": "Admin paneli için giriş yap.",
+  "login.username": "Kullanıcı adı",
+  "login.password": "Şifre",
+  "login.submit": "Giriş",
+  "login.submitting": "Giriş yapılıyor…",
+  "login.required": "Kullanıcı adı ve şifre gir.",
+  "login.invalid": "Kullanıcı adı veya şifre hatalı.",
+  "login.locked": "Çok fazla hatalı deneme. Biraz sonra tekrar deneyin.",
+  "login.failed": "Giriş başarısız.",
+  "login.expired": "Oturumun süresi doldu, tekrar giriş yap.",
+
+  "admin.title": "🛠️ {venue} Admin",
+  "admin.subtitle": "Ürünleri yönet • Foto/İçerik ekle • Aktif/Pasif •",
+  "admin.openMenu": "Menüyü aç",
+  "admin.venue": "Mekan",
+  "admin.signOut": "Çıkış",
+  "admin.sessionFailed": "Oturum okunamadı!",
+  "admin.loadFailed": "Menü yüklenemedi!",
+  "admin.createFailed": "Ekleme başarısız!",
+  "admin.updateFailed": "Güncelleme başarısız!",
+  "admin.deleteFailed": "Silme başarısız!",
+  "admin.confirmDelete": "Silmek istediğine emin misin?",
+  "admin.stats.total": "Toplam Ürün",
+  "admin.stats.active": "Aktif",
+  "admin.stats.passive": "Pasif",
+  "admin.stats.categories": "Kategori",
+  "admin.validation.nameRequired": "Ürün adı boş olamaz.",
+  "admin.validation.categoryRequired": "Kategori boş olamaz.",
+  "admin.validation.priceNumber": "Fiyat sayı olmalı.",
+  "admin.validation.priceNegative": "Fiyat negatif olamaz.",
+  "admin.validation.optionGroupName": "Seçenek grubu adı boş olamaz.",
+  "admin.validation.optionsEmpty": "“{group}” grubunda en az bir seçenek olmalı.",
+  "admin.validation.optionName": "“{group}” grubundaki seçenek adları boş olamaz.",
+  "admin.validation.optionDelta": "Fiyat farkı sayı olmalı.",
+  "admin.validation.availabilityDays": "Servis saatlerinde en az bir gün seçin.",
+  "admin.validation.availabilityTime": "Servis saatinin başlangıcı ve bitişi geçerli ve farklı olmalı.",
+  "admin.filter.search": "Ara",
+  "admin.filter.searchPlaceholder": "Ürün / kategori ara…",
+  "admin.filter.category": "Kategori",
+  "admin.filter.sort": "Sırala",
+  "admin.filter.clear": "Filtreleri temizle",
+  "admin.sort.default": "Varsayılan",
+  "admin.sort.priceAsc": "Fiyat: Artan",
+  "admin.sort.priceDesc": "Fiyat: Azalan",
+  "admin.sort.nameAsc": "İsim: A → Z",
+  "admin.newItem": "➕ Yeni Ürün",
+  "admin.saving": "Kaydediliyor / yükleniyor…",
+  "admin.field.name": "Ürün adı",
+  "admin.field.namePlaceholder": "Hamburger",
+  "admin.field.price": "Fiyat (₺)",
+  "admin.field.category": "Kategori",
+  "admin.field.categoryPlaceholder": "Burger",
+  "admin.field.imageUrl": "Fotoğraf URL",
+  "admin.field.photo": "Fotoğraf",
+  "admin.field.photoOptional": "Fotoğraf (opsiyonel)",
+  "admin.field.imageUrlPlaceholder": "ya da fotoğraf URL'si yapıştırın (https://…)",
+  "admin.field.description": "Açıklama / içerik",
+  "admin.field.descriptionOptional": "Açıklama / içerik (opsiyonel)",
+  "admin.field.descriptionPlaceholder": "Örn: Dana köfte, cheddar, özel sos…",
+  "admin.field.available": "Aktif",
+  "admin.field.availableLong": "Aktif (menüde görünsün)",
+  "admin.field.tags": "Beslenme / lezzet",
+  "admin.field.allergens": "Alerjenler",
+  "admin.imageHint": "Eğer resim görünmüyorsa URL hatalı olabilir.",
+  "admin.addItem": "Ürün Ekle",
+  "admin.items": "📦 Ürünler",
+  "admin.resultCount": { one: "{count} sonuç", other: "{count} sonuç" },
+  "admin.reorderHint": "Sıralamak için sürükleyin",
+  "admin.reorderUnavailable": "Sıralamak için aramasız ve varsayılan sıralamada tek bir kategori seçin",
+  "admin.reorderFailed": "Sıralama kaydedilemedi!",
+  "admin.noPhoto": "Foto yok",
+  "admin.noDescription": "Açıklama yok",
+  "admin.toggleTitle": "Aktif/Pasif değiştir",
+  "admin.makeActive": "Aktif Yap",
+  "admin.makePassive": "Pasif Yap",
+  "admin.schedule.open": "Şu an açık • {hours}",
+  "admin.schedule.closed": "Saat dışı • {hours}",
+  "admin.schedule.categoryInactive": "Kategori pasif",
+  "admin.noEditPermission": "Düzenleme yetkiniz yok",
+  "admin.noItems": "Hiç ürün yok.",
+  "admin.editTitle": "✏️ Ürünü Düzenle",
+
+  "translations.title": "Çeviriler",
+  "translations.name": "Ürün adı ({language})",
+  "translations.description": "Açıklama ({language})",
+  "translations.fallbackHint": "Boş bırakılan alanlar menüde Türkçe görünür.",
+
+  "options.title": "Seçenekler",
+  "options.hint": "Boy gibi tek seçimli gruplar zorunludur; ekstralar isteğe bağlıdır.",
+  "options.addGroup": "+ Grup ekle",
+  "options.groupName": "Grup adı",
+  "options.groupNamePlaceholder": "Boy",
+  "options.kind.single": "Tek seçim (zorunlu)",
+  "options.kind.multi": "Çoklu seçim (isteğe bağlı)",
+  "options.addOption": "+ Seçenek ekle",
+  "options.optionName": "Seçenek adı",
+  "options.optionNamePlaceholder": "Büyük",
+  "options.priceDelta": "Fiyat farkı (₺)",
+  "options.removeGroup": "Grubu sil",
+  "options.removeOption": "Seçeneği sil",
+  "options.groupCount": { one: "{count} seçenek grubu", other: "{count} seçenek grubu" },
+
+  "availability.title": "Servis saatleri",
+  "availability.add": "+ Saat aralığı ekle",
+  "availability.from": "Başlangıç",
+  "availability.to": "Bitiş",
+  "availability.remove": "Aralığı sil",
+  "availability.hint":
+    "Boşsa her saatte sunulur. Bitiş başlangıçtan önceyse aralık gece yarısını geçer (ör. 18:00–02:00). Saatler {timeZone} saat dilimindedir.",
+
+  "images.drop": "📷 Fotoğrafı buraya bırakın ya da seçmek için tıklayın",
+  "images.formats": "JPEG, PNG ya da WebP, en fazla {size} MB. 4:3 kırpılır, konum bilgisi silinir.",
+  "images.uploading": "Yükleniyor…",
+  "images.uploadFailed": "Fotoğraf yüklenemedi!",
+  "images.tooLarge": "Fotoğraf en fazla {size} MB olabilir.",
+  "images.badType": "Sadece JPEG, PNG ya da WebP fotoğraf yüklenebilir.",
+  "images.preview": "Fotoğraf önizleme",
+  "images.remove": "Fotoğrafı kaldır",
+
+  "categories.title": "🗂️ Kategoriler",
+  "categories.dragHint": "Sıralamak için sürükleyin",
+  "categories.empty": "Henüz kategori kaydı yok; menü ayarlardaki sırayla gösteriliyor.",
+  "categories.seed": "Mevcut kategorilerden oluştur",
+  "categories.add": "Kategori Ekle",
+  "categories.field.icon": "İkon",
+  "categories.field.name": "Kategori adı",
+  "categories.field.description": "Açıklama (opsiyonel)",
+  "categories.moveUp": "Yukarı taşı",
+  "categories.moveDown": "Aşağı taşı",
+  "categories.renameHint": "Ad değişirse bu kategorideki ürünler de yeni ada taşınır.",
+  "categories.confirmDelete": "“{name}” kategorisi silinsin mi?",
+  "categories.saveFailed": "Kategori kaydedilemedi!",
+  "categories.deleteFailed": "Kategori silinemedi!",
+  "categories.reorderFailed": "Sıralama kaydedilemedi!",
+  "transfer.title": "📤 İçe / Dışa Aktar",
+  "transfer.exportCsv": "CSV indir",
+  "transfer.exportXlsx": "Excel indir",
+  "transfer.import": "Dosyadan içe aktar",
+  "transfer.hint": "Sütunlar: id, name, category, price, isAvailable, imageUrl, description. id boşsa yeni ürün eklenir; çeviri, alerjen ve seçenekler korunur.",
+  "transfer.exportFailed": "Dosya oluşturulamadı!",
+  "transfer.readFailed": "Dosya okunamadı!",
+  "transfer.applyFailed": "İçe aktarma başarısız, hiçbir değişiklik yapılmadı!",
+  "transfer.applied": "{created} ürün eklendi, {updated} ürün güncellendi.",
+  "transfer.missingColumns": "Dosyada şu sütunlar eksik: {columns}",
+  "transfer.invalidId": "id pozitif tam sayı olmalı.",
+  "transfer.unknownId": "#{id} numaralı ürün menüde yok.",
+  "transfer.duplicateId": "#{id} dosyada birden fazla kez geçiyor.",
+  "transfer.invalidAvailable": "isAvailable evet/hayır ya da true/false olmalı.",
+  "transfer.status.new": "Yeni",
+  "transfer.status.changed": "Değişti",
+  "transfer.status.unchanged": "Aynı",
+  "transfer.status.invalid": "Geçersiz",
+  "transfer.showUnchanged": "Değişmeyenleri göster",
+  "transfer.nothingToApply": "Dosyada menüden farklı bir satır yok.",
+  "transfer.selectAll": "Hepsini seç",
+  "transfer.line": "Satır",
+  "transfer.details": "Değişiklik",
+  "transfer.apply": { one: "{count} değişikliği uygula", other: "{count} değişikliği uygula" },
+  "bulkPrice.title": "💸 Toplu Fiyat Güncelleme",
+  "bulkPrice.open": "Aç",
+  "bulkPrice.close": "Kapat",
+  "bulkPrice.scope": "Hangi ürünler?",
+  "bulkPrice.scope.all": "Tüm ürünler",
+  "bulkPrice.scope.categories": "Kategoriler",
+  "bulkPrice.scope.selection": "Seçilen ürünler",
+  "bulkPrice.selectedCount": { one: "{count} seçili", other: "{count} seçili" },
+  "bulkPrice.adjustment": "Değişiklik",
+  "bulkPrice.adjustmentHint": "İndirim için eksi değer girin (ör. -10).",
+  "bulkPrice.rounding": "Yuvarlama",
+  "bulkPrice.rounding.none": "Yuvarlama yok",
+  "bulkPrice.rounding.nearest5": "En yakın 5 ₺",
+  "bulkPrice.rounding.nearest10": "En yakın 10 ₺",
+  "bulkPrice.rounding.end9": "Sonu 9 (…9 ₺)",
+  "bulkPrice.summary": { one: "{count} ürünün fiyatı değişecek", other: "{count} ürünün fiyatı değişecek" },
+  "bulkPrice.noChanges": "Bu ayarlarla hiçbir fiyat değişmiyor.",
+  "bulkPrice.before": "Şimdi",
+  "bulkPrice.after": "Yeni",
+  "bulkPrice.difference": "Fark",
+  "bulkPrice.apply": { one: "{count} fiyatı güncelle", other: "{count} fiyatı güncelle" },
+  "bulkPrice.confirm": { one: "{count} ürünün fiyatı güncellensin mi?", other: "{count} ürünün fiyatı güncellensin mi?" },
+  "bulkPrice.applied": { one: "{count} fiyat güncellendi.", other: "{count} fiyat güncellendi." },
+  "bulkPrice.schedule": { one: "{count} fiyatı planla", other: "{count} fiyatı planla" },
+  "bulkPrice.confirmSchedule": {
+    one: "{count} ürünün fiyatı {date} tarihinde değişsin mi?",
+    other: "{count} ürünün fiyatı {date} tarihinde değişsin mi?",
+  },
+  "bulkPrice.scheduled": {
+    one: "{count} fiyat {date} için planlandı.",
+    other: "{count} fiyat {date} için planlandı.",
+  },
+  "bulkPrice.failed": "Fiyatlar güncellenemedi!",
+  "prices.history": "Fiyat geçmişi",
+  "prices.historyEmpty": "Henüz fiyat değişikliği yok.",
+  "prices.loadFailed": "Fiyat geçmişi yüklenemedi.",
+  "prices.source.edit": "Düzenleme",
+  "prices.source.bulk": "Toplu güncelleme",
+  "prices.source.import": "İçe aktarma",
+  "prices.source.schedule": "Planlı değişiklik",
+  "prices.when.now": "Hemen",
+  "prices.when.later": "İleri tarihte",
+  "prices.newPrice": "Yeni fiyat",
+  "prices.effectiveAt": "Geçerlilik tarihi",
+  "prices.effectiveAtPast": "Geçerlilik tarihi yarın ya da sonrası olmalı.",
+  "prices.effectiveAtHint": "Yeni fiyat o gün 00:00'da (mekan saati) geçerli olur.",
+  "prices.schedule": "Fiyat planla",
+  "prices.scheduledFor": "{date} itibarıyla",
+  "prices.scheduleFailed": "Fiyat planlanamadı!",
+  "prices.cancelSchedule": "Planı iptal et",
+  "prices.confirmCancel": "Bu fiyat planı iptal edilsin mi?",
+  "prices.cancelFailed": "Plan iptal edilemedi!",
+  "priceReport.title": "📈 Fiyat Değişiklikleri",
+  "priceReport.upcoming": "Planlanan fiyatlar",
+  "priceReport.noUpcoming": "Bekleyen fiyat planı yok.",
+  "priceReport.from": "Başlangıç",
+  "priceReport.to": "Bitiş",
+  "priceReport.count": { one: "{count} değişiklik", other: "{count} değişiklik" },
+  "priceReport.empty": "Bu aralıkta fiyat değişikliği yok.",
+  "priceReport.date": "Tarih",
+  "priceReport.source": "Kaynak",
+  "priceReport.user": "Kullanıcı",
+
+  "promotions.title": "🏷️ Kampanyalar",
+  "promotions.empty": "Geçerli ya da yaklaşan kampanya yok.",
+  "promotions.loadFailed": "Kampanyalar yüklenemedi.",
+  "promotions.add": "+ Yeni kampanya",
+  "promotions.name": "Kampanya adı",
+  "promotions.namePlaceholder": "Örn. Happy Hour",
+  "promotions.discount": "İndirim",
+  "promotions.type.percent": "Yüzde (%)",
+  "promotions.type.amount": "Tutar (₺)",
+  "promotions.type.fixedPrice": "Sabit fiyat (₺)",
+  "promotions.fixedPrice": "{price} sabit",
+  "promotions.startsAt": "Başlangıç",
+  "promotions.endsAt": "Bitiş",
+  "promotions.hours": "Günlük saatler",
+  "promotions.hoursHint": "Boşsa tarih aralığı boyunca gün boyu geçerli. Saatler {timeZone} saat dilimindedir.",
+  "promotions.categories": "Kategoriler",
+  "promotions.items": "Ürünler",
+  "promotions.status.active": "Geçerli",
+  "promotions.status.upcoming": "Yaklaşan",
+  "promotions.confirmDelete": "\"{name}\" kampanyası silinsin mi?",
+  "promotions.saveFailed": "Kampanya kaydedilemedi!",
+  "promotions.deleteFailed": "Kampanya silinemedi!",
+  "promotions.validation.name": "Kampanya adı boş olamaz.",
+  "promotions.validation.scope": "En az bir kategori ya da ürün seçin.",
+  "promotions.validation.value": "İndirim değeri sıfırdan büyük olmalı.",
+  "promotions.validation.percent": "Yüzde indirim 100'ü geçemez.",
+  "promotions.validation.dates": "Bitiş tarihi başlangıçtan sonra olmalı.",
+
+  "orders.title": "🧾 Gelen Siparişler",
+  "orders.openCount": { one: "{count} açık", other: "{count} açık" },
+  "orders.loadFailed": "Siparişler yüklenemedi.",
+  "orders.statusFailed": "Durum güncellenemedi!",
+  "orders.note": "Not: {note}",
+  "orders.empty": "Henüz sipariş yok.",
+
+  "serviceRequests.title": "🔔 Servis Çağrıları",
+  "serviceRequests.sound": "Sesli uyarı",
+  "serviceRequests.loadFailed": "Çağrılar yüklenemedi.",
+  "serviceRequests.acknowledge": "Tamam, ilgileniliyor",
+  "serviceRequests.acknowledgeFailed": "Onaylanamadı!",
+  "serviceRequests.empty": "Açık çağrı yok.",
+
+  "tables.title": "🔳 Masa QR Kodları",
+  "tables.print": "A4 masa kartı yazdır",
+  "tables.printTitle": "{venue} • Masa kartları",
+  "tables.scanHint": "Menü için QR kodu okutun",
+  "tables.field.tables": "Masa(lar)",
+  "tables.field.tablesPlaceholder": "1-12, 15, Bahçe1",
+  "tables.field.zone": "Bölge (opsiyonel)",
+  "tables.field.zonePlaceholder": "Bahçe",
+  "tables.add": "Masa Ekle",
+  "tables.inputRequired": "Masa numarası gir (örn: 1-12, 15, Bahçe1).",
+  "tables.qrAlt": "Masa {table} QR",
+  "tables.empty": "Henüz masa yok. QR kodlar şu gibi adreslere yönlenir:",
+  "tables.loadFailed": "Masalar yüklenemedi.",
+  "tables.saveFailed": "Masalar kaydedilemedi!",
+  "tables.deleteFailed": "Masa silinemedi!",
+} satisfies Record<string, Message>;
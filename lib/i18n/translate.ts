@@ -0,0 +1,52 @@
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/locales";
+import { de } from "@/lib/i18n/messages/de";
+import { en } from "@/lib/i18n/messages/en";
+import { ru } from "@/lib/i18n/messages/ru";
+import { tr } from "@/lib/i18n/messages/tr";
+
+/** Çoğul biçimler; "other" her dilde zorunlu, diğerleri dilin kurallarına göre. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof tr;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Catalog> = { tr, en, de, ru };
+
+function interpolate(template: string, params: MessageParams | undefined) {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+function createTranslator(locale: Locale) {
+  const catalog = catalogs[locale];
+  const plurals = new Intl.PluralRules(locale);
+
+  return function t(key: MessageKey, params?: MessageParams): string {
+    const message = catalog[key] ?? catalogs[DEFAULT_LOCALE][key] ?? key;
+    if (typeof message === "string") return interpolate(message, params);
+
+    const count = Number(params?.count ?? 0);
+    return interpolate(message[plurals.select(count)] ?? message.other, params);
+  };
+}
+
+export type Translate = ReturnType<typeof createTranslator>;
+
+const translators = new Map<Locale, Translate>();
+
+/** Dil başına tek örnek; hook bağımlılıklarında kimliği sabit kalsın diye cache'li. */
+export function getTranslator(locale: Locale): Translate {
+  let t = translators.get(locale);
+  if (!t) {
+    t = createTranslator(locale);
+    translators.set(locale, t);
+  }
+  return t;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, pickLocale, type Locale } from "@/lib/i18n/locales";
+import { getTranslator } from "@/lib/i18n/translate";
+
+const listeners = new Set<() => void>();
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange);
+  return () => listeners.delete(onChange);
+}
+
+function readLocale(): Locale {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${LOCALE_COOKIE}=([^;]*)`));
+  const value = match ? decodeURIComponent(match[1]) : null;
+  if (isLocale(value)) return value;
+  // proxy.ts çerezi yazamadıysa (ör. sayfa service worker'dan geldi) tarayıcı dillerine bak
+  return pickLocale(navigator.languages.join(","));
+}
+
+function setLocale(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+  listeners.forEach((l) => l());
+}
+
+/**
+ * Arayüz ve menü içeriği dili. Sayfalar statik render edildiği için sunucuda hep Türkçe;
+ * hydrate sonrası çerezdeki dile geçer.
+ */
+export function useLocale(): [Locale, (locale: Locale) => void] {
+  const locale = useSyncExternalStore(subscribe, readLocale, () => DEFAULT_LOCALE);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return [locale, setLocale];
+}
+
+export function useI18n() {
+  const [locale, setLocale] = useLocale();
+  return { locale, setLocale, t: getTranslator(locale) };
+}
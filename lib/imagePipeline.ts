@@ -0,0 +1,85 @@
+import { randomUUID } from "node:crypto";
+import sharp from "sharp";
+import { imageStorage } from "@/lib/imageStorage";
+import {
+  IMAGE_VARIANTS,
+  thumbnailUrl,
+  variantKey,
+  variantUrl,
+  type ImageVariant,
+  type UploadedImage,
+} from "@/lib/menuImages";
+
+// Telefonlar çoğunlukla JPEG/HEIF gönderir; sharp'ın okuyabildiği diğer yaygın biçimler de kabul.
+const INPUT_FORMATS = new Set(["jpeg", "png", "webp", "heif", "avif", "gif", "tiff"]);
+
+/**
+ * Fotoğrafı EXIF yönüne göre çevirir, her boyu kendi oranında kırpar (ilgi çeken bölge ortada
+ * kalır) ve WebP olarak depoya yazar. Çıktıya metadata yazılmaz; konum vb. EXIF bilgisi silinmiş olur.
+ */
+export async function storeMenuImage(
+  venueSlug: string,
+  input: Buffer
+): Promise<{ ok: true; image: UploadedImage } | { ok: false; reason: string }> {
+  const meta = await sharp(input)
+    .metadata()
+    .catch(() => null);
+  if (!meta?.format || !INPUT_FORMATS.has(meta.format)) {
+    return { ok: false, reason: "dosya okunabilir bir fotoğraf değil" };
+  }
+
+  const base = `${venueSlug}/${randomUUID()}`;
+  const urls: Partial<Record<ImageVariant, string>> = {};
+  for (const variant of Object.keys(IMAGE_VARIANTS) as ImageVariant[]) {
+    const { width, height, quality } = IMAGE_VARIANTS[variant];
+    const data = await sharp(input)
+      .rotate()
+      .resize(width, height, { fit: "cover", position: sharp.strategy.attention })
+      .webp({ quality })
+      .toBuffer();
+    urls[variant] = await imageStorage.put(variantKey(base, variant), data, "image/webp");
+  }
+  return { ok: true, image: { imageUrl: urls.card!, thumbnailUrl: urls.thumb! } };
+}
+
+/** Ürünün fotoğrafı değişince ya da ürün silinince; depoda değilse (dış URL) bir şey yapmaz. */
+export async function removeMenuImage(imageUrl: string | null | undefined) {
+  if (!imageUrl) return;
+  const variants = Object.keys(IMAGE_VARIANTS) as ImageVariant[];
+  for (const url of new Set([imageUrl, ...variants.map((v) => variantUrl(imageUrl, v))])) {
+    const key = imageStorage.keyOf(url);
+    if (!key) continue;
+    // Fotoğraf silinemese de ürün işlemi geçerli; artık dosya sadece yer kaplar
+    await imageStorage.delete(key).catch((err) => console.error("[images] silinemedi", key, err));
+  }
+}
+
+// Dosya adları her yüklemede yeni, içerik değişmez; önizleme süreç boyunca saklanabilir
+const placeholders = new Map<string, string>();
+
+/** Yüklenmiş fotoğrafın küçük boyundan 16×8 bulanık önizleme (data URL); dış URL'ler için null. */
+export async function imagePlaceholder(imageUrl: string): Promise<string | null> {
+  const key = imageStorage.keyOf(thumbnailUrl(imageUrl));
+  if (!key) return null;
+
+  const cached = placeholders.get(key);
+  if (cached) return cached;
+
+  const stored = await imageStorage.get(key);
+  if (!stored) return null;
+  const data = await sharp(stored.data).resize(16, 8).webp({ quality: 50 }).toBuffer();
+  const url = `data:image/webp;base64,${data.toString("base64")}`;
+  placeholders.set(key, url);
+  return url;
+}
+
+/** imageUrl → önizleme; okunamayanlar atlanır, menü önizlemesiz açılır. */
+export async function imagePlaceholders(imageUrls: (string | null | undefined)[]) {
+  const out: Record<string, string> = {};
+  for (const url of new Set(imageUrls)) {
+    if (!url) continue;
+    const placeholder = await imagePlaceholder(url).catch(() => null);
+    if (placeholder) out[url] = placeholder;
+  }
+  return out;
+}
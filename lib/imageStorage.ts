@@ -0,0 +1,57 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type StoredImage = { data: Buffer; contentType: string };
+
+/**
+ * Yüklenen fotoğrafların deposu. Varsayılanı sunucunun diski; Vercel gibi diski kalıcı olmayan
+ * ortamlarda aynı arayüzle S3, Blob vb. bir depo yazılıp imageStorage ona bağlanmalı.
+ */
+export type ImageStorage = {
+  /** Dosyayı yazar, misafirin açacağı URL'i döner. */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<StoredImage | null>;
+  delete(key: string): Promise<void>;
+  /** Bu depoya ait URL'in anahtarı; başka bir adresse null. */
+  keyOf(url: string): string | null;
+};
+
+// "<mekan>/<uuid>-card.webp"; diskte yol dışına çıkılmasın diye başka bir şey kabul edilmez
+const KEY_RE = /^[a-z0-9-]+\/[a-z0-9-]+\.webp$/i;
+
+export function isImageKey(key: string) {
+  return KEY_RE.test(key);
+}
+
+/** Disk deposundaki dosyalar app/uploads/[...key] üzerinden sunulur. */
+export const LOCAL_IMAGE_PATH = "/uploads/";
+
+function createLocalStorage(dir: string): ImageStorage {
+  const file = (key: string) => path.join(dir, ...key.split("/"));
+
+  return {
+    async put(key, data) {
+      if (!isImageKey(key)) throw new Error(`Geçersiz fotoğraf anahtarı: ${key}`);
+      await mkdir(path.dirname(file(key)), { recursive: true });
+      await writeFile(file(key), data);
+      return `${LOCAL_IMAGE_PATH}${key}`;
+    },
+    async get(key) {
+      if (!isImageKey(key)) return null;
+      const data = await readFile(file(key)).catch(() => null);
+      return data && { data, contentType: "image/webp" };
+    },
+    async delete(key) {
+      if (isImageKey(key)) await rm(file(key), { force: true });
+    },
+    keyOf(url) {
+      if (!url.startsWith(LOCAL_IMAGE_PATH)) return null;
+      const key = url.slice(LOCAL_IMAGE_PATH.length);
+      return isImageKey(key) ? key : null;
+    },
+  };
+}
+
+export const imageStorage: ImageStorage = createLocalStorage(
+  process.env.IMAGE_UPLOAD_DIR || path.join(process.cwd(), "uploads")
+);
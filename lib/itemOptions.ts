@@ -0,0 +1,95 @@
+// Ürün seçenekleri: "single" grup (boy) tam bir seçim ister, "multi" grup (ekstralar) isteğe bağlı.
+// Her seçeneğin fiyat farkı ürünün fiyatına eklenir; negatif olabilir (küçük boy gibi).
+
+export type OptionGroupKind = "single" | "multi";
+
+export type ItemOption = {
+  id: string;
+  name: string;
+  priceDelta: number;
+};
+
+export type OptionGroup = {
+  id: string;
+  name: string;
+  kind: OptionGroupKind;
+  options: ItemOption[];
+};
+
+/** grup id → seçilen seçenek id'leri */
+export type OptionSelection = Record<string, string[]>;
+
+export function newOptionId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function parseOption(raw: unknown): ItemOption | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "string" || !r.id) return null;
+  if (typeof r.name !== "string" || !r.name.trim()) return null;
+  const priceDelta = r.priceDelta === undefined ? 0 : r.priceDelta;
+  if (typeof priceDelta !== "number" || !Number.isFinite(priceDelta)) return null;
+  return { id: r.id, name: r.name, priceDelta };
+}
+
+// Çevirilerdeki gibi: bozuk grup/seçenek ürünü düşürmez, sadece atlanır.
+export function parseOptionGroups(raw: unknown): OptionGroup[] {
+  if (!Array.isArray(raw)) return [];
+
+  const groups: OptionGroup[] = [];
+  for (const g of raw) {
+    if (!g || typeof g !== "object") continue;
+    const r = g as Record<string, unknown>;
+    if (typeof r.id !== "string" || !r.id) continue;
+    if (typeof r.name !== "string" || !r.name.trim()) continue;
+    if (r.kind !== "single" && r.kind !== "multi") continue;
+    if (!Array.isArray(r.options)) continue;
+
+    const options = r.options.map(parseOption).filter((o): o is ItemOption => o !== null);
+    if (options.length === 0) continue;
+    groups.push({ id: r.id, name: r.name, kind: r.kind, options });
+  }
+  return groups;
+}
+
+/** Tek seçimli gruplarda ilk seçenek hazır gelir. */
+export function defaultSelection(groups: OptionGroup[] = []): OptionSelection {
+  const selection: OptionSelection = {};
+  for (const g of groups) selection[g.id] = g.kind === "single" ? [g.options[0].id] : [];
+  return selection;
+}
+
+export function toggleOption(
+  selection: OptionSelection,
+  group: OptionGroup,
+  optionId: string
+): OptionSelection {
+  const current = selection[group.id] ?? [];
+  if (group.kind === "single") return { ...selection, [group.id]: [optionId] };
+  const next = current.includes(optionId)
+    ? current.filter((id) => id !== optionId)
+    : [...current, optionId];
+  return { ...selection, [group.id]: next };
+}
+
+/** Seçimi ürünün grup/seçenek sırasında döner; bilinmeyen id'ler atlanır. */
+export function selectedOptions(groups: OptionGroup[] = [], selection: OptionSelection) {
+  return groups.flatMap((g) => g.options.filter((o) => selection[g.id]?.includes(o.id)));
+}
+
+/** Seçimi eksik (tek seçimli ama seçilmemiş) ilk grup; hepsi tamamsa null. */
+export function missingGroup(groups: OptionGroup[] = [], selection: OptionSelection) {
+  return (
+    groups.find((g) => g.kind === "single" && !g.options.some((o) => selection[g.id]?.includes(o.id))) ??
+    null
+  );
+}
+
+export function priceWithOptions(
+  item: { price: number; optionGroups?: OptionGroup[] },
+  selection: OptionSelection
+) {
+  const delta = selectedOptions(item.optionGroups, selection).reduce((sum, o) => sum + o.priceDelta, 0);
+  return Math.max(0, item.price + delta);
+}
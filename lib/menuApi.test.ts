@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMenuApi, nextSortOrder, type MenuItem, type MenuItemInput } from "@/lib/menuApi";
+
+const input: MenuItemInput = {
+  name: " Latte ",
+  price: 95,
+  category: "Kahveler",
+  isAvailable: true,
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createMenuApi().update", () => {
+  it("PUT gövdesinde mevcut sortOrder'ı taşır", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await createMenuApi({ baseUrl: "http://api.test" }).update(5, input, 3, "key");
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://api.test/api/Menu/5");
+    expect(init.method).toBe("PUT");
+    expect((init.headers as Record<string, string>)["X-Admin-Key"]).toBe("key");
+    expect(JSON.parse(init.body as string)).toMatchObject({ id: 5, name: "Latte", sortOrder: 3 });
+  });
+});
+
+describe("nextSortOrder", () => {
+  const items: MenuItem[] = [
+    { id: 1, name: "Latte", price: 95, category: "Kahveler", isAvailable: true, sortOrder: 4 },
+    { id: 2, name: "Mocha", price: 105, category: " Kahveler ", isAvailable: true, sortOrder: 7 },
+    { id: 3, name: "Künefe", price: 150, category: "Tatlılar", isAvailable: true, sortOrder: 20 },
+    { id: 4, name: "Filtre", price: 80, category: "kahveler", isAvailable: true, sortOrder: 30 },
+  ];
+
+  it("kategorinin en büyük sırasının bir fazlasını verir; ad trim'lenip birebir eşleşir", () => {
+    expect(nextSortOrder(items, "Kahveler")).toBe(8);
+  });
+
+  it("boş kategoride 0'dan başlar", () => {
+    expect(nextSortOrder(items, "Salatalar")).toBe(0);
+  });
+});
@@ -0,0 +1,284 @@
+import { parseAvailability, type AvailabilityWindow } from "@/lib/availability";
+import {
+  ALLERGENS,
+  DIETARY_TAGS,
+  parseCodes,
+  type Allergen,
+  type DietaryTag,
+} from "@/lib/dietary";
+import { ApiError, buildUrl, request, type ApiScope, type RequestOptions } from "@/lib/http";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "@/lib/i18n/locales";
+import { parseOptionGroups, type OptionGroup } from "@/lib/itemOptions";
+
+export type ItemTranslation = {
+  name?: string;
+  description?: string | null;
+};
+
+/** Türkçe metin name/description alanlarında durur; burada sadece diğer diller. */
+export type ItemTranslations = Partial<Record<Locale, ItemTranslation>>;
+
+export type MenuItem = {
+  id: number;
+  name: string;
+  price: number;
+  category: string;
+  isAvailable: boolean;
+  imageUrl?: string | null;
+  description?: string | null;
+  translations?: ItemTranslations;
+  allergens?: Allergen[];
+  tags?: DietaryTag[];
+  optionGroups?: OptionGroup[];
+  /** Haftalık servis saatleri; boşsa isAvailable neyse o. */
+  availability?: AvailabilityWindow[];
+  /** Kategori içindeki sıra; küçük olan önce, eşitlikte ada göre. */
+  sortOrder?: number;
+};
+
+/** Sıra ayrı uçtan yönetilir; düzenleme formu onu taşımaz. */
+export type MenuItemInput = Omit<MenuItem, "id" | "sortOrder">;
+
+/** Kategori filtresinde "hepsi" seçeneği; arayüz dilinden bağımsız, gerçek bir kategoriyle çakışmaz. */
+export const ALL_CATEGORIES = "__all__";
+
+export type InvalidRecord = {
+  index: number;
+  reason: string;
+  raw: unknown;
+};
+
+type ParseResult = { ok: true; item: MenuItem } | { ok: false; reason: string };
+
+function optionalText(v: unknown): string | null | undefined {
+  if (v === undefined || v === null) return null;
+  if (typeof v === "string") return v;
+  return undefined;
+}
+
+// Bozuk bir çeviri ürünü menüden düşürmesin; geçersiz diller/alanlar sessizce atlanır.
+function parseTranslations(raw: unknown): ItemTranslations {
+  const out: ItemTranslations = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+
+  for (const locale of LOCALES) {
+    if (locale === DEFAULT_LOCALE) continue;
+    const t = (raw as Record<string, unknown>)[locale];
+    if (!t || typeof t !== "object") continue;
+
+    const { name, description } = t as Record<string, unknown>;
+    const entry: ItemTranslation = {};
+    if (typeof name === "string" && name.trim()) entry.name = name;
+    if (typeof description === "string" && description.trim()) entry.description = description;
+    if (entry.name || entry.description) out[locale] = entry;
+  }
+  return out;
+}
+
+export function parseMenuItem(raw: unknown): ParseResult {
+  if (!raw || typeof raw !== "object") return { ok: false, reason: "kayıt nesne değil" };
+  const r = raw as Record<string, unknown>;
+
+  const id = typeof r.id === "string" ? Number(r.id) : r.id;
+  if (typeof id !== "number" || !Number.isInteger(id)) return { ok: false, reason: "id geçersiz" };
+
+  if (typeof r.name !== "string" || !r.name.trim()) return { ok: false, reason: "ad eksik" };
+  if (typeof r.category !== "string" || !r.category.trim()) {
+    return { ok: false, reason: "kategori eksik" };
+  }
+
+  // API bazen fiyatı "120.50" gibi string dönebiliyor
+  const price = typeof r.price === "string" && r.price.trim() ? Number(r.price) : r.price;
+  if (typeof price !== "number" || !Number.isFinite(price)) {
+    return { ok: false, reason: "fiyat sayı değil" };
+  }
+
+  if (typeof r.isAvailable !== "boolean") return { ok: false, reason: "isAvailable boolean değil" };
+
+  const imageUrl = optionalText(r.imageUrl);
+  if (imageUrl === undefined) return { ok: false, reason: "imageUrl metin değil" };
+  const description = optionalText(r.description);
+  if (description === undefined) return { ok: false, reason: "description metin değil" };
+
+  return {
+    ok: true,
+    item: {
+      id,
+      name: r.name,
+      price,
+      category: r.category,
+      isAvailable: r.isAvailable,
+      imageUrl,
+      description,
+      translations: parseTranslations(r.translations),
+      allergens: parseCodes(r.allergens, ALLERGENS),
+      tags: parseCodes(r.tags, DIETARY_TAGS),
+      optionGroups: parseOptionGroups(r.optionGroups),
+      availability: parseAvailability(r.availability),
+      sortOrder: typeof r.sortOrder === "number" && Number.isFinite(r.sortOrder) ? r.sortOrder : 0,
+    },
+  };
+}
+
+/** Admin route'larına gelen gövde için; id'siz, fiyat negatif olamaz. */
+export function parseMenuItemInput(
+  raw: unknown
+): { ok: true; input: MenuItemInput } | { ok: false; reason: string } {
+  const parsed = parseMenuItem({ ...(raw && typeof raw === "object" ? raw : {}), id: 0 });
+  if (!parsed.ok) return parsed;
+  if (parsed.item.price < 0) return { ok: false, reason: "fiyat negatif olamaz" };
+  const {
+    name,
+    price,
+    category,
+    isAvailable,
+    imageUrl,
+    description,
+    translations,
+    allergens,
+    tags,
+    optionGroups,
+    availability,
+  } = parsed.item;
+  return {
+    ok: true,
+    input: {
+      name,
+      price,
+      category,
+      isAvailable,
+      imageUrl,
+      description,
+      translations,
+      allergens,
+      tags,
+      optionGroups,
+      availability,
+    },
+  };
+}
+
+/** Kategorinin sonundaki yer; yeni ya da başka kategoriye taşınan ürün buraya eklenir. */
+export function nextSortOrder(items: MenuItem[], category: string) {
+  const key = category.trim();
+  return items
+    .filter((x) => x.category.trim() === key)
+    .reduce((max, x) => Math.max(max, (x.sortOrder ?? 0) + 1), 0);
+}
+
+export function sortMenuItems<T extends Pick<MenuItem, "name" | "sortOrder">>(items: T[], locale = "tr") {
+  return [...items].sort(
+    (a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name, locale)
+  );
+}
+
+/** Seçili dildeki ad/açıklama; eksik alanlar Türkçe kalır. */
+export function localizeItem(item: MenuItem, locale: Locale): MenuItem {
+  const t = item.translations?.[locale];
+  if (!t) return item;
+  return {
+    ...item,
+    name: t.name?.trim() || item.name,
+    description: t.description?.trim() || item.description,
+  };
+}
+
+export function parseMenuList(data: unknown): { items: MenuItem[]; invalid: InvalidRecord[] } {
+  if (!Array.isArray(data)) {
+    throw new ApiError(200, "Menü yanıtı liste değil.", data);
+  }
+
+  const items: MenuItem[] = [];
+  const invalid: InvalidRecord[] = [];
+
+  data.forEach((raw, index) => {
+    const parsed = parseMenuItem(raw);
+    if (parsed.ok) items.push(parsed.item);
+    else invalid.push({ index, reason: parsed.reason, raw });
+  });
+
+  return { items, invalid };
+}
+
+function reportInvalid(invalid: InvalidRecord[]) {
+  if (invalid.length === 0) return;
+  console.warn(`[menuApi] ${invalid.length} hatalı kayıt atlandı`, invalid);
+}
+
+function toPayload(input: MenuItemInput) {
+  return {
+    name: input.name.trim(),
+    price: input.price,
+    category: input.category.trim(),
+    isAvailable: input.isAvailable,
+    imageUrl: input.imageUrl?.trim() || null,
+    description: input.description?.trim() || null,
+    translations: parseTranslations(input.translations),
+    allergens: parseCodes(input.allergens, ALLERGENS),
+    tags: parseCodes(input.tags, DIETARY_TAGS),
+    optionGroups: parseOptionGroups(input.optionGroups).map((g) => ({
+      ...g,
+      name: g.name.trim(),
+      options: g.options.map((o) => ({ ...o, name: o.name.trim() })),
+    })),
+    availability: parseAvailability(input.availability),
+  };
+}
+
+type ListOptions = Pick<RequestOptions, "onRetry" | "retries" | "next"> & {
+  onInvalid?: (invalid: InvalidRecord[]) => void;
+};
+
+export function createMenuApi(scope: ApiScope = {}) {
+  return {
+    async list({ onInvalid = reportInvalid, ...options }: ListOptions = {}): Promise<MenuItem[]> {
+      const { items, invalid } = parseMenuList(await request(buildUrl(scope, "/api/Menu"), options));
+      if (invalid.length) onInvalid(invalid);
+      return items;
+    },
+
+    async get(id: number): Promise<MenuItem> {
+      const data = await request(buildUrl(scope, `/api/Menu/${id}`));
+      const parsed = parseMenuItem(data);
+      if (!parsed.ok) throw new ApiError(200, `Ürün kaydı hatalı: ${parsed.reason}`, data);
+      return parsed.item;
+    },
+
+    async create(input: MenuItemInput, sortOrder: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/Menu"), {
+        method: "POST",
+        body: { ...toPayload(input), sortOrder },
+        adminKey,
+      });
+    },
+
+    /**
+     * Upstream PUT kaydın tamamını yazar. Sıra düzenlenen alanlardan değil; aynı kategoride kalan
+     * ürün için kayıttaki sortOrder, başka kategoriye taşınan için nextSortOrder verilir.
+     */
+    async update(id: number, input: MenuItemInput, sortOrder: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Menu/${id}`), {
+        method: "PUT",
+        body: { id, ...toPayload(input), sortOrder },
+        adminKey,
+      });
+    },
+
+    async delete(id: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Menu/${id}`), { method: "DELETE", adminKey });
+    },
+
+    /** Tek kategorinin ürünleri; ids sırasıyla sortOrder 0, 1, 2… olur. */
+    async reorder(ids: number[], adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/Menu/order"), {
+        method: "PUT",
+        body: { ids },
+        adminKey,
+      });
+    },
+  };
+}
+
+export const menuApi = createMenuApi();
+
+export type MenuApi = ReturnType<typeof createMenuApi>;
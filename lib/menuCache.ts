@@ -0,0 +1,37 @@
+import { parseCategoryList, type Category } from "@/lib/categoriesApi";
+import { parseMenuList, type MenuItem } from "@/lib/menuApi";
+
+const CACHE_KEY_PREFIX = "qrmenu_menu_cache_v1";
+
+function cacheKey(venueSlug: string) {
+  return `${CACHE_KEY_PREFIX}:${venueSlug}`;
+}
+
+export type CachedMenu = {
+  items: MenuItem[];
+  /** Eski kayıtlarda yok; o durumda ayarlardaki sıra kullanılır. */
+  categories: Category[] | null;
+  savedAt: number;
+};
+
+// Son başarılı menü yanıtı; API uyanırken misafire boş sayfa yerine bunu gösteriyoruz.
+export function readMenuCache(venueSlug: string): CachedMenu | null {
+  try {
+    const raw = localStorage.getItem(cacheKey(venueSlug));
+    if (!raw) return null;
+    const data = JSON.parse(raw) as { items?: unknown; categories?: unknown; savedAt?: unknown };
+    if (typeof data.savedAt !== "number") return null;
+    const { items } = parseMenuList(data.items);
+    const categories = Array.isArray(data.categories) ? parseCategoryList(data.categories) : null;
+    return items.length ? { items, categories, savedAt: data.savedAt } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeMenuCache(venueSlug: string, items: MenuItem[], categories: Category[]) {
+  try {
+    const entry: CachedMenu = { items, categories, savedAt: Date.now() };
+    localStorage.setItem(cacheKey(venueSlug), JSON.stringify(entry));
+  } catch {}
+}
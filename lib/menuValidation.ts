@@ -0,0 +1,43 @@
+import { isValidTime, type AvailabilityWindow } from "@/lib/availability";
+import type { Translate } from "@/lib/i18n/translate";
+import type { OptionGroup } from "@/lib/itemOptions";
+
+type ItemFields = {
+  name: string;
+  category: string;
+  price: number;
+  optionGroups?: OptionGroup[];
+  availability?: AvailabilityWindow[];
+};
+
+/**
+ * Admin formları ve içe aktarma önizlemesi için; ilk hatanın çevrilmiş metni, geçerliyse null.
+ * Sunucudaki parseMenuItemInput da aynı kuralları uygular ama bozuk grupları sessizce atar.
+ */
+export function validateItem(
+  t: Translate,
+  { name, category, price, optionGroups = [], availability = [] }: ItemFields
+) {
+  if (!name.trim()) return t("admin.validation.nameRequired");
+  if (!category.trim()) return t("admin.validation.categoryRequired");
+  if (!Number.isFinite(price)) return t("admin.validation.priceNumber");
+  if (price < 0) return t("admin.validation.priceNegative");
+  for (const g of optionGroups) {
+    if (!g.name.trim()) return t("admin.validation.optionGroupName");
+    if (g.options.length === 0) return t("admin.validation.optionsEmpty", { group: g.name });
+    if (g.options.some((o) => !o.name.trim())) return t("admin.validation.optionName", { group: g.name });
+    if (g.options.some((o) => !Number.isFinite(o.priceDelta))) return t("admin.validation.optionDelta");
+  }
+  return validateAvailability(t, availability);
+}
+
+/** Ürün ve kategori formlarındaki servis saatleri için. */
+export function validateAvailability(t: Translate, windows: AvailabilityWindow[]) {
+  for (const w of windows) {
+    if (w.days.length === 0) return t("admin.validation.availabilityDays");
+    if (!isValidTime(w.start) || !isValidTime(w.end) || w.start === w.end) {
+      return t("admin.validation.availabilityTime");
+    }
+  }
+  return null;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { VenueClock } from "@/lib/availability";
+import type { Category } from "@/lib/categoriesApi";
+import type { MenuItem } from "@/lib/menuApi";
+import { lineName, priceOrder } from "@/lib/orderPricing";
+import type { OrderLineRequest } from "@/lib/ordersApi";
+import type { Promotion } from "@/lib/promotionsApi";
+
+// Cuma 20:00 (mekan saati)
+const clock: VenueClock = { at: Date.parse("2026-06-05T17:00:00Z"), day: 5, minutes: 20 * 60 };
+
+const category = (name: string, overrides: Partial<Category> = {}): Category => ({
+  id: name.length,
+  name,
+  sortOrder: 0,
+  isActive: true,
+  ...overrides,
+});
+
+const cola: MenuItem = {
+  id: 1,
+  name: "Kola",
+  price: 60,
+  category: "İçecekler",
+  isAvailable: true,
+  optionGroups: [
+    {
+      id: "size",
+      name: "Boy",
+      kind: "single",
+      options: [
+        { id: "s", name: "Küçük", priceDelta: 0 },
+        { id: "l", name: "Büyük", priceDelta: 15 },
+      ],
+    },
+    {
+      id: "extra",
+      name: "Ekstra",
+      kind: "multi",
+      options: [
+        { id: "ice", name: "Buzlu", priceDelta: 0 },
+        { id: "lemon", name: "Limonlu", priceDelta: 5 },
+      ],
+    },
+  ],
+};
+
+const cake: MenuItem = { id: 2, name: "Cheesecake", price: 140, category: "Tatlılar", isAvailable: true };
+
+const menu = (overrides: { items?: MenuItem[]; categories?: Category[]; promotions?: Promotion[] } = {}) => ({
+  items: [cola, cake],
+  categories: [category("İçecekler"), category("Tatlılar")],
+  promotions: [],
+  clock,
+  ...overrides,
+});
+
+const order = (...lines: OrderLineRequest[]) => ({ table: "12", note: null, lines });
+
+describe("lineName", () => {
+  it("seçenekleri parantez içinde ekler", () => {
+    expect(lineName("Kola")).toBe("Kola");
+    expect(lineName("Kola", ["Büyük", "Buzlu"])).toBe("Kola (Büyük, Buzlu)");
+  });
+});
+
+describe("priceOrder", () => {
+  it("adı ve birim fiyatı menüden, seçenek farklarıyla yazar", () => {
+    const result = priceOrder(
+      order(
+        { menuItemId: 1, quantity: 2, options: { size: ["l"], extra: ["ice", "lemon"] } },
+        { menuItemId: 2, quantity: 1, note: "çatalsız" }
+      ),
+      menu()
+    );
+    expect(result).toEqual({
+      ok: true,
+      input: {
+        table: "12",
+        note: null,
+        lines: [
+          { menuItemId: 1, name: "Kola (Büyük, Buzlu, Limonlu)", unitPrice: 80, quantity: 2, note: undefined },
+          { menuItemId: 2, name: "Cheesecake", unitPrice: 140, quantity: 1, note: "çatalsız" },
+        ],
+      },
+    });
+  });
+
+  it("kampanya taban fiyata uygulanır, seçenek farkı indirimsiz eklenir", () => {
+    const happyHour: Promotion = {
+      id: 1,
+      name: "Happy hour",
+      itemIds: [],
+      categories: ["İçecekler"],
+      discountType: "percent",
+      value: 50,
+      startsAt: "2026-06-01T00:00:00Z",
+      endsAt: "2026-07-01T00:00:00Z",
+      hours: [{ days: [5], start: "18:00", end: "21:00" }],
+    };
+    const large = order({ menuItemId: 1, quantity: 1, options: { size: ["l"] } });
+    const result = priceOrder(large, menu({ promotions: [happyHour] }));
+    expect(result.ok && result.input.lines[0].unitPrice).toBe(45);
+
+    const late = priceOrder(large, { ...menu({ promotions: [happyHour] }), clock: { ...clock, minutes: 22 * 60 } });
+    expect(late.ok && late.input.lines[0].unitPrice).toBe(75);
+  });
+
+  it("menüde olmayan ya da pasif kategorideki ürünü reddeder", () => {
+    const missing = { ok: false, reason: "ürün menüde yok" };
+    expect(priceOrder(order({ menuItemId: 99, quantity: 1 }), menu())).toEqual(missing);
+    const hidden = menu({ categories: [category("İçecekler"), category("Tatlılar", { isActive: false })] });
+    expect(priceOrder(order({ menuItemId: 2, quantity: 1 }), hidden)).toEqual(missing);
+  });
+
+  it("satışta olmayan ve servis saati dışındaki ürünü reddeder", () => {
+    const off = menu({ items: [cola, { ...cake, isAvailable: false }] });
+    expect(priceOrder(order({ menuItemId: 2, quantity: 1 }), off)).toEqual({
+      ok: false,
+      reason: '"Cheesecake" şu an satışta değil',
+    });
+
+    const lunch = [{ days: [5 as const], start: "11:00", end: "15:00" }];
+    const lunchOnly = menu({ categories: [category("İçecekler"), category("Tatlılar", { availability: lunch })] });
+    expect(priceOrder(order({ menuItemId: 2, quantity: 1 }), lunchOnly)).toEqual({
+      ok: false,
+      reason: '"Cheesecake" servis saati dışında',
+    });
+  });
+
+  it("geçersiz seçimi reddeder", () => {
+    const reason = (options: OrderLineRequest["options"]) => {
+      const result = priceOrder(order({ menuItemId: 1, quantity: 1, options }), menu());
+      return result.ok ? null : result.reason;
+    };
+    expect(reason({ size: ["s"], sauce: ["x"] })).toBe("Kola: seçenek grubu bulunamadı");
+    expect(reason({ size: ["xl"] })).toBe("Kola: seçenek bulunamadı");
+    expect(reason({ size: ["s", "l"] })).toBe('Kola: "Boy" için tek seçim yapılmalı');
+    expect(reason({ extra: ["ice"] })).toBe('Kola: "Boy" seçilmedi');
+  });
+});
@@ -0,0 +1,64 @@
+// Siparişin adı ve fiyatı sunucuda menüden yazılır; misafirin tarayıcısından gelen fiyata güvenilmez.
+
+import { availabilityAt, type VenueClock } from "@/lib/availability";
+import { inactiveCategoryNames, type Category } from "@/lib/categoriesApi";
+import { missingGroup, priceWithOptions, selectedOptions, type OptionGroup, type OptionSelection } from "@/lib/itemOptions";
+import type { MenuItem } from "@/lib/menuApi";
+import type { OrderInput, OrderRequest } from "@/lib/ordersApi";
+import { bestPromotion, type Promotion } from "@/lib/promotionsApi";
+
+/** Mutfağa giden ad: "Kola (Büyük, Buzlu)". */
+export function lineName(name: string, options: string[] = []) {
+  return options.length ? `${name} (${options.join(", ")})` : name;
+}
+
+// Bilinmeyen grup/seçenek ya da tek seçimli grupta birden çok seçim: menü değişmiş ya da istek elle yazılmış
+function selectionProblem(groups: OptionGroup[] = [], selection: OptionSelection) {
+  for (const [groupId, ids] of Object.entries(selection)) {
+    const group = groups.find((g) => g.id === groupId);
+    if (!group) return "seçenek grubu bulunamadı";
+    if (ids.some((id) => !group.options.some((o) => o.id === id))) return "seçenek bulunamadı";
+    if (group.kind === "single" && ids.length > 1) return `"${group.name}" için tek seçim yapılmalı`;
+  }
+  const missing = missingGroup(groups, selection);
+  return missing ? `"${missing.name}" seçilmedi` : null;
+}
+
+/**
+ * Satırları menüdeki ürünlerle eşleştirip Türkçe ad ve birim fiyatı yazar: o an (mekan saatiyle)
+ * geçerli kampanyanın fiyatı ya da ürün fiyatı, üstüne seçenek farkları. Menüde olmayan, pasif,
+ * pasif kategorideki ya da servis saati dışındaki ürün siparişi reddeder.
+ */
+export function priceOrder(
+  request: OrderRequest,
+  menu: { items: MenuItem[]; categories: Category[]; promotions: Promotion[]; clock: VenueClock }
+): { ok: true; input: OrderInput } | { ok: false; reason: string } {
+  const byId = new Map(menu.items.map((x) => [x.id, x]));
+  const byName = new Map(menu.categories.map((c) => [c.name, c]));
+  const hidden = inactiveCategoryNames(menu.categories);
+
+  const lines: OrderInput["lines"] = [];
+  for (const line of request.lines) {
+    const item = byId.get(line.menuItemId);
+    if (!item || hidden.has(item.category.trim())) return { ok: false, reason: "ürün menüde yok" };
+
+    const { state } = availabilityAt(item, byName.get(item.category.trim()), menu.clock);
+    if (state === "off") return { ok: false, reason: `"${item.name}" şu an satışta değil` };
+    if (state === "outOfHours") return { ok: false, reason: `"${item.name}" servis saati dışında` };
+
+    const selection = line.options ?? {};
+    const problem = selectionProblem(item.optionGroups, selection);
+    if (problem) return { ok: false, reason: `${item.name}: ${problem}` };
+
+    const base = bestPromotion(item, menu.promotions, menu.clock)?.price ?? item.price;
+    lines.push({
+      menuItemId: item.id,
+      name: lineName(item.name, selectedOptions(item.optionGroups, selection).map((o) => o.name)),
+      unitPrice: priceWithOptions({ ...item, price: base }, selection),
+      quantity: line.quantity,
+      note: line.note,
+    });
+  }
+
+  return { ok: true, input: { table: request.table, note: request.note, lines } };
+}
@@ -0,0 +1,200 @@
+import { ApiError, buildUrl, request, type ApiScope } from "@/lib/http";
+import type { OptionSelection } from "@/lib/itemOptions";
+import { isValidTableNumber } from "@/lib/tables";
+
+export type OrderStatus = "new" | "preparing" | "served";
+
+const STATUS_FLOW: OrderStatus[] = ["new", "preparing", "served"];
+
+export function isOrderStatus(v: unknown): v is OrderStatus {
+  return STATUS_FLOW.includes(v as OrderStatus);
+}
+
+/** yeni → hazırlanıyor → servis edildi; son adımda null. */
+export function nextOrderStatus(status: OrderStatus): OrderStatus | null {
+  return STATUS_FLOW[STATUS_FLOW.indexOf(status) + 1] ?? null;
+}
+
+export type OrderLine = {
+  menuItemId: number;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  note?: string | null;
+};
+
+export type Order = {
+  id: number;
+  table: string;
+  lines: OrderLine[];
+  note?: string | null;
+  total: number;
+  status: OrderStatus;
+  createdAt: string;
+};
+
+export type OrderInput = {
+  table: string;
+  lines: OrderLine[];
+  note?: string | null;
+};
+
+export function orderTotal(lines: Pick<OrderLine, "unitPrice" | "quantity">[]) {
+  return lines.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0);
+}
+
+export const MAX_LINE_QUANTITY = 50;
+const MAX_LINES = 30;
+const MAX_NOTE_LENGTH = 200;
+
+/** Misafirin gönderdiği satır: ürün ve seçimler. Ad ve fiyatı sunucu menüden yazar (lib/orderPricing.ts). */
+export type OrderLineRequest = {
+  menuItemId: number;
+  quantity: number;
+  note?: string | null;
+  options?: OptionSelection;
+};
+
+export type OrderRequest = {
+  table: string;
+  lines: OrderLineRequest[];
+  note?: string | null;
+};
+
+function parseNote(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim().slice(0, MAX_NOTE_LENGTH) : null;
+}
+
+function parseSelection(v: unknown): OptionSelection | null {
+  if (v === undefined || v === null) return {};
+  if (typeof v !== "object" || Array.isArray(v)) return null;
+  const out: OptionSelection = {};
+  for (const [group, ids] of Object.entries(v)) {
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) return null;
+    out[group] = ids;
+  }
+  return out;
+}
+
+/** /api/orders'a gelen gövde için. */
+export function parseOrderRequest(raw: unknown): { ok: true; input: OrderRequest } | { ok: false; reason: string } {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const table = typeof r.table === "string" ? r.table.trim() : "";
+  if (!isValidTableNumber(table)) return { ok: false, reason: "masa geçersiz" };
+  if (!Array.isArray(r.lines) || r.lines.length === 0) return { ok: false, reason: "sepet boş" };
+  if (r.lines.length > MAX_LINES) return { ok: false, reason: "sepette çok fazla satır var" };
+
+  const lines: OrderLineRequest[] = [];
+  for (const raw of r.lines) {
+    const l = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    if (!Number.isInteger(l.menuItemId)) return { ok: false, reason: "ürün geçersiz" };
+    const quantity = l.quantity;
+    if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      return { ok: false, reason: "adet geçersiz" };
+    }
+    const options = parseSelection(l.options);
+    if (!options) return { ok: false, reason: "seçenekler geçersiz" };
+    lines.push({ menuItemId: l.menuItemId as number, quantity, note: parseNote(l.note), options });
+  }
+
+  return { ok: true, input: { table, lines, note: parseNote(r.note) } };
+}
+
+function parseLine(raw: unknown): OrderLine | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.menuItemId !== "number" || typeof r.name !== "string") return null;
+  if (typeof r.unitPrice !== "number" || !Number.isFinite(r.unitPrice)) return null;
+  if (typeof r.quantity !== "number" || !Number.isInteger(r.quantity) || r.quantity < 1) return null;
+  return {
+    menuItemId: r.menuItemId,
+    name: r.name,
+    unitPrice: r.unitPrice,
+    quantity: r.quantity,
+    note: typeof r.note === "string" ? r.note : null,
+  };
+}
+
+export function parseOrder(raw: unknown): Order | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || typeof r.table !== "string") return null;
+  if (!isOrderStatus(r.status)) return null;
+  if (typeof r.createdAt !== "string" || !Array.isArray(r.lines)) return null;
+
+  const lines = r.lines.map(parseLine);
+  if (lines.some((l) => l === null)) return null;
+
+  return {
+    id: r.id,
+    table: r.table,
+    lines: lines as OrderLine[],
+    note: typeof r.note === "string" ? r.note : null,
+    total: typeof r.total === "number" ? r.total : orderTotal(lines as OrderLine[]),
+    status: r.status,
+    createdAt: r.createdAt,
+  };
+}
+
+export function createOrdersApi(scope: ApiScope = {}) {
+  return {
+    /**
+     * Fiyatları sunucu yazmış sipariş; misafirler /api/orders route'una gider (placeOrder).
+     * Upstream oluşturmayı anahtarsız kabul etmemeli, yoksa fiyat kontrolü atlanabilir.
+     */
+    async submit(input: OrderInput, adminKey: string): Promise<Order> {
+      const data = await request(buildUrl(scope, "/api/Orders"), {
+        method: "POST",
+        body: {
+          table: input.table,
+          note: input.note?.trim() || null,
+          lines: input.lines.map((l) => ({ ...l, note: l.note?.trim() || null })),
+          total: orderTotal(input.lines),
+        },
+        adminKey,
+      });
+      const order = parseOrder(data);
+      if (!order) throw new ApiError(200, "Sipariş yanıtı hatalı.", data);
+      return order;
+    },
+
+    async list(adminKey: string): Promise<Order[]> {
+      const data = await request(buildUrl(scope, "/api/Orders"), { adminKey, retries: 1 });
+      if (!Array.isArray(data)) throw new ApiError(200, "Sipariş yanıtı liste değil.", data);
+      const orders = data.map(parseOrder);
+      const dropped = orders.filter((o) => o === null).length;
+      if (dropped) console.warn(`[ordersApi] ${dropped} hatalı sipariş atlandı`);
+      return orders.filter((o): o is Order => o !== null);
+    },
+
+    async setStatus(id: number, status: OrderStatus, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Orders/${id}/status`), {
+        method: "PUT",
+        body: { status },
+        adminKey,
+      });
+    },
+  };
+}
+
+/** Misafir tarafı: fiyatı sunucuda hesaplayan, masa bazlı limitli Next route'una gider. */
+export async function placeOrder(venueSlug: string, input: OrderRequest): Promise<Order> {
+  let res: Response;
+  try {
+    res = await fetch("/api/orders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ venue: venueSlug, ...input }),
+    });
+  } catch (err) {
+    throw new ApiError(0, "Sunucuya ulaşılamadı.", err instanceof Error ? err.message : null);
+  }
+
+  const data = (await res.json().catch(() => null)) as { message?: string } | null;
+  if (!res.ok) {
+    throw new ApiError(res.status, data?.message || `İstek başarısız (HTTP ${res.status})`, data);
+  }
+  const order = parseOrder(data);
+  if (!order) throw new ApiError(200, "Sipariş yanıtı hatalı.", data);
+  return order;
+}
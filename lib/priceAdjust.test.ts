@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { adjustPrice, isPriceUpdate, roundPrice } from "@/lib/priceAdjust";
+
+describe("roundPrice", () => {
+  it("end9 sonu 9 ile biten en yakın fiyatı verir", () => {
+    expect(roundPrice(123, "end9")).toBe(119);
+    expect(roundPrice(125, "end9")).toBe(129);
+    expect(roundPrice(119, "end9")).toBe(119);
+    expect(roundPrice(129.4, "end9")).toBe(129);
+  });
+
+  it("end9 tam ortada yukarı yuvarlar", () => {
+    // 124 hem 119'a hem 129'a 5 uzak
+    expect(roundPrice(124, "end9")).toBe(129);
+  });
+
+  it("end9 9'un altına inmez", () => {
+    expect(roundPrice(3, "end9")).toBe(9);
+    expect(roundPrice(0.5, "end9")).toBe(9);
+  });
+
+  it("nearest5 ve nearest10 en yakın katı verir, ortada yukarı", () => {
+    expect(roundPrice(122.4, "nearest5")).toBe(120);
+    expect(roundPrice(122.5, "nearest5")).toBe(125);
+    expect(roundPrice(144.9, "nearest10")).toBe(140);
+    expect(roundPrice(145, "nearest10")).toBe(150);
+  });
+
+  it("none kuruşa yuvarlar", () => {
+    expect(roundPrice(99.994, "none")).toBe(99.99);
+    expect(roundPrice(110.00000000000001, "none")).toBe(110);
+  });
+});
+
+describe("adjustPrice", () => {
+  it("yüzde ve tutar değişikliğinden sonra yuvarlar", () => {
+    expect(adjustPrice(100, { mode: "percent", value: 10 }, "none")).toBe(110);
+    expect(adjustPrice(100, { mode: "percent", value: 10 }, "end9")).toBe(109);
+    expect(adjustPrice(100, { mode: "amount", value: -15 }, "nearest10")).toBe(90);
+  });
+
+  it("sıfırın altına düşen fiyat 0 olur; end9 onu 9'a çıkarmaz", () => {
+    expect(adjustPrice(20, { mode: "amount", value: -50 }, "end9")).toBe(0);
+    expect(adjustPrice(20, { mode: "percent", value: -100 }, "end9")).toBe(0);
+  });
+});
+
+describe("isPriceUpdate", () => {
+  it("pozitif tam sayı id ve negatif olmayan sonlu fiyat ister", () => {
+    expect(isPriceUpdate({ id: 1, price: 0 })).toBe(true);
+    expect(isPriceUpdate({ id: 0, price: 10 })).toBe(false);
+    expect(isPriceUpdate({ id: 1.5, price: 10 })).toBe(false);
+    expect(isPriceUpdate({ id: 1, price: -1 })).toBe(false);
+    expect(isPriceUpdate({ id: 1, price: Infinity })).toBe(false);
+  });
+});
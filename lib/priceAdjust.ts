@@ -0,0 +1,47 @@
+// Toplu fiyat güncellemesi: yüzde ya da tutar kadar artış/azalış, ardından yuvarlama.
+
+export type AdjustMode = "percent" | "amount";
+
+/** Negatif değer indirim demek. */
+export type PriceAdjustment = {
+  mode: AdjustMode;
+  value: number;
+};
+
+/** nearest5/10 en yakın katına, end9 sonu 9 ile biten en yakın fiyata yuvarlar (123 → 119, 125 → 129). */
+export const ROUNDING_RULES = ["none", "nearest5", "nearest10", "end9"] as const;
+
+export type RoundingRule = (typeof ROUNDING_RULES)[number];
+
+export function roundPrice(price: number, rule: RoundingRule) {
+  switch (rule) {
+    case "nearest5":
+      return Math.round(price / 5) * 5;
+    case "nearest10":
+      return Math.round(price / 10) * 10;
+    case "end9":
+      return Math.max(9, Math.round((price + 1) / 10) * 10 - 1);
+    default:
+      return Math.round(price * 100) / 100;
+  }
+}
+
+export function adjustPrice(price: number, { mode, value }: PriceAdjustment, rule: RoundingRule) {
+  const raw = mode === "percent" ? price * (1 + value / 100) : price + value;
+  return raw <= 0 ? 0 : roundPrice(raw, rule);
+}
+
+export type PriceUpdate = { id: number; price: number };
+
+export function isPriceUpdate(v: unknown): v is PriceUpdate {
+  if (!v || typeof v !== "object") return false;
+  const { id, price } = v as Record<string, unknown>;
+  if (!Number.isInteger(id) || (id as number) <= 0) return false;
+  return typeof price === "number" && Number.isFinite(price) && price >= 0;
+}
+
+export type BulkPriceResult = {
+  updated: number;
+  /** Upstream'de kaydedilemeyenler; diğerleri yine uygulanır. */
+  failed: { name: string; message: string }[];
+};
@@ -0,0 +1,100 @@
+import { ApiError, buildUrl, request, type ApiScope } from "@/lib/http";
+
+/** Fiyat nereden değişti: düzenleme formu, toplu güncelleme, dosyadan içe aktarma ya da ileri tarihli plan. */
+export const PRICE_CHANGE_SOURCES = ["edit", "bulk", "import", "schedule"] as const;
+
+export type PriceChangeSource = (typeof PRICE_CHANGE_SOURCES)[number];
+
+export type PriceChange = {
+  id: number;
+  menuItemId: number;
+  /** Ürün sonradan silinse de raporda adı görünsün diye kayıtla birlikte tutulur. */
+  itemName: string;
+  oldPrice: number;
+  newPrice: number;
+  changedAt: string;
+  source: PriceChangeSource;
+  changedBy: string | null;
+};
+
+export type PriceChangeInput = Omit<PriceChange, "id">;
+
+export type PriceHistoryQuery = {
+  menuItemId?: number;
+  /** ISO; dahil */
+  from?: string;
+  /** ISO; dahil */
+  to?: string;
+};
+
+function isSource(v: unknown): v is PriceChangeSource {
+  return PRICE_CHANGE_SOURCES.includes(v as PriceChangeSource);
+}
+
+export function parsePriceChange(raw: unknown): PriceChange | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || typeof r.menuItemId !== "number") return null;
+  if (typeof r.oldPrice !== "number" || typeof r.newPrice !== "number") return null;
+  if (typeof r.changedAt !== "string" || Number.isNaN(Date.parse(r.changedAt))) return null;
+  return {
+    id: r.id,
+    menuItemId: r.menuItemId,
+    itemName: typeof r.itemName === "string" ? r.itemName : `#${r.menuItemId}`,
+    oldPrice: r.oldPrice,
+    newPrice: r.newPrice,
+    changedAt: r.changedAt,
+    source: isSource(r.source) ? r.source : "edit",
+    changedBy: typeof r.changedBy === "string" ? r.changedBy : null,
+  };
+}
+
+/** Yeniden eskiye; sorgu upstream'de yoksayılsa bile aralık ve ürün burada da süzülür. */
+export function parsePriceHistory(data: unknown, query: PriceHistoryQuery = {}): PriceChange[] {
+  if (!Array.isArray(data)) throw new ApiError(200, "Fiyat geçmişi liste değil.", data);
+  const from = query.from ? Date.parse(query.from) : -Infinity;
+  const to = query.to ? Date.parse(query.to) : Infinity;
+  return data
+    .map(parsePriceChange)
+    .filter((c): c is PriceChange => c !== null)
+    .filter((c) => query.menuItemId === undefined || c.menuItemId === query.menuItemId)
+    .filter((c) => Date.parse(c.changedAt) >= from && Date.parse(c.changedAt) <= to)
+    .sort((a, b) => Date.parse(b.changedAt) - Date.parse(a.changedAt));
+}
+
+export function priceHistoryParams(query: PriceHistoryQuery): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.menuItemId !== undefined) params.menuItemId = String(query.menuItemId);
+  if (query.from) params.from = query.from;
+  if (query.to) params.to = query.to;
+  return params;
+}
+
+export function createPriceHistoryApi(scope: ApiScope = {}) {
+  return {
+    async list(query: PriceHistoryQuery, adminKey: string): Promise<PriceChange[]> {
+      const data = await request(buildUrl(scope, "/api/PriceHistory", priceHistoryParams(query)), { adminKey });
+      return parsePriceHistory(data, query);
+    },
+
+    async record(input: PriceChangeInput, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/PriceHistory"), { method: "POST", body: input, adminKey });
+    },
+  };
+}
+
+/**
+ * Fiyat değişikliklerini geçmişe yazar; eski ve yeni fiyatı aynı olanlar atlanır.
+ * Geçmiş yazılamazsa fiyat güncellemesi geri alınmaz, hata sadece loglanır.
+ */
+export async function recordPriceChanges(scope: ApiScope, changes: PriceChangeInput[], adminKey: string) {
+  const api = createPriceHistoryApi(scope);
+  for (const change of changes) {
+    if (change.oldPrice === change.newPrice) continue;
+    try {
+      await api.record(change, adminKey);
+    } catch (err) {
+      console.error("[priceHistory] kayıt yazılamadı", change, err);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { revalidateVenueMenu } from "@/lib/bff";
+import { createMenuApi } from "@/lib/menuApi";
+import { recordPriceChanges } from "@/lib/priceHistoryApi";
+import { createPriceSchedulesApi, isDue } from "@/lib/priceSchedulesApi";
+import type { Venue } from "@/lib/venues";
+
+export type ScheduleRun = {
+  applied: number;
+  /** Upstream hatası; plan beklemede kalır ve bir sonraki çalışmada tekrar denenir. */
+  failed: number;
+};
+
+/**
+ * Zamanı gelmiş fiyat planlarını tarih sırasıyla uygular. Tek çağıran /api/cron/price-schedules;
+ * uygulanan plan işaretlenir, sonraki çalışma onu tekrar uygulamaz.
+ */
+export async function applyDueSchedules(venue: Venue, adminKey: string, now = new Date()): Promise<ScheduleRun> {
+  const schedules = createPriceSchedulesApi(venue.api);
+  const due = (await schedules.listPending(adminKey)).filter((s) => isDue(s, now.getTime()));
+  if (due.length === 0) return { applied: 0, failed: 0 };
+
+  const menu = createMenuApi(venue.api);
+  const items = new Map((await menu.list()).map((x) => [x.id, x]));
+  const run: ScheduleRun = { applied: 0, failed: 0 };
+
+  for (const schedule of due) {
+    const item = items.get(schedule.menuItemId);
+    try {
+      // Ürün silindiyse plan uygulanmış sayılır, fiyat yazılacak bir şey yok
+      if (item && item.price !== schedule.price) {
+        await menu.update(item.id, { ...item, price: schedule.price }, item.sortOrder ?? 0, adminKey);
+        await recordPriceChanges(
+          venue.api,
+          [
+            {
+              menuItemId: item.id,
+              itemName: item.name,
+              oldPrice: item.price,
+              newPrice: schedule.price,
+              changedAt: now.toISOString(),
+              source: "schedule",
+              changedBy: schedule.createdBy,
+            },
+          ],
+          adminKey
+        );
+        items.set(item.id, { ...item, price: schedule.price });
+      }
+      await schedules.markApplied(schedule.id, now.toISOString(), adminKey);
+      run.applied++;
+    } catch (err) {
+      console.error("[priceScheduler] plan uygulanamadı", schedule, err);
+      run.failed++;
+    }
+  }
+
+  if (run.applied) revalidateVenueMenu(venue);
+  return run;
+}
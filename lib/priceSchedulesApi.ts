@@ -0,0 +1,67 @@
+import { ApiError, buildUrl, request, type ApiScope } from "@/lib/http";
+
+/** Bir ürünün ileri tarihli fiyatı; zamanı gelince lib/priceScheduler.ts uygular. */
+export type PriceSchedule = {
+  id: number;
+  menuItemId: number;
+  price: number;
+  effectiveAt: string;
+  createdBy: string | null;
+  /** Uygulanınca dolar; bekleyen planlarda null. */
+  appliedAt: string | null;
+};
+
+export type PriceScheduleInput = Omit<PriceSchedule, "id" | "appliedAt">;
+
+export function parsePriceSchedule(raw: unknown): PriceSchedule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || typeof r.menuItemId !== "number") return null;
+  if (typeof r.price !== "number" || !Number.isFinite(r.price) || r.price < 0) return null;
+  if (typeof r.effectiveAt !== "string" || Number.isNaN(Date.parse(r.effectiveAt))) return null;
+  return {
+    id: r.id,
+    menuItemId: r.menuItemId,
+    price: r.price,
+    effectiveAt: r.effectiveAt,
+    createdBy: typeof r.createdBy === "string" ? r.createdBy : null,
+    appliedAt: typeof r.appliedAt === "string" ? r.appliedAt : null,
+  };
+}
+
+/** Bekleyen planlar, en yakın tarih önce. */
+export function parsePendingSchedules(data: unknown): PriceSchedule[] {
+  if (!Array.isArray(data)) throw new ApiError(200, "Fiyat planları liste değil.", data);
+  return data
+    .map(parsePriceSchedule)
+    .filter((s): s is PriceSchedule => s !== null && !s.appliedAt)
+    .sort((a, b) => Date.parse(a.effectiveAt) - Date.parse(b.effectiveAt));
+}
+
+export function isDue(schedule: PriceSchedule, now = Date.now()) {
+  return !schedule.appliedAt && Date.parse(schedule.effectiveAt) <= now;
+}
+
+export function createPriceSchedulesApi(scope: ApiScope = {}) {
+  return {
+    async listPending(adminKey: string): Promise<PriceSchedule[]> {
+      return parsePendingSchedules(await request(buildUrl(scope, "/api/PriceSchedules"), { adminKey }));
+    },
+
+    async create(input: PriceScheduleInput, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/PriceSchedules"), { method: "POST", body: input, adminKey });
+    },
+
+    async markApplied(id: number, appliedAt: string, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/PriceSchedules/${id}/applied`), {
+        method: "PUT",
+        body: { appliedAt },
+        adminKey,
+      });
+    },
+
+    async delete(id: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/PriceSchedules/${id}`), { method: "DELETE", adminKey });
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { VenueClock } from "@/lib/availability";
+import { bestPromotion, discountedPrice, type Promotion } from "@/lib/promotionsApi";
+
+const NOW = Date.parse("2026-06-05T15:00:00Z");
+// Cuma 18:00 (İstanbul)
+const friday: VenueClock = { at: NOW, day: 5, minutes: 18 * 60 };
+
+const promo = (overrides: Partial<Promotion>): Promotion => ({
+  id: 1,
+  name: "Kampanya",
+  itemIds: [],
+  categories: ["İçecekler"],
+  discountType: "percent",
+  value: 10,
+  startsAt: "2026-06-01T00:00:00Z",
+  endsAt: "2026-07-01T00:00:00Z",
+  hours: [],
+  ...overrides,
+});
+
+const beer = { id: 7, category: "İçecekler", price: 120 };
+
+describe("discountedPrice", () => {
+  it("yüzde indirimi kuruşa yuvarlar", () => {
+    expect(discountedPrice(120, { discountType: "percent", value: 15 })).toBe(102);
+    expect(discountedPrice(99.99, { discountType: "percent", value: 33 })).toBe(66.99);
+  });
+
+  it("tutar indirimi sıfırın altına inmez", () => {
+    expect(discountedPrice(120, { discountType: "amount", value: 20 })).toBe(100);
+    expect(discountedPrice(120, { discountType: "amount", value: 500 })).toBe(0);
+  });
+
+  it("fixedPrice fiyatı değerle değiştirir", () => {
+    expect(discountedPrice(120, { discountType: "fixedPrice", value: 89 })).toBe(89);
+  });
+});
+
+describe("bestPromotion", () => {
+  it("çakışan kampanyalardan en ucuz fiyatı vereni seçer", () => {
+    const percent = promo({ id: 1, value: 10 });
+    const fixed = promo({ id: 2, discountType: "fixedPrice", value: 90 });
+    const amount = promo({ id: 3, discountType: "amount", value: 20 });
+    const best = bestPromotion(beer, [percent, fixed, amount], friday);
+    expect(best?.promotion.id).toBe(2);
+    expect(best?.price).toBe(90);
+  });
+
+  it("eşit fiyatta önce gelen kalır", () => {
+    const a = promo({ id: 1, discountType: "amount", value: 20 });
+    const b = promo({ id: 2, discountType: "fixedPrice", value: 100 });
+    expect(bestPromotion(beer, [a, b], friday)?.promotion.id).toBe(1);
+  });
+
+  it("fiyatı düşürmeyen kampanyayı yok sayar", () => {
+    const higher = promo({ discountType: "fixedPrice", value: 150 });
+    const same = promo({ id: 2, discountType: "fixedPrice", value: 120 });
+    expect(bestPromotion(beer, [higher, same], friday)).toBeNull();
+  });
+
+  it("tarih aralığı dışındaki kampanyayı yok sayar; bitiş hariç", () => {
+    const ended = promo({ endsAt: new Date(NOW).toISOString() });
+    const upcoming = promo({ id: 2, startsAt: "2026-06-06T00:00:00Z" });
+    expect(bestPromotion(beer, [ended, upcoming], friday)).toBeNull();
+  });
+
+  it("happy hour saatleri dışında uygulanmaz", () => {
+    const happyHour = promo({ hours: [{ days: [5], start: "17:00", end: "19:00" }] });
+    expect(bestPromotion(beer, [happyHour], friday)?.price).toBe(108);
+    expect(bestPromotion(beer, [happyHour], { ...friday, minutes: 19 * 60 })).toBeNull();
+    expect(bestPromotion(beer, [happyHour], { ...friday, day: 4 })).toBeNull();
+  });
+
+  it("ürün id'si ya da boşlukları kırpılmış kategori adıyla eşleşir", () => {
+    const byId = promo({ itemIds: [7], categories: [] });
+    expect(bestPromotion({ ...beer, category: "Tatlılar" }, [byId], friday)?.price).toBe(108);
+    expect(bestPromotion({ ...beer, category: " İçecekler " }, [promo({})], friday)?.price).toBe(108);
+    expect(bestPromotion({ ...beer, category: "içecekler" }, [promo({})], friday)).toBeNull();
+  });
+
+  it("saat bilinmiyorsa kampanya uygulanmaz", () => {
+    expect(bestPromotion(beer, [promo({})], null)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+// Süreli indirimler (kampanya, happy hour). Fiyatın kendisi değişmez; misafir menüsü o an geçerli
+// kampanyaya göre indirimli fiyatı gösterir. Siparişteki fiyatı sunucu mekan saatiyle yeniden
+// hesaplar (lib/orderPricing.ts); tarayıcının saatine ve sepetteki fiyata güvenilmez.
+
+import { isOpenAt, parseAvailability, type AvailabilityWindow, type VenueClock } from "@/lib/availability";
+import { ApiError, buildUrl, request, type ApiScope, type RequestOptions } from "@/lib/http";
+import type { MenuItem } from "@/lib/menuApi";
+import type { Venue } from "@/lib/venues";
+
+/** percent: yüzde indirim • amount: fiyattan düşülen tutar • fixedPrice: kampanya fiyatı */
+export const DISCOUNT_TYPES = ["percent", "amount", "fixedPrice"] as const;
+
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+export type Promotion = {
+  id: number;
+  name: string;
+  /** Kapsam: seçili ürünler ve/veya kategoriler (Türkçe adla); biri dolu olmalı. */
+  itemIds: number[];
+  categories: string[];
+  discountType: DiscountType;
+  value: number;
+  /** ISO; startsAt dahil, endsAt hariç. */
+  startsAt: string;
+  endsAt: string;
+  /** Boşsa tarih aralığı boyunca gün boyu; doluysa sadece bu saatlerde (happy hour). */
+  hours: AvailabilityWindow[];
+};
+
+export type PromotionInput = Omit<Promotion, "id">;
+
+export type PromotionStatus = "upcoming" | "active" | "ended";
+
+function isDiscountType(v: unknown): v is DiscountType {
+  return DISCOUNT_TYPES.includes(v as DiscountType);
+}
+
+function isDate(v: unknown): v is string {
+  return typeof v === "string" && !Number.isNaN(Date.parse(v));
+}
+
+function parseScope(raw: Record<string, unknown>) {
+  const itemIds = Array.isArray(raw.itemIds)
+    ? [...new Set(raw.itemIds.filter((id): id is number => Number.isInteger(id) && (id as number) > 0))]
+    : [];
+  const categories = Array.isArray(raw.categories)
+    ? [...new Set(raw.categories.filter((c): c is string => typeof c === "string" && !!c.trim()).map((c) => c.trim()))]
+    : [];
+  return { itemIds, categories };
+}
+
+function valueProblem(discountType: DiscountType, value: unknown) {
+  if (typeof value !== "number" || !Number.isFinite(value)) return "değer sayı değil";
+  if (discountType === "fixedPrice") return value < 0 ? "kampanya fiyatı negatif olamaz" : null;
+  if (value <= 0) return "indirim sıfırdan büyük olmalı";
+  if (discountType === "percent" && value > 100) return "yüzde 100'ü geçemez";
+  return null;
+}
+
+export function parsePromotion(raw: unknown): Promotion | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || typeof r.name !== "string" || !r.name.trim()) return null;
+  if (!isDiscountType(r.discountType) || valueProblem(r.discountType, r.value)) return null;
+  if (!isDate(r.startsAt) || !isDate(r.endsAt)) return null;
+
+  const { itemIds, categories } = parseScope(r);
+  if (!itemIds.length && !categories.length) return null;
+  return {
+    id: r.id,
+    name: r.name,
+    itemIds,
+    categories,
+    discountType: r.discountType,
+    value: r.value as number,
+    startsAt: r.startsAt,
+    endsAt: r.endsAt,
+    hours: parseAvailability(r.hours),
+  };
+}
+
+/** Admin route'larına gelen gövde için. */
+export function parsePromotionInput(
+  raw: unknown
+): { ok: true; input: PromotionInput } | { ok: false; reason: string } {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (typeof r.name !== "string" || !r.name.trim()) return { ok: false, reason: "ad eksik" };
+  if (!isDiscountType(r.discountType)) return { ok: false, reason: "indirim türü geçersiz" };
+  const problem = valueProblem(r.discountType, r.value);
+  if (problem) return { ok: false, reason: problem };
+  if (!isDate(r.startsAt) || !isDate(r.endsAt)) return { ok: false, reason: "tarih geçersiz" };
+  if (Date.parse(r.endsAt) <= Date.parse(r.startsAt)) return { ok: false, reason: "bitiş başlangıçtan sonra olmalı" };
+
+  const { itemIds, categories } = parseScope(r);
+  if (!itemIds.length && !categories.length) return { ok: false, reason: "ürün ya da kategori seçilmedi" };
+  return {
+    ok: true,
+    input: {
+      name: r.name.trim(),
+      itemIds,
+      categories,
+      discountType: r.discountType,
+      value: r.value as number,
+      startsAt: new Date(r.startsAt).toISOString(),
+      endsAt: new Date(r.endsAt).toISOString(),
+      hours: parseAvailability(r.hours),
+    },
+  };
+}
+
+/** Başlangıcı en yakın olan önce. */
+export function parsePromotionList(data: unknown): Promotion[] {
+  if (!Array.isArray(data)) throw new ApiError(200, "Kampanya yanıtı liste değil.", data);
+  return data
+    .map(parsePromotion)
+    .filter((p): p is Promotion => p !== null)
+    .sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt));
+}
+
+/** Sadece tarih aralığına bakar; günlük saatler isLive'da. */
+export function promotionStatus(promo: Promotion, at = Date.now()): PromotionStatus {
+  if (at < Date.parse(promo.startsAt)) return "upcoming";
+  if (at >= Date.parse(promo.endsAt)) return "ended";
+  return "active";
+}
+
+export function isLive(promo: Promotion, clock: VenueClock) {
+  return promotionStatus(promo, clock.at) === "active" && isOpenAt(promo.hours, clock);
+}
+
+export function appliesTo(promo: Pick<Promotion, "itemIds" | "categories">, item: Pick<MenuItem, "id" | "category">) {
+  return promo.itemIds.includes(item.id) || promo.categories.includes(item.category.trim());
+}
+
+/** Taban fiyata uygulanır, kuruşa yuvarlanır; seçenek farkları indirimsiz eklenir. */
+export function discountedPrice(price: number, promo: Pick<Promotion, "discountType" | "value">) {
+  const raw =
+    promo.discountType === "percent"
+      ? price * (1 - promo.value / 100)
+      : promo.discountType === "amount"
+        ? price - promo.value
+        : promo.value;
+  return Math.max(0, Math.round(raw * 100) / 100);
+}
+
+export type AppliedPromotion = { promotion: Promotion; price: number };
+
+/**
+ * Ürüne o an uygulanan kampanya; birden fazlası çakışırsa en ucuz fiyatı veren kazanır.
+ * Fiyatı düşürmeyen kampanya (ör. fiyattan yüksek fixedPrice) yok sayılır. clock null ise yok.
+ */
+export function bestPromotion(
+  item: Pick<MenuItem, "id" | "category" | "price">,
+  promotions: Promotion[],
+  clock: VenueClock | null
+): AppliedPromotion | null {
+  if (!clock) return null;
+  let best: AppliedPromotion | null = null;
+  for (const promotion of promotions) {
+    if (!appliesTo(promotion, item) || !isLive(promotion, clock)) continue;
+    const price = discountedPrice(item.price, promotion);
+    if (price < item.price && (!best || price < best.price)) best = { promotion, price };
+  }
+  return best;
+}
+
+function toPayload(input: PromotionInput) {
+  return {
+    name: input.name.trim(),
+    itemIds: input.itemIds,
+    categories: input.categories,
+    discountType: input.discountType,
+    value: input.value,
+    startsAt: input.startsAt,
+    endsAt: input.endsAt,
+    hours: parseAvailability(input.hours),
+  };
+}
+
+export function createPromotionsApi(scope: ApiScope = {}) {
+  return {
+    async list(options: Pick<RequestOptions, "retries" | "next"> = {}): Promise<Promotion[]> {
+      return parsePromotionList(await request(buildUrl(scope, "/api/Promotions"), options));
+    },
+
+    async create(input: PromotionInput, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/Promotions"), { method: "POST", body: toPayload(input), adminKey });
+    },
+
+    async update(id: number, input: PromotionInput, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Promotions/${id}`), {
+        method: "PUT",
+        body: { id, ...toPayload(input) },
+        adminKey,
+      });
+    },
+
+    async delete(id: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Promotions/${id}`), { method: "DELETE", adminKey });
+    },
+  };
+}
+
+/**
+ * Misafir menüsü sayfası için: kampanyalar alınamazsa menü normal fiyatlarla açılır.
+ * Sipariş fiyatlanırken kullanılmaz; orada hata yutulursa misafir indirimsiz ücretlendirilir.
+ */
+export async function loadVenuePromotions(
+  venue: Venue,
+  options: Pick<RequestOptions, "retries" | "next"> = {}
+): Promise<Promotion[]> {
+  return createPromotionsApi(venue.api)
+    .list(options)
+    .catch(() => []);
+}
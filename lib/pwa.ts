@@ -0,0 +1,61 @@
+import type { Metadata, MetadataRoute } from "next";
+import { venueMenuPath, type Venue } from "@/lib/venues";
+
+// Her mekan ana ekrana kendi adı ve ikonuyla eklenir.
+
+export const PWA_ICON_SIZES = [192, 512] as const;
+
+export const THEME_COLOR = "#E6B566";
+export const BACKGROUND_COLOR = "#FAF7F2";
+
+/** İkondaki yazı: kısa ilk kelime ("101 CLUP" → "101") ya da ilk iki kelimenin baş harfleri. */
+export function venueMonogram(venue: Pick<Venue, "name">) {
+  const words = venue.name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "QR";
+  if (words[0].length <= 3) return words[0].toLocaleUpperCase("tr");
+  return words
+    .slice(0, 2)
+    .map((w) => [...w][0])
+    .join("")
+    .toLocaleUpperCase("tr");
+}
+
+export function venueIconPath(slug: string, size: (typeof PWA_ICON_SIZES)[number]) {
+  return `/pwa-icon/${slug}/${size}`;
+}
+
+export function venueManifestPath(slug: string) {
+  return `/manifest/${slug}`;
+}
+
+export function venueManifest(venue: Venue): MetadataRoute.Manifest {
+  const start = venueMenuPath(venue.slug);
+  return {
+    // Aynı origin'de birden çok mekan; her biri ayrı uygulama olarak kurulsun
+    id: start,
+    name: `${venue.name} Menü`,
+    short_name: venue.name,
+    description: venue.tagline,
+    start_url: start,
+    display: "standalone",
+    background_color: BACKGROUND_COLOR,
+    theme_color: THEME_COLOR,
+    lang: "tr",
+    icons: [
+      { src: venueIconPath(venue.slug, 192), sizes: "192x192", type: "image/png" },
+      { src: venueIconPath(venue.slug, 512), sizes: "512x512", type: "image/png" },
+      { src: venueIconPath(venue.slug, 512), sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
+
+/** Sayfa başlığı, manifest ve iOS ana ekran ayarları. */
+export function venueMetadata(venue: Venue): Metadata {
+  return {
+    title: `${venue.name} Menü`,
+    description: venue.tagline,
+    manifest: venueManifestPath(venue.slug),
+    appleWebApp: { capable: true, title: venue.name, statusBarStyle: "default" },
+    icons: { apple: venueIconPath(venue.slug, 192) },
+  };
+}
@@ -0,0 +1,36 @@
+type Bucket = { count: number; resetAt: number };
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterMs: number };
+
+/**
+ * Basit sabit pencereli limit. Bellekte tutulur, yani instance başına; tek instance'lı
+ * deploy için yeterli, yatayda ölçeklenirse paylaşılan bir store gerekir.
+ */
+export function createRateLimiter({ windowMs, max }: { windowMs: number; max: number }) {
+  const buckets = new Map<string, Bucket>();
+
+  function sweep(now: number) {
+    if (buckets.size < 1000) return;
+    for (const [key, b] of buckets) if (b.resetAt <= now) buckets.delete(key);
+  }
+
+  return {
+    check(key: string): RateLimitResult {
+      const now = Date.now();
+      sweep(now);
+
+      const b = buckets.get(key);
+      if (!b || b.resetAt <= now) {
+        buckets.set(key, { count: 1, resetAt: now + windowMs });
+        return { ok: true };
+      }
+      if (b.count >= max) return { ok: false, retryAfterMs: b.resetAt - now };
+      b.count++;
+      return { ok: true };
+    },
+
+    reset(key: string) {
+      buckets.delete(key);
+    },
+  };
+}
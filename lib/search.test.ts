@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { foldText, highlightRanges, searchItems, searchTokens, suggestAlternatives } from "@/lib/search";
+
+describe("foldText", () => {
+  it("Türkçe büyük/küçük harfleri aynı anahtara indirger", () => {
+    expect(foldText("İçecek")).toBe("icecek");
+    expect(foldText("ICECEK")).toBe("icecek");
+    expect(foldText("içecek")).toBe("icecek");
+    expect(foldText("ılık")).toBe("ilik");
+    expect(foldText("IŞIK")).toBe("isik");
+  });
+
+  it("ş, ğ, ç, ö, ü ve diğer aksanları sadeleştirir", () => {
+    expect(foldText("Şöğüş Çorbası")).toBe("sogus corbasi");
+    expect(foldText("Crème brûlée")).toBe("creme brulee");
+  });
+
+  it("noktalamayı boşluğa çevirir, kırpar ve boşlukları teke indirir", () => {
+    expect(foldText("  Köfte, (200 gr.)  ")).toBe("kofte 200 gr");
+    expect(foldText(null)).toBe("");
+  });
+});
+
+describe("searchTokens", () => {
+  it("kelimeleri sadeleştirir, tekrarları bir kez sayar", () => {
+    expect(searchTokens("Çay çay  KAHVE")).toEqual(["cay", "kahve"]);
+  });
+});
+
+describe("searchItems", () => {
+  const items = [
+    { name: "Karışık Izgara", category: "Ana Yemekler", description: "Köfte, pirzola ve tavuk" },
+    { name: "Tavuk Şiş", category: "Ana Yemekler", description: null },
+    { name: "Hamburger", category: "Burgerler", description: "Dana köfte, cheddar" },
+    { name: "Tavukgöğsü", category: "Tatlılar", description: null },
+  ];
+  const names = (query: string) =>
+    searchItems(items, query, (x) => ({ name: x.name, categories: [x.category], description: x.description })).map(
+      (x) => x.name
+    );
+
+  it("tam kelime > kelime başı > açıklama sırasıyla dizer", () => {
+    expect(names("tavuk")).toEqual(["Tavuk Şiş", "Tavukgöğsü", "Karışık Izgara"]);
+  });
+
+  it("büyük İ/I ile yazılmış aramayı bulur", () => {
+    expect(names("IZGARA")).toEqual(["Karışık Izgara"]);
+    expect(names("KARIŞIK")).toEqual(["Karışık Izgara"]);
+    expect(names("karisik")).toEqual(["Karışık Izgara"]);
+  });
+
+  it("yazım hatasını ve yarım yazılmış kelimeyi tolere eder", () => {
+    expect(names("hambrg")).toEqual(["Hamburger"]);
+    expect(names("hamburegr")).toEqual(["Hamburger"]);
+  });
+
+  it("kısa kelimelerde hata payı yok", () => {
+    expect(names("sis")).toEqual(["Tavuk Şiş"]);
+    expect(names("sos")).toEqual([]);
+  });
+
+  it("kelimelerin hepsi eşleşmeli", () => {
+    expect(names("cheddar köfte")).toEqual(["Hamburger"]);
+    expect(names("tavuk burger")).toEqual([]);
+  });
+
+  it("boş aramada liste aynen döner", () => {
+    expect(names("  ")).toEqual(items.map((x) => x.name));
+  });
+});
+
+describe("highlightRanges", () => {
+  it("asıl metindeki aralıkları verir", () => {
+    expect(highlightRanges("Karışık Izgara", "izgara")).toEqual([[8, 14]]);
+    expect(highlightRanges("Tavuk Şiş", "siş tav")).toEqual([
+      [0, 3],
+      [6, 9],
+    ]);
+  });
+
+  it("ayrık yazılmış aksanı harfiyle birlikte vurgular", () => {
+    expect(highlightRanges("C\u0327ay", "cay")).toEqual([[0, 4]]);
+  });
+
+  it("çakışan aralıkları birleştirir", () => {
+    expect(highlightRanges("Hamburger", "ham hamburger")).toEqual([[0, 9]]);
+  });
+});
+
+describe("suggestAlternatives", () => {
+  const candidates = ["Hamburger", "Cheeseburger", "Ayran", "Ana Yemekler"];
+
+  it("en çok benzeyen adları önerir", () => {
+    expect(suggestAlternatives("hamburgr", candidates)).toEqual(["Hamburger"]);
+    expect(suggestAlternatives("aryan", candidates)).toEqual(["Ayran"]);
+    expect(suggestAlternatives("yemekelr", candidates)).toEqual(["Ana Yemekler"]);
+  });
+
+  it("kısa ya da çok uzak aramada öneri yok", () => {
+    expect(suggestAlternatives("ay", candidates)).toEqual([]);
+    expect(suggestAlternatives("lahmacun", candidates)).toEqual([]);
+  });
+});
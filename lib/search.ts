@@ -0,0 +1,209 @@
+// Menü araması; admin listesi ve misafir menüsü aynı kuralları kullanır.
+// Metin Türkçe kurallarıyla küçültülür ("I" → "ı", "İ" → "i"), sonra ı/ş/ğ/ç/ö/ü ve diğer aksanlı
+// harfler sadeleştirilir: "ICECEK", "içecek" ve "İçecek" aynı şeydir. Harf/rakam dışı her şey boşluk.
+
+/** Aranan alanlar; ağırlık sırası ad > kategori > açıklama/etiket. */
+export type SearchFields = {
+  name: string;
+  /** Kategori adı ve varsa misafirin dilindeki karşılığı */
+  categories?: string[];
+  description?: string | null;
+  /** Diyet etiketlerinin görünen adları */
+  tags?: string[];
+};
+
+const WEIGHTS = { name: 3, categories: 2, description: 1, tags: 1 } as const;
+
+// Tam kelime > kelime başı > kelime içi > yazım hatası
+const EXACT = 1;
+const PREFIX = 0.9;
+const INFIX = 0.7;
+const FUZZY = [0, 0.5, 0.35];
+
+type Folded = {
+  text: string;
+  /** Sadeleşmiş metindeki her karakterin asıl metinde kapladığı [başlangıç, bitiş) */
+  spans: [number, number][];
+};
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+function foldChar(ch: string) {
+  return ch
+    .toLocaleLowerCase("tr")
+    .replace(/ı/g, "i")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "");
+}
+
+function fold(s: string): Folded {
+  let text = "";
+  const spans: [number, number][] = [];
+  let i = 0;
+  for (const ch of s) {
+    const end = i + ch.length;
+    const folded = foldChar(ch);
+    // Ayrık yazılmış aksan önceki harfe aittir; vurgu onu da kapsasın
+    if (!folded && spans.length > 0) spans[spans.length - 1][1] = end;
+    for (const f of folded) {
+      const out = WORD_CHAR.test(f) ? f : " ";
+      text += out;
+      for (let k = 0; k < out.length; k++) spans.push([i, end]);
+    }
+    i = end;
+  }
+  return { text, spans };
+}
+
+/** Arama karşılaştırma anahtarı: sadeleşmiş, kırpılmış, tek boşluklu. Kategoriler birebir (trim) eşleşir. */
+export function foldText(s: string | null | undefined) {
+  return fold(s ?? "").text.trim().replace(/\s+/g, " ");
+}
+
+/** Aramanın kelimeleri; tekrarlar bir kez sayılır. */
+export function searchTokens(query: string) {
+  return [...new Set(foldText(query).split(" ").filter(Boolean))];
+}
+
+/** Kısa kelimelerde hata payı yok; 4-7 harfte bir, daha uzunlarda iki harf. */
+function maxEdits(length: number) {
+  return length < 4 ? 0 : length < 8 ? 1 : 2;
+}
+
+/** Harf ekleme/silme/değiştirme ve yan yana iki harfin yer değiştirmesi; limit aşılınca limit + 1. */
+function editDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      row.push(d);
+      best = Math.min(best, d);
+    }
+    if (best > limit) return limit + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+type WordMatch = { score: number; start: number; end: number };
+
+function words(text: string) {
+  return [...text.matchAll(/\S+/g)].map((m) => ({ word: m[0], start: m.index }));
+}
+
+/** Kelimenin metindeki eşleşmeleri (sadeleşmiş metinde konumlarıyla). */
+function matchToken(token: string, text: string): WordMatch[] {
+  const out: WordMatch[] = [];
+  const edits = maxEdits(token.length);
+  for (const { word, start } of words(text)) {
+    const at = word.indexOf(token);
+    if (at >= 0) {
+      const score = at > 0 ? INFIX : word.length === token.length ? EXACT : PREFIX;
+      out.push({ score, start: start + at, end: start + at + token.length });
+      continue;
+    }
+    if (!edits) continue;
+    // Yazılmakta olan kelime ("hambrg") için kelimenin başıyla da karşılaştırılır; eksik/fazla harf
+    // payı kadar kısa ya da uzun başlar da denenir ("hambrg" ~ "hamburg")
+    let d = editDistance(token, word, edits);
+    for (let len = token.length - edits; len <= token.length + edits && d > 0; len++) {
+      d = Math.min(d, editDistance(token, word.slice(0, len), edits));
+    }
+    if (d <= edits) out.push({ score: FUZZY[d], start, end: start + word.length });
+  }
+  return out;
+}
+
+function fieldTexts(fields: SearchFields): [number, string][] {
+  return [
+    [WEIGHTS.name, fields.name],
+    ...(fields.categories ?? []).map((c): [number, string] => [WEIGHTS.categories, c]),
+    [WEIGHTS.description, fields.description ?? ""],
+    ...(fields.tags ?? []).map((t): [number, string] => [WEIGHTS.tags, t]),
+  ];
+}
+
+/** Kelimelerin hepsi bir alanda bulunmalı; 0 eşleşme yok demek, büyüğü daha iyi. */
+export function searchScore(fields: SearchFields, tokens: string[]) {
+  const texts = fieldTexts(fields).map(([weight, text]) => [weight, foldText(text)] as const);
+  let total = 0;
+  for (const token of tokens) {
+    let best = 0;
+    for (const [weight, text] of texts) {
+      for (const m of matchToken(token, text)) best = Math.max(best, weight * m.score);
+    }
+    if (!best) return 0;
+    total += best;
+  }
+  return total;
+}
+
+/** Eşleşenleri puana göre dizer; eşit puanlılar gelen sırayı korur. Boş aramada liste aynen döner. */
+export function searchItems<T>(items: T[], query: string, fieldsOf: (item: T) => SearchFields): T[] {
+  const tokens = searchTokens(query);
+  if (tokens.length === 0) return items;
+  return items
+    .map((item, index) => ({ item, index, score: searchScore(fieldsOf(item), tokens) }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((x) => x.item);
+}
+
+/** Aramanın metinde vurgulanacak kısımları: asıl metindeki [başlangıç, bitiş) aralıkları, sıralı. */
+export function highlightRanges(text: string, query: string): [number, number][] {
+  const tokens = searchTokens(query);
+  if (!text || tokens.length === 0) return [];
+  const { text: folded, spans } = fold(text);
+
+  const ranges = tokens
+    .flatMap((token) => matchToken(token, folded))
+    .map((m): [number, number] => [spans[m.start][0], spans[m.end - 1][1]])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([...r]);
+  }
+  return merged;
+}
+
+/**
+ * Sonuç yokken önerilecek adlar: aramaya en çok benzeyen ürün/kategori adları. Yazım hatası payı
+ * aramadakinden geniştir (kelimenin üçte biri); çok uzak adlar önerilmez.
+ */
+export function suggestAlternatives(query: string, candidates: string[], limit = 3) {
+  const q = foldText(query);
+  if (q.length < 3) return [];
+
+  const seen = new Set<string>();
+  const scored: { name: string; distance: number }[] = [];
+  for (const name of candidates) {
+    const key = foldText(name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const limitFor = (s: string) => Math.max(1, Math.floor(Math.max(q.length, s.length) / 3));
+    const distance = Math.min(
+      ...[key, ...key.split(" ")].map((s) => {
+        const max = limitFor(s);
+        const d = editDistance(q, s, max);
+        return d <= max ? d / Math.max(q.length, s.length) : Infinity;
+      })
+    );
+    if (distance < Infinity) scored.push({ name, distance });
+  }
+
+  return scored
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name, "tr"))
+    .slice(0, limit)
+    .map((x) => x.name);
+}
@@ -0,0 +1,80 @@
+import { ApiError, buildUrl, request, type ApiScope } from "@/lib/http";
+
+export type ServiceRequestKind = "waiter" | "bill";
+
+export function isServiceRequestKind(v: unknown): v is ServiceRequestKind {
+  return v === "waiter" || v === "bill";
+}
+
+export type ServiceRequest = {
+  id: number;
+  table: string;
+  kind: ServiceRequestKind;
+  createdAt: string;
+  acknowledgedAt?: string | null;
+};
+
+export function parseServiceRequest(raw: unknown): ServiceRequest | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || typeof r.table !== "string") return null;
+  if (!isServiceRequestKind(r.kind) || typeof r.createdAt !== "string") return null;
+  return {
+    id: r.id,
+    table: r.table,
+    kind: r.kind,
+    createdAt: r.createdAt,
+    acknowledgedAt: typeof r.acknowledgedAt === "string" ? r.acknowledgedAt : null,
+  };
+}
+
+/** Upstream API istemcisi; misafirler bunu değil /api/service-requests route'unu kullanır. */
+export function createServiceRequestsApi(scope: ApiScope = {}) {
+  return {
+    /** Upstream bunu da anahtarla kabul etmeli; yoksa masa başına sınır doğrudan çağrıyla aşılır. */
+    async create(table: string, kind: ServiceRequestKind, adminKey: string): Promise<ServiceRequest> {
+      const data = await request(buildUrl(scope, "/api/ServiceRequests"), {
+        method: "POST",
+        body: { table, kind },
+        adminKey,
+      });
+      const parsed = parseServiceRequest(data);
+      if (!parsed) throw new ApiError(200, "Servis çağrısı yanıtı hatalı.", data);
+      return parsed;
+    },
+
+    async listOpen(adminKey: string): Promise<ServiceRequest[]> {
+      const data = await request(buildUrl(scope, "/api/ServiceRequests"), { adminKey, retries: 0 });
+      if (!Array.isArray(data)) throw new ApiError(200, "Servis çağrıları liste değil.", data);
+      return data
+        .map(parseServiceRequest)
+        .filter((r): r is ServiceRequest => r !== null && !r.acknowledgedAt);
+    },
+
+    async acknowledge(id: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/ServiceRequests/${id}/acknowledge`), {
+        method: "PUT",
+        adminKey,
+      });
+    },
+  };
+}
+
+/** Misafir tarafı: masa bazlı limitli Next route'una gider. */
+export async function callStaff(venueSlug: string, table: string, kind: ServiceRequestKind) {
+  let res: Response;
+  try {
+    res = await fetch("/api/service-requests", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ venue: venueSlug, table, kind }),
+    });
+  } catch (err) {
+    throw new ApiError(0, "Sunucuya ulaşılamadı.", err instanceof Error ? err.message : null);
+  }
+
+  const data = (await res.json().catch(() => null)) as { message?: string } | null;
+  if (!res.ok) {
+    throw new ApiError(res.status, data?.message || `İstek başarısız (HTTP ${res.status})`, data);
+  }
+}
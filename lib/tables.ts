@@ -0,0 +1,35 @@
+import { venueMenuPath } from "@/lib/venues";
+
+const TABLE_PARAM = "table";
+const VALID_TABLE = /^[\p{L}\p{N}_-]{1,12}$/u;
+
+export function isValidTableNumber(v: string) {
+  return VALID_TABLE.test(v);
+}
+
+/** URL'den gelen masa değerini doğrular; geçersizse null. */
+export function parseTableParam(search: string): string | null {
+  const v = new URLSearchParams(search).get(TABLE_PARAM)?.trim() ?? "";
+  return isValidTableNumber(v) ? v : null;
+}
+
+export function tableMenuUrl(origin: string, venueSlug: string, table: string) {
+  const url = new URL(venueMenuPath(venueSlug), origin);
+  url.searchParams.set(TABLE_PARAM, table);
+  return url.toString();
+}
+
+/** "1-12, 15, Bahçe1" gibi girdiyi masa numaralarına açar. */
+export function expandTableInput(input: string): string[] {
+  const out: string[] = [];
+  for (const part of input.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const range = /^(\d+)\s*-\s*(\d+)$/.exec(part);
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b);
+      for (let n = from; n <= to && n - from < 200; n++) out.push(String(n));
+    } else if (isValidTableNumber(part)) {
+      out.push(part);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,76 @@
+import { ApiError, buildUrl, request, type ApiScope } from "@/lib/http";
+import { expandTableInput, isValidTableNumber } from "@/lib/tables";
+
+/** Mekanın masası; QR kodları bu listeden üretilir. */
+export type Table = {
+  id: number;
+  /** QR'daki ?table= değeri; misafir menüsünde "Masa 12" olarak görünür. */
+  number: string;
+  zone: string | null;
+};
+
+export type TableInput = Omit<Table, "id">;
+
+const MAX_ZONE_LENGTH = 40;
+
+function parseZone(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim().slice(0, MAX_ZONE_LENGTH) : null;
+}
+
+export function parseTable(raw: unknown): Table | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== "number" || !Number.isInteger(r.id)) return null;
+  if (typeof r.number !== "string" || !isValidTableNumber(r.number)) return null;
+  return { id: r.id, number: r.number, zone: parseZone(r.zone) };
+}
+
+/** Bölgeye, sonra numaraya göre ("2" < "10"). */
+export function sortTables(tables: Table[]) {
+  return [...tables].sort(
+    (a, b) =>
+      (a.zone ?? "").localeCompare(b.zone ?? "", "tr") ||
+      a.number.localeCompare(b.number, "tr", { numeric: true })
+  );
+}
+
+export function parseTableList(data: unknown): Table[] {
+  if (!Array.isArray(data)) throw new ApiError(200, "Masa yanıtı liste değil.", data);
+  return sortTables(data.map(parseTable).filter((t): t is Table => t !== null));
+}
+
+/** Admin route'una gelen gövde: { tables: "1-12, 15, Bahçe1", zone? }; aynı bölgeye birden çok masa. */
+export function parseTablesInput(
+  raw: unknown
+): { ok: true; input: TableInput[] } | { ok: false; reason: string } {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  if (typeof r.tables !== "string") return { ok: false, reason: "tables eksik" };
+  const numbers = [...new Set(expandTableInput(r.tables))];
+  if (!numbers.length) return { ok: false, reason: "geçerli masa numarası yok" };
+  const zone = parseZone(r.zone);
+  return { ok: true, input: numbers.map((number) => ({ number, zone })) };
+}
+
+export function createTablesApi(scope: ApiScope = {}) {
+  return {
+    async list(adminKey: string): Promise<Table[]> {
+      return parseTableList(await request(buildUrl(scope, "/api/Tables"), { adminKey }));
+    },
+
+    async create(input: TableInput, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, "/api/Tables"), { method: "POST", body: input, adminKey });
+    },
+
+    async update(id: number, input: TableInput, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Tables/${id}`), {
+        method: "PUT",
+        body: { id, ...input },
+        adminKey,
+      });
+    },
+
+    async delete(id: number, adminKey: string): Promise<void> {
+      await request(buildUrl(scope, `/api/Tables/${id}`), { method: "DELETE", adminKey });
+    },
+  };
+}
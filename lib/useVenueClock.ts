@@ -0,0 +1,23 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import { venueClock, type VenueClock } from "@/lib/availability";
+
+const TICK_MS = 30_000;
+
+function subscribe(onChange: () => void) {
+  const timer = setInterval(onChange, TICK_MS);
+  return () => clearInterval(timer);
+}
+
+// Snapshot dakika hassasiyetinde; saniyede bir yeniden render olmasın
+const currentMinute = () => Math.floor(Date.now() / 60_000);
+
+/**
+ * Mekanın saat dilimine göre şu an, dakikada bir güncellenir. Menü ISR ile render edildiği için
+ * sunucuda ve hydrate sırasında null döner; servis saatleri ancak tarayıcıda uygulanır.
+ */
+export function useVenueClock(timeZone: string): VenueClock | null {
+  const minute = useSyncExternalStore(subscribe, currentMinute, () => null);
+  return useMemo(() => (minute === null ? null : venueClock(timeZone, minute * 60_000)), [timeZone, minute]);
+}
@@ -0,0 +1,62 @@
+import config from "@/config/venues.json";
+import type { ApiScope } from "@/lib/http";
+import type { Locale } from "@/lib/i18n/locales";
+
+export type Venue = {
+  slug: string;
+  name: string;
+  tagline: string;
+  /**
+   * API'de kategori kaydı yokken kullanılan sıra; admin panelindeki "Mevcut kategorilerden oluştur"
+   * ilk kayıtları bundan üretir (bkz. lib/categoriesApi.ts).
+   */
+  categoryOrder: string[];
+  /** categoryOrder ile birlikte: Türkçe kategori adı → diğer dillerdeki ad. */
+  categoryLabels?: Record<string, Partial<Record<Locale, string>>>;
+  /** Servis saatlerinin yorumlandığı IANA saat dilimi; yoksa Europe/Istanbul. */
+  timeZone?: string;
+  /** Servis saati dışındaki ürünler: "dim" soluk ve sipariş verilemez gösterilir, "hide" gizlenir. */
+  outOfHours?: "dim" | "hide";
+  api: ApiScope;
+};
+
+type VenueConfig = {
+  defaultVenue: string;
+  venues: Venue[];
+};
+
+const registry = config as VenueConfig;
+
+const bySlug = new Map(registry.venues.map((v) => [v.slug, v]));
+
+if (!bySlug.has(registry.defaultVenue)) {
+  throw new Error(`config/venues.json: defaultVenue "${registry.defaultVenue}" tanımlı değil.`);
+}
+
+export function listVenues(): Venue[] {
+  return registry.venues;
+}
+
+export function getVenue(slug: string): Venue | null {
+  return bySlug.get(slug) ?? null;
+}
+
+export function getDefaultVenue(): Venue {
+  return bySlug.get(registry.defaultVenue)!;
+}
+
+export const DEFAULT_TIME_ZONE = "Europe/Istanbul";
+
+export function venueTimeZone(venue: Venue) {
+  return venue.timeZone || DEFAULT_TIME_ZONE;
+}
+
+/** Mekanın sunucu tarafı menü fetch'lerinin cache tag'i; /api/revalidate bunu temizler. */
+export function venueMenuTag(slug: string) {
+  return `menu:${slug}`;
+}
+
+/** Misafir menüsünün adresi; varsayılan mekan eski /menu QR kodları için kök adreste kalır. */
+export function venueMenuPath(slug: string) {
+  return slug === registry.defaultVenue ? "/menu" : `/menu/${slug}`;
+}
@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
+import { imageHosts } from "./lib/menuImages";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    // Ürün fotoğrafları için izinli dış adresler; listede olmayan URL'ler optimize edilmeden gösterilir.
+    remotePatterns: imageHosts().map((hostname) => ({ protocol: "https", hostname })),
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/token";
+import { LOCALE_COOKIE, pickLocale } from "@/lib/i18n/locales";
+
+// Menü sayfaları ISR ile statik; dil seçimi istemcide çerezden okunur. İlk ziyarette
+// çerezi Accept-Language'a göre burada yazarız ki sayfa sunucuyu dinamik yapmadan doğru dilde açılsın.
+function withLocaleCookie(req: NextRequest) {
+  const res = NextResponse.next();
+  if (!req.cookies.has(LOCALE_COOKIE)) {
+    res.cookies.set(LOCALE_COOKIE, pickLocale(req.headers.get("accept-language")), {
+      path: "/",
+      sameSite: "lax",
+      maxAge: 60 * 60 * 24 * 365,
+    });
+  }
+  return res;
+}
+
+// /admin altı oturum ister. Burada sadece imza + süre kontrol edilir; logout ile iptal
+// edilen oturumları /api/auth/session ve diğer route'lar store'dan yakalar.
+export async function proxy(req: NextRequest) {
+  if (!req.nextUrl.pathname.startsWith("/admin")) return withLocaleCookie(req);
+
+  const session = await verifySession(req.cookies.get(SESSION_COOKIE)?.value);
+  const isLogin = req.nextUrl.pathname === "/admin/login";
+
+  if (isLogin) {
+    return session ? NextResponse.redirect(new URL("/admin", req.url)) : NextResponse.next();
+  }
+
+  if (!session) {
+    const url = new URL("/admin/login", req.url);
+    url.searchParams.set("next", req.nextUrl.pathname);
+    return NextResponse.redirect(url);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/", "/menu", "/menu/:path*", "/admin", "/admin/:path*"],
+};
@@ -0,0 +1,136 @@
+// QR Menü service worker.
+// - App shell (misafir menü sayfaları + /_next/static) önceden / ilk ziyarette cache'lenir.
+//   /admin ve /api hiç cache'lenmez; oturuma özel içerik başka birine gösterilmesin.
+// - Menü verisi ve ürün fotoğrafları stale-while-revalidate ile sunulur.
+// - Menü verisi cache'ten gelip ağ başarısız olursa sayfalara "qrmenu:offline" mesajı gider.
+
+// v2: v1 admin sayfalarını da cache'liyordu; activate'te silinsin
+const VERSION = "v2";
+const SHELL_CACHE = `qrmenu-shell-${VERSION}`;
+const DATA_CACHE = `qrmenu-data-${VERSION}`;
+const IMAGE_CACHE = `qrmenu-images-${VERSION}`;
+const MAX_IMAGES = 120;
+
+// Manifest ve ikonlar mekana göre değişir (/manifest/<mekan>, /pwa-icon/<mekan>/<boy>); tarayıcı
+// kurulumda kendisi indirir
+const SHELL_URLS = ["/", "/menu"];
+
+// Misafir menüsü: "/", "/menu" ve "/menu/<mekan>"
+function isGuestPage(url) {
+  return url.origin === self.location.origin && /^\/(menu(\/[^/]+)?\/?)?$/.test(url.pathname);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const keep = new Set([SHELL_CACHE, DATA_CACHE, IMAGE_CACHE]);
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => !keep.has(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function notify(type) {
+  const clients = await self.clients.matchAll({ type: "window" });
+  for (const client of clients) client.postMessage({ type });
+}
+
+async function trim(cacheName, max) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - max))) await cache.delete(key);
+}
+
+// Cache'te varsa hemen onu dön, arkada ağdan tazele.
+async function staleWhileRevalidate(event, cacheName, { isMenuData = false, max } = {}) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+
+  const network = fetch(event.request)
+    .then(async (res) => {
+      if (res.ok) {
+        await cache.put(event.request, res.clone());
+        if (max) await trim(cacheName, max);
+      }
+      if (isMenuData) await notify("qrmenu:online");
+      return res;
+    })
+    .catch((err) => {
+      if (isMenuData && cached) notify("qrmenu:offline");
+      throw err;
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+// Misafir sayfaları: önce ağ (ISR HTML güncel kalsın), olmazsa cache. "/" ve "/menu" aynı
+// (varsayılan mekan) menüsü; başka mekanın sayfası yerine onu göstermek yanlış olur.
+async function networkFirst(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(event.request);
+    if (res.ok) await cache.put(event.request, res.clone());
+    return res;
+  } catch (err) {
+    const { pathname } = new URL(event.request.url);
+    const fallback = pathname === "/" || pathname === "/menu" ? await cache.match("/menu") : undefined;
+    const cached = (await cache.match(event.request, { ignoreSearch: true })) || fallback;
+    if (cached) {
+      notify("qrmenu:offline");
+      return cached;
+    }
+    throw err;
+  }
+}
+
+async function cacheFirst(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(event.request);
+  if (cached) return cached;
+  const res = await fetch(event.request);
+  if (res.ok) await cache.put(event.request, res.clone());
+  return res;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  // Admin ve diğer sayfalar doğrudan ağdan
+  if (request.mode === "navigate") {
+    if (isGuestPage(url)) event.respondWith(networkFirst(event));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(event));
+    return;
+  }
+
+  // Menü API'si ayrı bir origin'de; yolu yeterince ayırt edici. Kendi /api rotalarımız cache'lenmez.
+  if (url.origin !== self.location.origin && /\/api\/menu\/?$/i.test(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(event, DATA_CACHE, { isMenuData: true }));
+    return;
+  }
+
+  // Sadece kendi origin'imizden (/_next/image, /uploads) gelen fotoğraflar; dış adreslerin opaque
+  // yanıtları kotada dosya başına birkaç MB sayılır
+  if (request.destination === "image" && url.origin === self.location.origin && !url.pathname.startsWith("/api/")) {
+    event.respondWith(staleWhileRevalidate(event, IMAGE_CACHE, { max: MAX_IMAGES }));
+  }
+});
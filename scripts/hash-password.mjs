@@ -0,0 +1,11 @@
+// Kullanım: npm run hash-password -- "şifre"
+// Çıktıyı ADMIN_USERS içindeki passwordHash alanına yapıştır.
+import { hashPassword } from "../lib/auth/password.mjs";
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Kullanım: npm run hash-password -- "şifre"');
+  process.exit(1);
+}
+
+console.log(hashPassword(password));